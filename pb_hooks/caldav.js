@@ -0,0 +1,681 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// -------------------------------------------------------------------------
+// CalDAV (RFC 4791, minimal): two-way sync of the family calendar with phone apps
+// -------------------------------------------------------------------------
+// Loaded with require() from main.pb.js handlers.
+// One calendar collection (/caldav/calendars/family/), one resource per series (master + overrides,
+// same UID). Login = HTTP Basic with the FamilySync username (or email) + password, throttled per IP and per account
+// (this route bypasses PocketBase's own auth rate limits).
+// Writes go through app.save(), so connected clients get them via the usual realtime subscriptions.
+
+const ical = require(`${__hooks}/ical_feed.js`);
+
+const ROOT = "/caldav/";
+const HOME = "/caldav/calendars/";
+const CALENDAR = "/caldav/calendars/family/";
+
+// Failed logins allowed per window, per client IP and per account
+const MAX_FAILURES = 10;
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+const NS_PREFIX = {
+    "DAV:": "d",
+    "urn:ietf:params:xml:ns:caldav": "c",
+    "http://calendarserver.org/ns/": "cs",
+    "http://apple.com/ns/ical/": "ic"
+};
+
+// --- HTTP Helpers ---
+function escapeXml(str) {
+    return String(str).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function davHeaders(e) {
+    e.response.header().set("DAV", "1, 3, calendar-access");
+    e.response.header().set("Allow", "OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, REPORT");
+}
+
+function xmlResponse(e, status, body) {
+    e.response.header().set("Content-Type", "application/xml; charset=utf-8");
+    return e.string(status, '<?xml version="1.0" encoding="utf-8"?>\n' + body);
+}
+
+function readBody(e) {
+    try {
+        return toString(e.request.body) || "";
+    } catch (_) {
+        return "";
+    }
+}
+
+// --- Auth (HTTP Basic) ---
+const B64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// The JSVM has no atob(): decode base64, then UTF-8
+function decodeBase64(str) {
+    const bytes = [];
+    let buffer = 0;
+    let bits = 0;
+    str.replace(/[^A-Za-z0-9+/]/g, "").split("").forEach((ch) => {
+        buffer = (buffer << 6) | B64.indexOf(ch);
+        bits += 6;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes.push((buffer >> bits) & 0xff);
+        }
+    });
+    let encoded = "";
+    bytes.forEach((b) => { encoded += "%" + (b < 16 ? "0" : "") + b.toString(16); });
+    return decodeURIComponent(encoded);
+}
+
+// --- Login Throttling ---
+// Counters live in the app store (shared by all JSVM instances), as JSON { count, start }.
+
+function readFailures(app, key) {
+    const raw = app.store().get(key);
+    if (!raw) return null;
+    const entry = JSON.parse(raw);
+    if (Date.now() - entry.start > FAILURE_WINDOW_MS) {
+        app.store().remove(key);
+        return null;
+    }
+    return entry;
+}
+
+// Seconds until one of the keys may try again, 0 when none is blocked
+function retryAfter(app, keys) {
+    let wait = 0;
+    keys.forEach((key) => {
+        const entry = readFailures(app, key);
+        if (entry && entry.count >= MAX_FAILURES) {
+            wait = Math.max(wait, Math.ceil((entry.start + FAILURE_WINDOW_MS - Date.now()) / 1000));
+        }
+    });
+    return wait;
+}
+
+function recordFailure(app, keys) {
+    keys.forEach((key) => {
+        const entry = readFailures(app, key) || { count: 0, start: Date.now() };
+        entry.count++;
+        app.store().set(key, JSON.stringify(entry));
+    });
+}
+
+// Same as the app's login (storage.loginUser): a username stands for <slug>@familysync.local
+function loginEmail(login) {
+    if (login.indexOf("@") !== -1) return login;
+    return login.toLowerCase().replace(/[^a-z0-9]/g, "") + "@familysync.local";
+}
+
+// { user } when logged in, { retryAfter } when too many failed attempts, {} otherwise
+function authenticate(app, e) {
+    if (e.auth) return { user: e.auth };
+
+    const header = e.request.header.get("Authorization") || "";
+    if (header.indexOf("Basic ") !== 0) return {}; // Clients ask without credentials first: not a failure
+
+    const ipKey = "caldav_failures_ip_" + e.realIP();
+    let wait = retryAfter(app, [ipKey]);
+    if (wait > 0) return { retryAfter: wait };
+
+    let credentials;
+    try {
+        credentials = decodeBase64(header.substring(6));
+    } catch (_) {
+        credentials = "";
+    }
+    const sep = credentials.indexOf(":");
+    if (sep === -1) {
+        recordFailure(app, [ipKey]);
+        return {};
+    }
+    const login = credentials.substring(0, sep);
+    const password = credentials.substring(sep + 1);
+
+    let user = null;
+    try {
+        user = app.findAuthRecordByEmail("users", loginEmail(login));
+    } catch (_) { /* Unknown login */ }
+    if (!user) {
+        recordFailure(app, [ipKey]);
+        return {};
+    }
+
+    // Per account too: guesses spread over many IPs
+    const keys = [ipKey, "caldav_failures_user_" + user.id];
+    wait = retryAfter(app, keys);
+    if (wait > 0) return { retryAfter: wait };
+
+    if (!user.validatePassword(password)) {
+        recordFailure(app, keys);
+        return {};
+    }
+    app.store().remove(keys[1]);
+    return { user: user };
+}
+
+function unauthorized(e) {
+    e.response.header().set("WWW-Authenticate", 'Basic realm="FamilySync CalDAV", charset="UTF-8"');
+    return e.string(401, "Unauthorized");
+}
+
+function tooManyRequests(e, seconds) {
+    e.response.header().set("Retry-After", String(seconds));
+    return e.string(429, "Too Many Requests");
+}
+
+// --- Resources ---
+function resourceName(master) {
+    return master.getString("caldavName") || (master.getString("icalUID") || master.id) + ".ics";
+}
+
+function resourceHref(master) {
+    return CALENDAR + encodeURIComponent(resourceName(master));
+}
+
+// ETag = all records of the series, via their "updated" field
+function etagOf(series) {
+    const parts = [series.master].concat(series.overrides).map((r) => r.id + "@" + r.getString("updated"));
+    return '"' + $security.md5(parts.join("|")) + '"';
+}
+
+function listSeries(app) {
+    return ical.groupSeries(ical.findCalendarEvents(app, ""));
+}
+
+// Looks up one series by resource name (client chosen name, UID or record id)
+function findSeries(app, name) {
+    const base = name.replace(/\.ics$/i, "");
+    const masters = app.findRecordsByFilter(
+        "events",
+        "recurringEventId = '' && (caldavName = {:name} || icalUID = {:base} || id = {:base})",
+        "created", 1, 0, { name: name, base: base }
+    );
+    if (masters.length === 0) return null;
+
+    const overrides = app.findRecordsByFilter("events", "recurringEventId = {:id}", "", 0, 0, { id: masters[0].id });
+    return { master: masters[0], overrides: overrides };
+}
+
+function calendarData(app, series) {
+    return ical.renderCalendar(app, "FamilySync", [series]);
+}
+
+// --- XML Request Parsing (regex based: requests are small and well-formed) ---
+// Requested properties of a PROPFIND/REPORT as "namespace|name" keys. Empty = allprop.
+function requestedProps(body) {
+    const prefixes = {};
+    // First declaration wins: later default xmlns="..." are inline on single elements
+    body.replace(/xmlns(?::([\w.-]+))?\s*=\s*"([^"]*)"/g, (_, prefix, uri) => {
+        if (!((prefix || "") in prefixes)) prefixes[prefix || ""] = uri;
+    });
+
+    const match = body.match(/<(?:[\w.-]+:)?prop(?:\s[^>]*)?>([\s\S]*?)<\/(?:[\w.-]+:)?prop>/);
+    if (!match) return [];
+
+    const keys = [];
+    match[1].replace(/<([\w.-]+:)?([\w.-]+)([^>]*?)\/?>/g, (_, prefix, name, attrs) => {
+        const inline = (attrs.match(/xmlns\s*=\s*"([^"]*)"/) || [])[1];
+        const ns = prefix ? prefixes[prefix.slice(0, -1)] : (inline || prefixes[""] || "DAV:");
+        // Children of calendar-data (comp/prop/expand...) are options, not properties
+        if (ns === "urn:ietf:params:xml:ns:caldav" && name !== "calendar-data" && keys.some((k) => k === ns + "|calendar-data")) return;
+        keys.push(ns + "|" + name);
+    });
+    return keys;
+}
+
+function propElement(key, content) {
+    const sep = key.lastIndexOf("|");
+    const ns = key.substring(0, sep);
+    const name = key.substring(sep + 1);
+    const prefix = NS_PREFIX[ns];
+    const open = prefix ? prefix + ":" + name : "x:" + name + ' xmlns:x="' + escapeXml(ns) + '"';
+    const close = prefix ? prefix + ":" + name : "x:" + name;
+    return content ? "<" + open + ">" + content + "</" + close + ">" : "<" + open + "/>";
+}
+
+// <d:response> with found properties (200) and unknown requested ones (404)
+function davResponse(href, props, requested) {
+    const keys = requested.length ? requested : Object.keys(props);
+    const found = keys.filter((k) => k in props).map((k) => propElement(k, props[k]));
+    const missing = keys.filter((k) => !(k in props)).map((k) => propElement(k, ""));
+
+    let xml = "<d:response><d:href>" + escapeXml(href) + "</d:href>";
+    if (found.length) xml += "<d:propstat><d:prop>" + found.join("") + "</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>";
+    if (missing.length) xml += "<d:propstat><d:prop>" + missing.join("") + "</d:prop><d:status>HTTP/1.1 404 Not Found</d:status></d:propstat>";
+    return xml + "</d:response>";
+}
+
+function multistatus(responses) {
+    const ns = Object.keys(NS_PREFIX).map((uri) => 'xmlns:' + NS_PREFIX[uri] + '="' + uri + '"').join(" ");
+    return "<d:multistatus " + ns + ">" + responses.join("") + "</d:multistatus>";
+}
+
+// --- Properties ---
+function principalHref(user) {
+    return "/caldav/principals/" + user.id + "/";
+}
+
+function commonProps(user) {
+    return {
+        "DAV:|current-user-principal": "<d:href>" + principalHref(user) + "</d:href>",
+        "DAV:|principal-URL": "<d:href>" + principalHref(user) + "</d:href>",
+        "urn:ietf:params:xml:ns:caldav|calendar-home-set": "<d:href>" + HOME + "</d:href>"
+    };
+}
+
+function principalProps(user) {
+    const props = commonProps(user);
+    props["DAV:|resourcetype"] = "<d:collection/><d:principal/>";
+    props["DAV:|displayname"] = escapeXml(user.getString("name") || user.getString("email"));
+    props["urn:ietf:params:xml:ns:caldav|calendar-user-address-set"] = "<d:href>mailto:" + escapeXml(user.getString("email")) + "</d:href>";
+    return props;
+}
+
+function collectionProps(user) {
+    const props = commonProps(user);
+    props["DAV:|resourcetype"] = "<d:collection/>";
+    return props;
+}
+
+function calendarProps(user, allSeries) {
+    const props = commonProps(user);
+    props["DAV:|resourcetype"] = "<d:collection/><c:calendar/>";
+    props["DAV:|displayname"] = "FamilySync";
+    props["http://apple.com/ns/ical/|calendar-color"] = "#3B82F6FF";
+    props["urn:ietf:params:xml:ns:caldav|supported-calendar-component-set"] = '<c:comp name="VEVENT"/>';
+    props["DAV:|current-user-privilege-set"] = ["read", "write", "write-content", "write-properties", "bind", "unbind"]
+        .map((p) => "<d:privilege><d:" + p + "/></d:privilege>").join("");
+    // CTag changes whenever any resource ETag changes or a resource disappears
+    props["http://calendarserver.org/ns/|getctag"] = $security.md5(allSeries.map(etagOf).join(","));
+    return props;
+}
+
+function resourceProps(app, series, withData) {
+    const props = {
+        "DAV:|resourcetype": "",
+        "DAV:|getetag": escapeXml(etagOf(series)),
+        "DAV:|getcontenttype": "text/calendar; charset=utf-8; component=vevent"
+    };
+    if (withData) props["urn:ietf:params:xml:ns:caldav|calendar-data"] = escapeXml(calendarData(app, series));
+    return props;
+}
+
+// --- Methods ---
+function propfind(app, e, user, path) {
+    const requested = requestedProps(readBody(e));
+    const depth = e.request.header.get("Depth") === "0" ? 0 : 1;
+    const responses = [];
+
+    if (path.length === 0) {
+        responses.push(davResponse(ROOT, collectionProps(user), requested));
+    } else if (path[0] === "principals") {
+        responses.push(davResponse(principalHref(user), principalProps(user), requested));
+    } else if (path[0] === "calendars" && path.length === 1) {
+        responses.push(davResponse(HOME, collectionProps(user), requested));
+        if (depth > 0) responses.push(davResponse(CALENDAR, calendarProps(user, listSeries(app)), requested));
+    } else if (path[0] === "calendars" && path[1] === "family" && path.length === 2) {
+        const all = listSeries(app);
+        responses.push(davResponse(CALENDAR, calendarProps(user, all), requested));
+        if (depth > 0) all.forEach((s) => responses.push(davResponse(resourceHref(s.master), resourceProps(app, s, false), requested)));
+    } else if (path[0] === "calendars" && path[1] === "family" && path.length === 3) {
+        const series = findSeries(app, path[2]);
+        if (!series) return e.string(404, "Not Found");
+        responses.push(davResponse(resourceHref(series.master), resourceProps(app, series, false), requested));
+    } else {
+        return e.string(404, "Not Found");
+    }
+
+    return xmlResponse(e, 207, multistatus(responses));
+}
+
+function report(app, e, path) {
+    if (path[0] !== "calendars" || path[1] !== "family") return e.string(404, "Not Found");
+
+    const body = readBody(e);
+    const requested = requestedProps(body);
+    const withData = requested.length === 0 || requested.indexOf("urn:ietf:params:xml:ns:caldav|calendar-data") !== -1;
+    const responses = [];
+
+    if (/calendar-multiget/.test(body)) {
+        const hrefs = [];
+        body.replace(/<(?:[\w.-]+:)?href[^>]*>([^<]+)<\/(?:[\w.-]+:)?href>/g, (_, href) => { hrefs.push(href.trim()); });
+        hrefs.forEach((href) => {
+            const name = decodeURIComponent(href.split("/").filter(Boolean).pop() || "");
+            const series = name ? findSeries(app, name) : null;
+            responses.push(series
+                ? davResponse(href, resourceProps(app, series, withData), requested)
+                : "<d:response><d:href>" + escapeXml(href) + "</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>");
+        });
+    } else if (/calendar-query/.test(body)) {
+        // Time-range filter (recurring series always match)
+        const range = body.match(/time-range[^>]*?start="(\d{8}T\d{6}Z)"/);
+        const rangeEnd = body.match(/time-range[^>]*?end="(\d{8}T\d{6}Z)"/);
+        const toMs = (s) => Date.UTC(+s.substr(0, 4), +s.substr(4, 2) - 1, +s.substr(6, 2), +s.substr(9, 2), +s.substr(11, 2), +s.substr(13, 2));
+        const from = range ? toMs(range[1]) : -Infinity;
+        const to = rangeEnd ? toMs(rangeEnd[1]) : Infinity;
+
+        listSeries(app).forEach((s) => {
+            const m = s.master;
+            if (!m.getString("rrule")) {
+                const start = ical.parseDate(m.getString("startTime")).getTime();
+                const end = ical.parseDate(m.getString("endTime") || m.getString("startTime")).getTime();
+                if (start >= to || Math.max(end, start + 1) <= from) return;
+            }
+            responses.push(davResponse(resourceHref(m), resourceProps(app, s, withData), requested));
+        });
+    } else {
+        return e.string(501, "Report not supported");
+    }
+
+    return xmlResponse(e, 207, multistatus(responses));
+}
+
+function get(app, e, path) {
+    if (path[0] === "calendars" && path[1] === "family" && path.length === 2) {
+        e.response.header().set("Content-Type", "text/calendar; charset=utf-8");
+        return e.string(200, ical.renderCalendar(app, "FamilySync", listSeries(app)));
+    }
+    if (path[0] !== "calendars" || path[1] !== "family" || path.length !== 3) return e.string(404, "Not Found");
+
+    const series = findSeries(app, path[2]);
+    if (!series) return e.string(404, "Not Found");
+
+    e.response.header().set("Content-Type", "text/calendar; charset=utf-8");
+    e.response.header().set("ETag", etagOf(series));
+    return e.string(200, calendarData(app, series));
+}
+
+// If-Match / If-None-Match (RFC 7232) on the current ETag
+function preconditionFailed(e, series) {
+    const ifMatch = e.request.header.get("If-Match");
+    const ifNoneMatch = e.request.header.get("If-None-Match");
+    if (ifNoneMatch === "*" && series) return true;
+    if (ifMatch && (!series || (ifMatch !== "*" && ifMatch !== etagOf(series)))) return true;
+    return false;
+}
+
+function put(app, e, user, path) {
+    if (path[0] !== "calendars" || path[1] !== "family" || path.length !== 3) return e.string(403, "Forbidden");
+
+    const name = path[2];
+    const existing = findSeries(app, name);
+    if (preconditionFailed(e, existing)) return e.string(412, "Precondition Failed");
+
+    let parsed;
+    try {
+        parsed = parseResource(readBody(e));
+    } catch (err) {
+        return e.string(400, String(err));
+    }
+
+    const ctx = { zone: ical.getHouseholdZone(app), users: ical.loadUsers(app) };
+
+    app.runInTransaction((txApp) => {
+        const collection = txApp.findCollectionByNameOrId("events");
+
+        let master = existing ? existing.master : null;
+        if (!master) {
+            master = new Record(collection);
+            master.set("participants", [user.id]);
+            master.set("caldavName", name);
+        }
+        applyVevent(master, parsed.master, ctx);
+        txApp.save(master);
+
+        // Overrides are matched by RECURRENCE-ID; the ones missing from the new resource are gone
+        const remaining = existing ? existing.overrides.slice() : [];
+        parsed.overrides.forEach((vevent) => {
+            const recurrenceMs = resolveTime(vevent.props["RECURRENCE-ID"], ctx).ms;
+            const idx = remaining.findIndex((o) => Math.abs(ical.parseDate(o.getString("recurrenceId")).getTime() - recurrenceMs) < 1000);
+            let override = idx !== -1 ? remaining.splice(idx, 1)[0] : null;
+            if (!override) {
+                override = new Record(collection);
+                override.set("participants", master.get("participants"));
+                override.set("recurringEventId", master.id);
+                override.set("recurrenceId", new Date(recurrenceMs).toISOString());
+            }
+            applyVevent(override, vevent, ctx);
+            override.set("rrule", "");
+            override.set("exdates", []);
+            txApp.save(override);
+        });
+        remaining.forEach((o) => txApp.delete(o));
+    });
+
+    const saved = findSeries(app, name) || findSeries(app, parsed.master.props.UID.value + ".ics");
+    if (saved) e.response.header().set("ETag", etagOf(saved));
+    return e.noContent(existing ? 204 : 201);
+}
+
+function del(app, e, path) {
+    if (path[0] !== "calendars" || path[1] !== "family" || path.length !== 3) return e.string(403, "Forbidden");
+
+    const series = findSeries(app, path[2]);
+    if (!series) return e.string(404, "Not Found");
+    if (preconditionFailed(e, series)) return e.string(412, "Precondition Failed");
+
+    app.runInTransaction((txApp) => {
+        series.overrides.forEach((o) => txApp.delete(o));
+        txApp.delete(series.master);
+    });
+    return e.noContent(204);
+}
+
+// --- iCalendar Parsing (PUT bodies) ---
+function unescapeText(value) {
+    return value.replace(/\\([nN,;\\])/g, (_, ch) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+// "DTSTART;TZID=Europe/Paris:20250303T090000" -> { name, params, value }
+function parseLine(line) {
+    let inQuotes = false;
+    let sep = -1;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line.charAt(i);
+        if (ch === '"') inQuotes = !inQuotes;
+        else if (ch === ":" && !inQuotes) { sep = i; break; }
+    }
+    if (sep === -1) return null;
+
+    const head = line.substring(0, sep).split(";");
+    const params = {};
+    head.slice(1).forEach((p) => {
+        const eq = p.indexOf("=");
+        if (eq !== -1) params[p.substring(0, eq).toUpperCase()] = p.substring(eq + 1).replace(/^"|"$/g, "");
+    });
+    return { name: head[0].toUpperCase(), params: params, value: line.substring(sep + 1) };
+}
+
+// Properties that may appear several times in one VEVENT
+const MULTI_PROPS = ["EXDATE", "CATEGORIES", "ATTENDEE"];
+
+function parseResource(text) {
+    if (text.indexOf("BEGIN:VCALENDAR") === -1) throw new Error("Not an iCalendar object");
+
+    const vevents = [];
+    let current = null;
+    let nested = []; // Components inside the VEVENT (VALARM...): only alarm triggers are kept
+
+    text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/).forEach((line) => {
+        const upper = line.toUpperCase();
+        if (upper === "BEGIN:VEVENT") { current = { props: {}, multi: {}, alarms: [] }; nested = []; return; }
+        if (!current) return;
+        if (upper === "END:VEVENT") { vevents.push(current); current = null; return; }
+        if (upper.indexOf("BEGIN:") === 0) { nested.push(upper.substring(6)); return; }
+        if (upper.indexOf("END:") === 0) { nested.pop(); return; }
+
+        const prop = parseLine(line);
+        if (!prop) return;
+        if (nested.length > 0) {
+            if (nested.length === 1 && nested[0] === "VALARM" && prop.name === "TRIGGER") current.alarms.push(prop);
+            return;
+        }
+        if (MULTI_PROPS.indexOf(prop.name) !== -1) (current.multi[prop.name] = current.multi[prop.name] || []).push(prop);
+        else if (!current.props[prop.name]) current.props[prop.name] = prop;
+    });
+
+    const master = vevents.find((v) => !v.props["RECURRENCE-ID"]);
+    if (!master) throw new Error("Missing master VEVENT");
+    if (!master.props.DTSTART) throw new Error("Missing DTSTART");
+    if (!master.props.UID) throw new Error("Missing UID");
+
+    return { master: master, overrides: vevents.filter((v) => v !== master && v.props["RECURRENCE-ID"] && v.props.DTSTART) };
+}
+
+// Floating date "YYYYMMDD[THHMMSS]" -> "YYYY-MM-DD HH:mm:ss"
+function toWall(value) {
+    return value.substr(0, 4) + "-" + value.substr(4, 2) + "-" + value.substr(6, 2) + " " +
+        (value.length >= 15 ? value.substr(9, 2) + ":" + value.substr(11, 2) + ":" + value.substr(13, 2) : "00:00:00");
+}
+
+// Property value -> instant. All-day dates map to local midnight of the household zone, like the app.
+function resolveTime(prop, ctx) {
+    const value = prop.value.split(",")[0].trim();
+    const isDate = prop.params.VALUE === "DATE" || /^\d{8}$/.test(value);
+
+    if (isDate) return { ms: ical.wallToUtc(toWall(value), ctx.zone), isDate: true, date: value.substr(0, 8) };
+    if (/Z$/i.test(value)) return { ms: ical.wallToUtc(toWall(value), "UTC"), isDate: false };
+
+    const tzid = prop.params.TZID;
+    if (tzid && ical.isValidZone(tzid)) return { ms: ical.wallToUtc(toWall(value), tzid), isDate: false, tzid: tzid };
+    return { ms: ical.wallToUtc(toWall(value), ctx.zone), isDate: false };
+}
+
+// Parses "P1DT2H", "PT30M", "P1W" into ms
+function parseDuration(value) {
+    const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value || "");
+    if (!m) return 0;
+    const ms = ((+m[2] || 0) * 604800 + (+m[3] || 0) * 86400 + (+m[4] || 0) * 3600 + (+m[5] || 0) * 60 + (+m[6] || 0)) * 1000;
+    return m[1] === "-" ? -ms : ms;
+}
+
+function icalTimeProp(resolved, prop) {
+    if (resolved.isDate) return ";VALUE=DATE:" + resolved.date;
+    if (resolved.tzid) return ";TZID=" + resolved.tzid + ":" + prop.value.trim().substr(0, 15);
+    return ":" + ical.toUtcString(new Date(resolved.ms));
+}
+
+function applyVevent(record, vevent, ctx) {
+    const p = vevent.props;
+    const start = resolveTime(p.DTSTART, ctx);
+
+    let end;
+    let icalEnd;
+    if (p.DTEND) {
+        end = resolveTime(p.DTEND, ctx);
+        icalEnd = icalTimeProp(end, p.DTEND);
+    } else {
+        // RFC 5545 3.6.1: no DTEND = DURATION, else one day (dates) or zero length (date-times)
+        const duration = p.DURATION ? parseDuration(p.DURATION.value) : (start.isDate ? 86400000 : 0);
+        end = { ms: start.ms + duration };
+        icalEnd = start.isDate
+            ? ";VALUE=DATE:" + ical.toDateString(new Date(Date.UTC(+start.date.substr(0, 4), +start.date.substr(4, 2) - 1, +start.date.substr(6, 2)) + duration))
+            : icalTimeProp({ ms: end.ms }, null);
+    }
+
+    const zone = start.tzid || ctx.zone || "UTC";
+
+    record.set("title", p.SUMMARY ? unescapeText(p.SUMMARY.value) : "Untitled Event");
+    record.set("description", p.DESCRIPTION ? unescapeText(p.DESCRIPTION.value) : "");
+    record.set("startTime", new Date(start.ms).toISOString());
+    record.set("endTime", new Date(end.ms).toISOString());
+    record.set("isAllDay", start.isDate);
+    record.set("timeZone", start.tzid || "");
+    record.set("icalStart", icalTimeProp(start, p.DTSTART));
+    record.set("icalEnd", icalEnd);
+    record.set("icalUID", p.UID ? p.UID.value.trim() : record.getString("icalUID"));
+    record.set("rrule", p.RRULE ? p.RRULE.value.trim() : "");
+    record.set("location", p.LOCATION ? unescapeText(p.LOCATION.value) : "");
+
+    // GEO:lat;lon pin (0/0 = none) and travel time blocked before the start
+    const geo = p.GEO ? p.GEO.value.split(";").map(Number) : [];
+    const hasGeo = geo.length === 2 && isFinite(geo[0]) && isFinite(geo[1]);
+    record.set("locationLat", hasGeo ? geo[0] : 0);
+    record.set("locationLon", hasGeo ? geo[1] : 0);
+    const travel = p["X-APPLE-TRAVEL-DURATION"] ? Math.round(parseDuration(p["X-APPLE-TRAVEL-DURATION"].value.trim()) / 60000) : 0;
+    record.set("travelMinutes", Math.max(0, travel));
+
+    // CATEGORIES:a,b\,c -> ["a", "b,c"]
+    const categories = [];
+    (vevent.multi.CATEGORIES || []).forEach((prop) => {
+        prop.value.replace(/\\,/g, "\u0000").split(",").forEach((c) => {
+            const name = unescapeText(c.replace(/\u0000/g, "\\,")).trim();
+            if (name && categories.indexOf(name) === -1) categories.push(name);
+        });
+    });
+    record.set("categories", categories);
+
+    // ATTENDEE -> family members (email, app URI or name); unknown attendees are ignored
+    const participants = [];
+    (vevent.multi.ATTENDEE || []).forEach((prop) => {
+        const uri = prop.value.trim().toLowerCase();
+        const name = (prop.params.CN || "").trim().toLowerCase();
+        Object.keys(ctx.users).forEach((id) => {
+            const user = ctx.users[id];
+            const match = uri === "mailto:" + user.email.toLowerCase() || uri === (ical.ATTENDEE_URI + id).toLowerCase() ||
+                (name && user.name.toLowerCase() === name);
+            if (match && participants.indexOf(id) === -1) participants.push(id);
+        });
+    });
+    if (participants.length) record.set("participants", participants);
+
+    // EXDATE -> "YYYY-MM-DD" keys of the occurrence in the event zone (see getOccurrenceDateKey)
+    const exdates = [];
+    (vevent.multi.EXDATE || []).forEach((prop) => {
+        prop.value.split(",").forEach((v) => {
+            const resolved = resolveTime({ name: "EXDATE", params: prop.params, value: v }, ctx);
+            const key = resolved.isDate
+                ? toWall(resolved.date).substring(0, 10)
+                : ical.formatWall(ical.utcToWall(resolved.ms, zone).getTime()).substring(0, 10);
+            if (exdates.indexOf(key) === -1) exdates.push(key);
+        });
+    });
+    record.set("exdates", exdates);
+
+    // VALARM -> minutes before the start (alarms after the start are dropped)
+    const reminders = [];
+    vevent.alarms.forEach((prop) => {
+        let before;
+        if (prop.params.VALUE === "DATE-TIME") {
+            before = start.ms - resolveTime(prop, ctx).ms;
+        } else {
+            const anchor = prop.params.RELATED === "END" ? end.ms : start.ms;
+            before = start.ms - (anchor + parseDuration(prop.value.trim()));
+        }
+        const minutes = Math.round(before / 60000);
+        if (minutes >= 0 && reminders.indexOf(minutes) === -1) reminders.push(minutes);
+    });
+    record.set("reminders", reminders.sort((a, b) => a - b));
+}
+
+// --- Entry Point ---
+function handle(e) {
+    const app = $app;
+    davHeaders(e);
+
+    const method = e.request.method.toUpperCase();
+    if (method === "OPTIONS") return e.noContent(200);
+
+    const login = authenticate(app, e);
+    if (login.retryAfter) return tooManyRequests(e, login.retryAfter);
+    const user = login.user;
+    if (!user) return unauthorized(e);
+
+    const path = (e.request.pathValue("path") || "").split("/").filter(Boolean);
+
+    switch (method) {
+        case "PROPFIND": return propfind(app, e, user, path);
+        case "REPORT": return report(app, e, path);
+        case "GET":
+        case "HEAD": return get(app, e, path);
+        case "PUT": return put(app, e, user, path);
+        case "DELETE": return del(app, e, path);
+        default: return e.string(405, "Method Not Allowed");
+    }
+}
+
+module.exports = { handle, parseResource, requestedProps, decodeBase64 };
@@ -0,0 +1,316 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// -------------------------------------------------------------------------
+// Server iCal rendering: port of generateICS (src/services/ical.ts)
+// -------------------------------------------------------------------------
+// Loaded with require() from main.pb.js handlers (private feeds + CalDAV).
+// DTSTART/DTEND come pre-rendered by the client (events.icalStart / icalEnd): the JSVM has no Intl,
+// the only zone maths available is DateTime parsing a wall time in an IANA zone.
+// Older records fall back to UTC instants.
+
+function pad(n) {
+    return (n < 10 ? "0" : "") + n;
+}
+
+// PocketBase dates are "YYYY-MM-DD HH:mm:ss.SSSZ"
+function parseDate(str) {
+    return str ? new Date(str.replace(" ", "T")) : null;
+}
+
+function toUtcString(d) {
+    return d.getUTCFullYear() + pad(d.getUTCMonth() + 1) + pad(d.getUTCDate()) +
+        "T" + pad(d.getUTCHours()) + pad(d.getUTCMinutes()) + pad(d.getUTCSeconds()) + "Z";
+}
+
+function toDateString(d) {
+    return d.getUTCFullYear() + pad(d.getUTCMonth() + 1) + pad(d.getUTCDate());
+}
+
+// --- Zone Helpers ---
+// "YYYY-MM-DD HH:mm:ss" wall time in an IANA zone -> epoch ms
+function wallToUtc(wall, tz) {
+    return parseDate(new DateTime(wall, tz || "UTC").string()).getTime();
+}
+
+function formatWall(ms) {
+    const d = new Date(ms);
+    return d.getUTCFullYear() + "-" + pad(d.getUTCMonth() + 1) + "-" + pad(d.getUTCDate()) +
+        " " + pad(d.getUTCHours()) + ":" + pad(d.getUTCMinutes()) + ":" + pad(d.getUTCSeconds());
+}
+
+// Epoch ms -> wall time in the zone, as a "floating" Date (UTC fields = wall clock).
+// Only wall->UTC is available: guess the offset, then correct it once for DST edges.
+function utcToWall(ms, tz) {
+    let wall = ms + (ms - wallToUtc(formatWall(ms), tz));
+    const diff = ms - wallToUtc(formatWall(wall), tz);
+    if (diff !== 0) wall += diff;
+    return new Date(wall);
+}
+
+function isValidZone(tz) {
+    if (!tz) return false;
+    try {
+        new DateTime("2000-01-01 00:00:00", tz);
+        return true;
+    } catch (_) {
+        return false;
+    }
+}
+
+// Household zone (system_settings.timeZone), used for floating times and all-day dates
+function getHouseholdZone(app) {
+    try {
+        const tz = app.findRecordsByFilter("system_settings", "", "", 1, 0)[0].getString("timeZone");
+        return isValidZone(tz) ? tz : "";
+    } catch (_) {
+        return "";
+    }
+}
+
+// Date (floating Date) an all-day instant stands for. Stored as midnight in the household zone (older
+// events: of the creating device): without a household zone, +12h lands on the intended date for any UTC offset.
+function allDayDate(ms, ctx) {
+    return ctx.zone ? utcToWall(ms, ctx.zone) : new Date(ms + 43200000);
+}
+
+// --- Text Helpers (same rules as src/services/ical.ts) ---
+function escapeText(text) {
+    return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function quoteParam(value) {
+    const clean = value.replace(/"/g, "'");
+    return /[:;,]/.test(clean) ? '"' + clean + '"' : clean;
+}
+
+function utf8Length(ch) {
+    const code = ch.codePointAt(0);
+    return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+// Max 75 octets per line, continuation lines start with a space
+function foldLine(line) {
+    const chunks = [];
+    let current = "";
+    let size = 0;
+    for (const ch of line) {
+        const chSize = utf8Length(ch);
+        if (size + chSize > (chunks.length === 0 ? 75 : 74)) {
+            chunks.push(current);
+            current = "";
+            size = 0;
+        }
+        current += ch;
+        size += chSize;
+    }
+    chunks.push(current);
+    return chunks.join("\r\n ");
+}
+
+function getJsonList(r, field) {
+    try {
+        const list = JSON.parse(r.getString(field) || "[]");
+        return Array.isArray(list) ? list : [];
+    } catch (_) {
+        return [];
+    }
+}
+
+// Reminder offset (minutes before the start) -> VALARM TRIGGER
+function toTrigger(minutes) {
+    if (minutes === 0) return "PT0S";
+    if (minutes % 10080 === 0) return "-P" + (minutes / 10080) + "W";
+    if (minutes % 1440 === 0) return "-P" + (minutes / 1440) + "D";
+    if (minutes % 60 === 0) return "-PT" + (minutes / 60) + "H";
+    return "-PT" + minutes + "M";
+}
+
+// Family members as ATTENDEE: email when known, else the URI the app exports
+const ATTENDEE_URI = "urn:familysync:user:";
+
+function loadUsers(app) {
+    const users = {};
+    app.findRecordsByFilter("users", "", "", 0, 0).forEach((u) => {
+        users[u.id] = { name: u.getString("name") || u.getString("username"), email: u.getString("email") };
+    });
+    return users;
+}
+
+// --- Rendering ---
+function timeProps(r, ctx) {
+    const icalStart = r.getString("icalStart");
+    if (icalStart) {
+        return { dtStart: icalStart, dtEnd: r.getString("icalEnd") };
+    }
+
+    // Legacy fallback (saved before icalStart existed)
+    const start = parseDate(r.getString("startTime"));
+    const end = parseDate(r.getString("endTime"));
+
+    if (r.getBool("isAllDay")) {
+        const day = allDayDate(start.getTime(), ctx);
+        const endDay = end && end > start ? allDayDate(end.getTime(), ctx) : new Date(day.getTime() + 86400000);
+        return { dtStart: ";VALUE=DATE:" + toDateString(day), dtEnd: ";VALUE=DATE:" + toDateString(endDay) };
+    }
+
+    return { dtStart: ":" + toUtcString(start), dtEnd: end ? ":" + toUtcString(end) : "" };
+}
+
+// Formats an instant of the series (EXDATE / RECURRENCE-ID) the same way as the master DTSTART
+function seriesTime(master, ms, ctx) {
+    const dtStart = timeProps(master, ctx).dtStart;
+    if (dtStart.indexOf(";VALUE=DATE") === 0) {
+        return ";VALUE=DATE:" + toDateString(allDayDate(ms, ctx));
+    }
+    const tzid = (dtStart.match(/^;TZID=([^:;]+)/) || [])[1];
+    if (tzid && isValidZone(tzid)) {
+        return ";TZID=" + tzid + ":" + toUtcString(utcToWall(ms, tzid)).replace("Z", "");
+    }
+    return ":" + toUtcString(new Date(ms));
+}
+
+// Exdates are "YYYY-MM-DD" keys of the occurrence in the event zone: rebuild the occurrence instant
+function exdateTime(master, key, ctx) {
+    const start = parseDate(master.getString("startTime")).getTime();
+    if (master.getBool("isAllDay")) {
+        return ";VALUE=DATE:" + key.replace(/-/g, "");
+    }
+    const dtStart = timeProps(master, ctx).dtStart;
+    const tzid = (dtStart.match(/^;TZID=([^:;]+)/) || [])[1];
+    if (tzid) {
+        return ";TZID=" + tzid + ":" + key.replace(/-/g, "") + dtStart.substring(dtStart.indexOf("T", dtStart.indexOf(":")));
+    }
+    const zone = isValidZone(master.getString("timeZone")) ? master.getString("timeZone") : (ctx.zone || "UTC");
+    const clock = formatWall(utcToWall(start, zone).getTime()).substring(11);
+    return ":" + toUtcString(new Date(wallToUtc(key + " " + clock, zone)));
+}
+
+function renderEvent(r, lines, ctx, master) {
+    lines.push("BEGIN:VEVENT");
+    lines.push("UID:" + ((master || r).getString("icalUID") || (master || r).id));
+    lines.push("DTSTAMP:" + toUtcString(new Date()));
+
+    const times = timeProps(r, ctx);
+    lines.push("DTSTART" + times.dtStart);
+    if (times.dtEnd) lines.push("DTEND" + times.dtEnd);
+
+    // Override of one occurrence (RFC 5545 3.8.4.4)
+    if (master) {
+        lines.push("RECURRENCE-ID" + seriesTime(master, parseDate(r.getString("recurrenceId")).getTime(), ctx));
+    }
+
+    lines.push("SUMMARY:" + escapeText(r.getString("title")));
+    const description = r.getString("description");
+    if (description) lines.push("DESCRIPTION:" + escapeText(description));
+    const location = r.getString("location");
+    if (location) lines.push("LOCATION:" + escapeText(location));
+    const lat = r.getFloat("locationLat"), lon = r.getFloat("locationLon");
+    if (lat !== 0 || lon !== 0) lines.push("GEO:" + lat + ";" + lon); // 0/0 = not geocoded
+    const travel = r.getInt("travelMinutes");
+    if (travel > 0) lines.push("X-APPLE-TRAVEL-DURATION;VALUE=DURATION:PT" + travel + "M");
+    const categories = getJsonList(r, "categories");
+    if (categories.length) lines.push("CATEGORIES:" + categories.map((c) => escapeText(String(c))).join(","));
+
+    r.getStringSlice("participants").forEach((id) => {
+        const user = ctx.users[id];
+        if (!user) return;
+        const uri = user.email ? "mailto:" + user.email : ATTENDEE_URI + id;
+        lines.push("ATTENDEE;CN=" + quoteParam(user.name) + ";CUTYPE=INDIVIDUAL;PARTSTAT=ACCEPTED:" + uri);
+    });
+
+    // Recurrence (rrule.js strings may carry their own DTSTART line: keep only the rule)
+    const rrule = master ? "" : r.getString("rrule");
+    if (rrule) {
+        const ruleLine = rrule.split(/\r?\n/).find((p) => p.indexOf("RRULE:") === 0 || p.indexOf("FREQ=") === 0);
+        if (ruleLine) lines.push("RRULE:" + ruleLine.replace(/^RRULE:/i, ""));
+        getJsonList(r, "exdates").forEach((key) => lines.push("EXDATE" + exdateTime(r, key, ctx)));
+    }
+
+    getJsonList(r, "reminders").forEach((minutes) => {
+        lines.push("BEGIN:VALARM", "ACTION:DISPLAY", "DESCRIPTION:" + escapeText(r.getString("title")), "TRIGGER:" + toTrigger(minutes), "END:VALARM");
+    });
+
+    lines.push("END:VEVENT");
+}
+
+// Master + its overrides = one UID = one CalDAV resource
+function renderSeries(series, lines, ctx) {
+    renderEvent(series.master, lines, ctx);
+    series.overrides.forEach((o) => {
+        if (o.getString("recurrenceId")) renderEvent(o, lines, ctx, series.master);
+    });
+}
+
+// Groups override records under their master. Orphans (master missing) are kept as standalone events.
+function groupSeries(records) {
+    const byId = {};
+    records.forEach((r) => { byId[r.id] = { master: r, overrides: [] }; });
+
+    const result = [];
+    records.forEach((r) => {
+        const masterId = r.getString("recurringEventId");
+        if (masterId && byId[masterId] && masterId !== r.id) {
+            byId[masterId].overrides.push(r);
+        } else {
+            result.push(byId[r.id]);
+        }
+    });
+    return result;
+}
+
+function renderCalendar(app, name, series) {
+    const ctx = { zone: getHouseholdZone(app), users: loadUsers(app) };
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//FamilySync//App//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "X-WR-CALNAME:" + escapeText(name),
+        "REFRESH-INTERVAL;VALUE=DURATION:PT1H"
+    ];
+    series.forEach((s) => renderSeries(s, lines, ctx));
+    lines.push("END:VCALENDAR");
+
+    return lines.map(foldLine).join("\r\n");
+}
+
+// Same window as the app: recurring series + the last year onwards (overrides follow their master).
+// A member's feed keeps the series they take part in, with all their overrides: an override edited
+// without them still replaces (or cancels) that occurrence.
+function findCalendarEvents(app, participantId) {
+    const since = new Date();
+    since.setFullYear(since.getFullYear() - 1);
+    const records = app.findRecordsByFilter("events", "(rrule != '' || recurringEventId != '' || startTime >= {:since})", "startTime", 0, 0, {
+        since: since.toISOString().replace("T", " ")
+    });
+    if (!participantId) return records;
+
+    const result = [];
+    groupSeries(records).forEach((s) => {
+        if (s.master.getStringSlice("participants").indexOf(participantId) === -1) return;
+        result.push(s.master);
+        s.overrides.forEach((o) => result.push(o));
+    });
+    return result;
+}
+
+function renderFeed(app, feed) {
+    const participantId = feed.getString("participant");
+
+    let calName = "FamilySync";
+    if (participantId) {
+        try {
+            const member = app.findRecordById("users", participantId);
+            calName += " - " + (member.getString("name") || member.getString("username"));
+        } catch (_) { /* Member removed meanwhile */ }
+    }
+
+    return renderCalendar(app, calName, groupSeries(findCalendarEvents(app, participantId)));
+}
+
+module.exports = {
+    pad, parseDate, toUtcString, toDateString,
+    wallToUtc, utcToWall, formatWall, isValidZone, getHouseholdZone, getJsonList, loadUsers, ATTENDEE_URI,
+    groupSeries, renderSeries, renderCalendar, findCalendarEvents, renderFeed
+};
@@ -51,4 +51,155 @@ routerAdd("GET", "/api/app_status", (c) => {
     } catch (e) {
         return c.json(200, { setupRequired: false });
     }
-});
\ No newline at end of file
+});
+
+// -------------------------------------------------------------------------
+// 3. CALENDAR SUBSCRIPTIONS (External ICS Feeds)
+// -------------------------------------------------------------------------
+// Refresh every enabled feed periodically
+cronAdd("calendar_subscriptions_sync", "*/30 * * * *", () => {
+    const subscriptions = require(`${__hooks}/subscriptions.js`);
+    const total = subscriptions.syncAll($app);
+    console.log(`[Subscriptions] Synced ${total} feed(s)`);
+});
+
+// Manual "Sync now" (Admins)
+routerAdd("POST", "/api/subscriptions/{id}/sync", (e) => {
+    if (!e.auth || !e.auth.getBool("isAdmin")) {
+        throw new ForbiddenError("Only admins can sync subscriptions.");
+    }
+
+    const subscriptions = require(`${__hooks}/subscriptions.js`);
+    const sub = $app.findRecordById("calendar_subscriptions", e.request.pathValue("id"));
+    const result = subscriptions.syncSubscription($app, sub);
+
+    if (!result.ok) {
+        return e.json(502, { message: result.error });
+    }
+    return e.json(200, result);
+}, $apis.requireAuth());
+
+
+// -------------------------------------------------------------------------
+// 4. PRIVATE ICAL FEEDS (Phone calendar apps)
+// -------------------------------------------------------------------------
+// The secret token is generated here and the feed is always owned by its creator
+onRecordCreateRequest((e) => {
+    if (!e.auth) {
+        throw new ForbiddenError("Login required.");
+    }
+    e.record.set("user", e.auth.id);
+    e.record.set("token", $security.randomString(40));
+    return e.next();
+}, "ical_feeds");
+
+// Public on purpose: calendar apps can't log in, the token is the credential.
+// Revoking = deleting the feed record.
+routerAdd("GET", "/api/ical/{token}", (e) => {
+    const token = e.request.pathValue("token").replace(/\.ics$/i, "");
+
+    let feed;
+    try {
+        feed = $app.findFirstRecordByFilter("ical_feeds", "token = {:token}", { token: token });
+    } catch (_) {
+        throw new NotFoundError("Feed not found.");
+    }
+
+    const icalFeed = require(`${__hooks}/ical_feed.js`);
+    e.response.header().set("Content-Type", "text/calendar; charset=utf-8");
+    e.response.header().set("Cache-Control", "private, max-age=300");
+    return e.string(200, icalFeed.renderFeed($app, feed));
+});
+
+
+// -------------------------------------------------------------------------
+// 5. CALDAV (Two-way sync with phone / desktop calendar apps)
+// -------------------------------------------------------------------------
+// Account URL for the apps: https://<host>/caldav/ (login = username or email + password)
+["OPTIONS", "PROPFIND", "REPORT", "GET", "PUT", "DELETE"].forEach((method) => {
+    routerAdd(method, "/caldav/{path...}", (e) => {
+        const caldav = require(`${__hooks}/caldav.js`);
+        return caldav.handle(e);
+    });
+});
+
+// Service discovery (RFC 6764)
+["GET", "PROPFIND"].forEach((method) => {
+    routerAdd(method, "/.well-known/caldav", (e) => {
+        return e.redirect(301, "/caldav/");
+    });
+});
+
+
+// -------------------------------------------------------------------------
+// 6. EVENT & BIRTHDAY REMINDERS (In-app toasts + Web Push)
+// -------------------------------------------------------------------------
+cronAdd("event_reminders", "* * * * *", () => {
+    const reminders = require(`${__hooks}/reminders.js`);
+    const total = reminders.processDue($app);
+    if (total > 0) console.log(`[Reminders] Notified ${total} member(s)`);
+});
+
+// A device always belongs to the logged-in user. Subscribing again (other member on the same browser) moves it.
+onRecordCreateRequest((e) => {
+    if (!e.auth) {
+        throw new ForbiddenError("Login required.");
+    }
+    const endpoint = e.record.getString("endpoint");
+    if (!/^https:\/\//.test(endpoint)) {
+        throw new BadRequestError("Invalid push endpoint.");
+    }
+    try {
+        $app.delete($app.findFirstRecordByData("push_subscriptions", "endpoint", endpoint));
+    } catch (_) { /* New device */ }
+
+    e.record.set("user", e.auth.id);
+    return e.next();
+}, "push_subscriptions");
+
+// VAPID public key for pushManager.subscribe (null = no push service configured or reachable, toasts only)
+routerAdd("GET", "/api/push/key", (e) => {
+    const webpush = require(`${__hooks}/webpush.js`);
+    if (!webpush.isSupported()) return e.json(200, { publicKey: null });
+
+    try {
+        return e.json(200, { publicKey: webpush.getVapidKeys($app).publicKey });
+    } catch (err) {
+        console.log(`[Push] No VAPID keys: ${err}`);
+        return e.json(200, { publicKey: null });
+    }
+}, $apis.requireAuth());
+
+// Fetched by the service worker when woken up (pushes carry no payload).
+// Public on purpose: the worker has no session, the endpoint is only known to the device and its push service.
+routerAdd("GET", "/api/push/pending", (e) => {
+    let sub;
+    try {
+        sub = $app.findFirstRecordByData("push_subscriptions", "endpoint", e.request.url.query().get("endpoint"));
+    } catch (_) {
+        throw new NotFoundError("Unknown subscription.");
+    }
+
+    const since = new Date(Date.now() - 10 * 60000).toISOString().replace("T", " ");
+    const notifications = $app.findRecordsByFilter("notifications", "user = {:user} && created >= {:since}", "-created", 10, 0, {
+        user: sub.getString("user"),
+        since: since
+    });
+
+    return e.json(200, notifications.map((n) => ({
+        id: n.id,
+        title: n.getString("title"),
+        occurrence: n.getString("occurrence"),
+        minutesBefore: n.getInt("minutesBefore"),
+        birthday: n.getString("birthday")
+    })));
+});
+
+
+// -------------------------------------------------------------------------
+// 7. PURCHASE HISTORY (Cleared carts & shopping trips)
+// -------------------------------------------------------------------------
+routerAdd("POST", "/api/shopping/archive", (e) => {
+    const purchases = require(`${__hooks}/purchases.js`);
+    return e.json(200, purchases.archive($app, e.auth, e.requestInfo().body || {}));
+}, $apis.requireAuth());
@@ -0,0 +1,86 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// -------------------------------------------------------------------------
+// Purchase History: archive a cleared cart (and its shopping trip) in one transaction
+// -------------------------------------------------------------------------
+// Loaded with require() from main.pb.js handlers.
+// Idempotent, so the client can retry or replay it from its offline queue: the trip ID is chosen by the
+// client and a history row is keyed by its shopping item (an item is bought once).
+
+const RECORD_ID = /^[a-z0-9]{15}$/;
+
+// Same visibility as the items: named lists for their members only (none = the whole family)
+function canSeeList(app, user, listId) {
+    if (!listId) return true;
+    try {
+        const members = app.findRecordById("shopping_lists", listId).getStringSlice("members");
+        return members.length === 0 || members.indexOf(user.id) !== -1;
+    } catch (_) {
+        return false;
+    }
+}
+
+// body: { trip?: { id, storeId, listId, startedAt, finishedAt, itemCount }, items: [{ id, content, quantity, unit, category, listId, isPrivate, completedAt }] }
+function archive(app, user, body) {
+    const items = Array.isArray(body.items) ? body.items : [];
+    const trip = body.trip || null;
+    let archived = 0;
+
+    app.runInTransaction((txApp) => {
+        if (trip) {
+            if (!RECORD_ID.test(trip.id || "")) throw new BadRequestError("Invalid trip ID.");
+            if (!canSeeList(txApp, user, trip.listId)) throw new ForbiddenError("Not a member of this list.");
+            try {
+                txApp.findRecordById("shopping_trips", trip.id); // Replayed: already saved
+            } catch (_) {
+                const record = new Record(txApp.findCollectionByNameOrId("shopping_trips"));
+                record.set("id", trip.id);
+                record.set("store", trip.storeId || "");
+                record.set("list", trip.listId || "");
+                record.set("user", user.id);
+                record.set("startedAt", trip.startedAt);
+                record.set("finishedAt", trip.finishedAt);
+                record.set("itemCount", trip.itemCount || 0);
+                txApp.save(record);
+            }
+        }
+
+        const history = txApp.findCollectionByNameOrId("shopping_history");
+        items.forEach((item) => {
+            if (!item.id || !item.content) throw new BadRequestError("Invalid item.");
+            if (!canSeeList(txApp, user, item.listId)) throw new ForbiddenError("Not a member of this list.");
+            try {
+                txApp.findFirstRecordByData("shopping_history", "item", item.id);
+                return; // Replayed: already archived
+            } catch (_) { /* New */ }
+
+            // Who added / checked it off comes from the stored item (the caller when it never reached the server)
+            let addedBy = user.id;
+            let boughtBy = user.id;
+            try {
+                const source = txApp.findRecordById("shopping_items", item.id);
+                addedBy = source.getString("addedBy") || user.id;
+                boughtBy = source.getString("completedBy") || user.id;
+            } catch (_) { /* Offline item */ }
+
+            const record = new Record(history);
+            record.set("item", item.id);
+            record.set("content", item.content);
+            record.set("quantity", item.quantity || 0);
+            record.set("unit", item.unit || "");
+            record.set("category", item.category || "");
+            record.set("list", item.listId || "");
+            record.set("isPrivate", !!item.isPrivate);
+            record.set("addedBy", addedBy);
+            record.set("boughtBy", boughtBy);
+            record.set("boughtAt", item.completedAt || new Date().toISOString());
+            record.set("trip", trip ? trip.id : "");
+            txApp.save(record);
+            archived++;
+        });
+    });
+
+    return { archived: archived };
+}
+
+module.exports = { archive };
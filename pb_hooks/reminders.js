@@ -0,0 +1,389 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// -------------------------------------------------------------------------
+// Event reminders: find the due (member, occurrence, offset) triggers
+// -------------------------------------------------------------------------
+// Loaded with require() from the cron in main.pb.js.
+// There is no rrule.js here: rules are expanded in "floating" time (UTC fields = wall clock in the
+// event zone, like services/recurrence.ts) and only the candidates are converted with DateTime.
+// Supported: DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY, BYMONTH,
+// BYSETPOS, WKST (everything the editor produces). Other rules only remind for their first occurrence.
+
+const ical = require(`${__hooks}/ical_feed.js`);
+
+const DAY_MS = 86400000;
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const LOOKBACK_MS = 10 * 60000; // Catch up on triggers missed while the server was down (not older)
+const MAX_OFFSET_MINUTES = 4 * 7 * 24 * 60; // "4 weeks before" is the longest preset
+const OVERRIDE_QUERY_CHUNK = 50; // Series per overrides query (filter length)
+
+// --- Floating Date Helpers (ms since epoch of the wall clock) ---
+function weekdayOf(ms) {
+    return ((Math.floor(ms / DAY_MS) + 3) % 7 + 7) % 7; // 1970-01-01 was a Thursday, 0 = Monday
+}
+
+function daysInMonth(year, month) {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function monthDays(year, month) {
+    const days = [];
+    for (let d = 1; d <= daysInMonth(year, month); d++) days.push(Date.UTC(year, month, d));
+    return days;
+}
+
+// "YYYYMMDD[THHMMSS[Z]]" -> floating ms (UNTIL in UTC is moved to the event zone)
+function parseUntil(value, zone) {
+    const wall = value.substr(0, 4) + "-" + value.substr(4, 2) + "-" + value.substr(6, 2) + " " +
+        (value.length >= 15 ? value.substr(9, 2) + ":" + value.substr(11, 2) + ":" + value.substr(13, 2) : "23:59:59");
+    const floating = ical.parseDate(wall + "Z").getTime();
+    return /Z$/i.test(value) ? ical.utcToWall(floating, zone).getTime() : floating;
+}
+
+// --- Rule Parsing ---
+function parseRule(rrule, zone) {
+    const line = rrule.split(/\r?\n/).find((l) => /^(RRULE:)?FREQ=/i.test(l));
+    if (!line) return null;
+
+    const ints = (v) => v.split(",").map((n) => parseInt(n, 10)).filter((n) => !isNaN(n));
+    const rule = { interval: 1, byDay: [], byMonthDay: [], byMonth: [], bySetPos: [], wkst: 0 };
+
+    line.replace(/^RRULE:/i, "").split(";").forEach((part) => {
+        const eq = part.indexOf("=");
+        const key = part.substring(0, eq).toUpperCase();
+        const value = part.substring(eq + 1);
+        switch (key) {
+            case "FREQ": rule.freq = value.toUpperCase(); break;
+            case "INTERVAL": rule.interval = Math.max(1, parseInt(value, 10) || 1); break;
+            case "COUNT": rule.count = parseInt(value, 10) || 0; break;
+            case "UNTIL": rule.until = parseUntil(value, zone); break;
+            case "BYMONTHDAY": rule.byMonthDay = ints(value); break;
+            case "BYMONTH": rule.byMonth = ints(value); break;
+            case "BYSETPOS": rule.bySetPos = ints(value); break;
+            case "WKST": rule.wkst = Math.max(0, WEEKDAYS.indexOf(value.toUpperCase())); break;
+            case "BYDAY":
+                value.split(",").forEach((token) => {
+                    const m = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(token.trim().toUpperCase());
+                    if (m) rule.byDay.push({ n: m[1] ? parseInt(m[1], 10) : 0, day: WEEKDAYS.indexOf(m[2]) });
+                });
+                break;
+            case "BYHOUR": case "BYMINUTE": case "BYSECOND": case "BYYEARDAY": case "BYWEEKNO":
+                rule.unsupported = true;
+                break;
+        }
+    });
+
+    if (["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].indexOf(rule.freq) === -1) rule.unsupported = true;
+    return rule;
+}
+
+// --- Day Selection ---
+function matchesMonthDay(day, list) {
+    const d = new Date(day);
+    const dim = daysInMonth(d.getUTCFullYear(), d.getUTCMonth());
+    return list.some((n) => n === d.getUTCDate() || n === d.getUTCDate() - dim - 1);
+}
+
+// "2MO" / "-1FR" count within `scope` (the month or the year)
+function matchesByDay(day, list, scope) {
+    const wd = weekdayOf(day);
+    return list.some((b) => {
+        if (b.day !== wd) return false;
+        if (!b.n) return true;
+        const same = scope.filter((d) => weekdayOf(d) === wd);
+        const index = same.indexOf(day);
+        return b.n > 0 ? index === b.n - 1 : index === same.length + b.n;
+    });
+}
+
+function selectDays(scope, rule) {
+    return scope.filter((day) =>
+        (rule.byMonthDay.length === 0 || matchesMonthDay(day, rule.byMonthDay)) &&
+        (rule.byDay.length === 0 || matchesByDay(day, rule.byDay, scope)));
+}
+
+// Candidate days (floating midnights) of the k-th period after the one of DTSTART
+function periodDays(rule, startDay, k) {
+    const start = new Date(startDay);
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth();
+    let days;
+
+    if (rule.freq === "DAILY") {
+        const day = startDay + k * rule.interval * DAY_MS;
+        days = [day].filter((d) =>
+            (rule.byMonthDay.length === 0 || matchesMonthDay(d, rule.byMonthDay)) &&
+            (rule.byDay.length === 0 || rule.byDay.some((b) => b.day === weekdayOf(d))));
+    } else if (rule.freq === "WEEKLY") {
+        const weekStart = periodStart(rule, startDay, k);
+        const weekdays = rule.byDay.length ? rule.byDay.map((b) => b.day) : [weekdayOf(startDay)];
+        days = [];
+        for (let i = 0; i < 7; i++) {
+            if (weekdays.indexOf(weekdayOf(weekStart + i * DAY_MS)) !== -1) days.push(weekStart + i * DAY_MS);
+        }
+    } else if (rule.freq === "MONTHLY") {
+        const m = month + k * rule.interval;
+        const scope = monthDays(year + Math.floor(m / 12), m % 12);
+        days = rule.byDay.length || rule.byMonthDay.length
+            ? selectDays(scope, rule)
+            : scope.filter((d) => new Date(d).getUTCDate() === start.getUTCDate());
+    } else {
+        const y = year + k * rule.interval;
+        if (rule.byMonth.length || rule.byMonthDay.length) {
+            days = [];
+            (rule.byMonth.length ? rule.byMonth : [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]).forEach((m) => {
+                const scope = monthDays(y, m - 1);
+                days = days.concat(rule.byDay.length || rule.byMonthDay.length
+                    ? selectDays(scope, rule)
+                    : scope.filter((d) => new Date(d).getUTCDate() === start.getUTCDate()));
+            });
+        } else if (rule.byDay.length) {
+            let scope = [];
+            for (let m = 0; m < 12; m++) scope = scope.concat(monthDays(y, m));
+            days = selectDays(scope, rule);
+        } else {
+            days = monthDays(y, month).filter((d) => new Date(d).getUTCDate() === start.getUTCDate()); // Feb 29 skips years
+        }
+    }
+
+    if (rule.byMonth.length) days = days.filter((d) => rule.byMonth.indexOf(new Date(d).getUTCMonth() + 1) !== -1);
+    days.sort((a, b) => a - b);
+
+    if (rule.bySetPos.length) {
+        days = days.filter((d, i) => rule.bySetPos.some((pos) => pos === i + 1 || pos === i - days.length));
+    }
+    return days;
+}
+
+// First day of the k-th period (bounds the expansion when periods are empty)
+function periodStart(rule, startDay, k) {
+    const start = new Date(startDay);
+    if (rule.freq === "DAILY") return startDay + k * rule.interval * DAY_MS;
+    if (rule.freq === "WEEKLY") return startDay - ((weekdayOf(startDay) - rule.wkst + 7) % 7) * DAY_MS + k * rule.interval * 7 * DAY_MS;
+    if (rule.freq === "MONTHLY") return Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + k * rule.interval, 1);
+    return Date.UTC(start.getUTCFullYear() + k * rule.interval, 0, 1);
+}
+
+// Whole periods that can be skipped without changing the result (not with COUNT: every occurrence counts)
+function firstUsefulPeriod(rule, startDay, from) {
+    if (rule.count || from <= startDay) return 0;
+    const a = new Date(startDay);
+    const b = new Date(from);
+    let periods;
+    if (rule.freq === "DAILY") periods = (from - startDay) / DAY_MS;
+    else if (rule.freq === "WEEKLY") periods = (from - startDay) / (7 * DAY_MS);
+    else if (rule.freq === "MONTHLY") periods = (b.getUTCFullYear() - a.getUTCFullYear()) * 12 + b.getUTCMonth() - a.getUTCMonth();
+    else periods = b.getUTCFullYear() - a.getUTCFullYear();
+    return Math.max(0, Math.floor(periods / rule.interval) - 1);
+}
+
+// Floating occurrence starts within [from, to]
+function expandFloating(rule, dtstart, from, to) {
+    const timeOfDay = ((dtstart % DAY_MS) + DAY_MS) % DAY_MS;
+    const startDay = dtstart - timeOfDay;
+    const result = [];
+    let emitted = 0;
+
+    for (let k = firstUsefulPeriod(rule, startDay, from); periodStart(rule, startDay, k) <= to; k++) {
+        const times = periodDays(rule, startDay, k).map((d) => d + timeOfDay).filter((t) => t >= dtstart);
+        for (let i = 0; i < times.length; i++) {
+            const t = times[i];
+            if (rule.until !== undefined && t > rule.until) return result;
+            if (rule.count && emitted >= rule.count) return result;
+            if (t > to) return result;
+            emitted++;
+            if (t >= from) result.push(t);
+        }
+    }
+    return result;
+}
+
+// --- Due Triggers ---
+function getReminders(r) {
+    try {
+        const list = JSON.parse(r.getString("reminders") || "[]");
+        return Array.isArray(list) ? list.filter((m) => typeof m === "number" && m >= 0 && m <= MAX_OFFSET_MINUTES) : [];
+    } catch (_) {
+        return [];
+    }
+}
+
+// Occurrence starts (UTC ms) of an event within [from, to]
+function occurrencesBetween(r, from, to, ctx, overridden) {
+    const start = ical.parseDate(r.getString("startTime")).getTime();
+    const rrule = r.getString("rrule");
+    if (!rrule) return start >= from && start <= to ? [start] : [];
+
+    const zone = r.getBool("isAllDay") || !ical.isValidZone(r.getString("timeZone"))
+        ? (ctx.zone || "UTC")
+        : r.getString("timeZone");
+    const rule = parseRule(rrule, zone);
+    if (!rule || rule.unsupported) return start >= from && start <= to ? [start] : [];
+
+    // A day of margin on each side absorbs the zone offset, the exact bounds are checked in UTC
+    const floatingStart = ical.utcToWall(start, zone).getTime();
+    const exdates = ical.getJsonList(r, "exdates");
+    const skipped = overridden[r.id] || [];
+
+    return expandFloating(rule, floatingStart, from - DAY_MS, to + DAY_MS)
+        .filter((t) => exdates.indexOf(new Date(t).toISOString().substring(0, 10)) === -1)
+        .map((t) => ical.wallToUtc(ical.formatWall(t), zone))
+        .filter((ms) => ms >= from && ms <= to && skipped.indexOf(ms) === -1);
+}
+
+// [{ event, occurrence (ms), minutesBefore }] whose trigger time is in (now - LOOKBACK, now]
+function findDue(app, now) {
+    const ctx = { zone: ical.getHouseholdZone(app) };
+    const from = now - LOOKBACK_MS;
+    const to = now + MAX_OFFSET_MINUTES * 60000;
+
+    // Runs every minute: only events with reminders
+    const records = app.findRecordsByFilter("events", "reminders != '[]' && reminders != '' && (rrule != '' || (startTime >= {:from} && startTime <= {:to}))", "", 0, 0, {
+        from: new Date(from).toISOString().replace("T", " "),
+        to: new Date(to).toISOString().replace("T", " ")
+    });
+
+    // Occurrences replaced by an override remind through the override (only the series just loaded)
+    const overridden = {};
+    const masterIds = records.filter((r) => r.getString("rrule")).map((r) => r.id);
+    for (let i = 0; i < masterIds.length; i += OVERRIDE_QUERY_CHUNK) {
+        const params = {};
+        const conditions = masterIds.slice(i, i + OVERRIDE_QUERY_CHUNK).map((id, j) => {
+            params["m" + j] = id;
+            return "recurringEventId = {:m" + j + "}";
+        });
+        app.findRecordsByFilter("events", "recurrenceId != '' && (" + conditions.join(" || ") + ")", "", 0, 0, params).forEach((o) => {
+            const masterId = o.getString("recurringEventId");
+            (overridden[masterId] = overridden[masterId] || []).push(ical.parseDate(o.getString("recurrenceId")).getTime());
+        });
+    }
+
+    const due = [];
+    records.forEach((r) => {
+        const reminders = getReminders(r);
+        if (reminders.length === 0) return;
+
+        const longest = Math.max.apply(null, reminders) * 60000;
+        occurrencesBetween(r, from, now + longest, ctx, overridden).forEach((occurrence) => {
+            reminders.forEach((minutes) => {
+                const trigger = occurrence - minutes * 60000;
+                if (trigger > from && trigger <= now) due.push({ event: r, occurrence: occurrence, minutesBefore: minutes });
+            });
+        });
+    });
+    return due;
+}
+
+// --- Birthdays & Anniversaries ---
+// Reminded at 09:00 (household zone) N days before; the occurrence is the day itself, at midnight.
+const BIRTHDAY_REMINDER_HOUR = 9;
+
+function isLeapYear(year) {
+    return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+// Floating midnight of the birthday in `year` (29 Feb -> 28 Feb, like services/birthdays.ts)
+function birthdayDay(month, day, year) {
+    return Date.UTC(year, month - 1, month === 2 && day === 29 && !isLeapYear(year) ? 28 : day);
+}
+
+function birthdayTitle(b, year) {
+    const born = b.getInt("year");
+    const emoji = b.getString("kind") === "anniversary" ? "💍" : "🎂";
+    return emoji + " " + b.getString("name") + (born > 0 && year > born ? " (" + (year - born) + ")" : "");
+}
+
+// [{ birthday, occurrence (ms), minutesBefore, title }] whose trigger time is in (now - LOOKBACK, now]
+function findDueBirthdays(app, now) {
+    const zone = ical.getHouseholdZone(app) || "UTC";
+    const year = ical.utcToWall(now, zone).getUTCFullYear();
+    const due = [];
+
+    app.findRecordsByFilter("birthdays", "remind = true", "", 0, 0).forEach((b) => {
+        const days = b.getInt("reminderDays");
+        // Next year too: a reminder in late December can be for early January
+        [year, year + 1].forEach((y) => {
+            const day = birthdayDay(b.getInt("month"), b.getInt("day"), y);
+            const trigger = ical.wallToUtc(ical.formatWall(day - days * DAY_MS + BIRTHDAY_REMINDER_HOUR * 3600000), zone);
+            if (trigger > now - LOOKBACK_MS && trigger <= now) {
+                due.push({
+                    birthday: b,
+                    occurrence: ical.wallToUtc(ical.formatWall(day), zone),
+                    minutesBefore: days * 1440,
+                    title: birthdayTitle(b, y)
+                });
+            }
+        });
+    });
+    return due;
+}
+
+// Users with a live realtime subscription to their notifications
+function realtimeUsers(app) {
+    const users = [];
+    const clients = app.subscriptionsBroker().clients();
+    for (const id in clients) {
+        const auth = clients[id].get("auth");
+        if (!auth || users.indexOf(auth.id) !== -1) continue;
+        const topics = Object.keys(clients[id].subscriptions());
+        if (topics.some((topic) => topic.indexOf("notifications/") === 0)) users.push(auth.id);
+    }
+    return users;
+}
+
+// Creates the notification records (once per member, occurrence and offset) and wakes up their devices
+function processDue(app) {
+    const webpush = require(`${__hooks}/webpush.js`);
+    const collection = app.findCollectionByNameOrId("notifications");
+    let allUsers = null;
+    const notified = [];
+
+    // Family-wide reminders (no participants, birthdays): everyone
+    const everyone = () => {
+        allUsers = allUsers || app.findRecordsByFilter("users", "", "", 0, 0).map((u) => u.id);
+        return allUsers;
+    };
+
+    const send = (userIds, fields) => {
+        userIds.forEach((userId) => {
+            const record = new Record(collection);
+            record.set("user", userId);
+            Object.keys(fields).forEach((key) => record.set(key, fields[key]));
+            try {
+                app.save(record);
+                if (notified.indexOf(userId) === -1) notified.push(userId);
+            } catch (_) { /* Already sent (unique trigger index) */ }
+        });
+    };
+
+    const now = Date.now();
+    findDue(app, now).forEach((trigger) => {
+        const userIds = trigger.event.getStringSlice("participants");
+        send(userIds.length ? userIds : everyone(), {
+            event: trigger.event.id,
+            occurrence: new Date(trigger.occurrence).toISOString(),
+            minutesBefore: trigger.minutesBefore,
+            title: trigger.event.getString("title")
+        });
+    });
+
+    findDueBirthdays(app, now).forEach((trigger) => {
+        send(everyone(), {
+            birthday: trigger.birthday.id,
+            occurrence: new Date(trigger.occurrence).toISOString(),
+            minutesBefore: trigger.minutesBefore,
+            title: trigger.title
+        });
+    });
+
+    // Users with the app open already got a toast (realtime)
+    const connected = realtimeUsers(app);
+    try {
+        webpush.notifyUsers(app, notified.filter((userId) => connected.indexOf(userId) === -1));
+    } catch (err) {
+        console.log(`[Reminders] Push failed: ${err}`);
+    }
+    return notified.length;
+}
+
+module.exports = { parseRule, expandFloating, findDue, findDueBirthdays, processDue };
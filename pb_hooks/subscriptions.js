@@ -0,0 +1,132 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// -------------------------------------------------------------------------
+// Calendar Subscriptions: fetch + store external ICS feeds
+// -------------------------------------------------------------------------
+// Loaded with require() from main.pb.js handlers (JSVM handlers can't see top-level functions).
+// Parsing is deliberately shallow: we only split the feed into VEVENT blocks and read the UID.
+// The client parses each block with ical.js, exactly like a manual file import.
+
+// RFC 5545 3.1: Lines are folded with CRLF + single space/tab
+function unfold(text) {
+    return text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+}
+
+function propValue(line) {
+    const idx = line.indexOf(":");
+    return idx === -1 ? "" : line.substring(idx + 1).trim();
+}
+
+function propName(line) {
+    return line.split(/[;:]/)[0].toUpperCase();
+}
+
+function parseFeed(text) {
+    if (text.indexOf("BEGIN:VCALENDAR") === -1) {
+        throw new Error("Not an iCalendar feed");
+    }
+
+    const events = [];
+    const timezones = [];
+    let block = null;
+    let kind = null;
+
+    unfold(text).forEach((line) => {
+        const upper = line.toUpperCase();
+        if (!block && (upper === "BEGIN:VEVENT" || upper === "BEGIN:VTIMEZONE")) {
+            block = [];
+            kind = upper.substring(6);
+        }
+        if (!block) return;
+
+        block.push(line);
+
+        if (upper === "END:" + kind) {
+            if (kind === "VTIMEZONE") {
+                timezones.push(block.join("\r\n"));
+            } else {
+                const ev = { uid: "", recurrenceId: "", summary: "", ics: block.join("\r\n") };
+                block.forEach((l) => {
+                    const name = propName(l);
+                    if (name === "UID") ev.uid = propValue(l);
+                    else if (name === "RECURRENCE-ID") ev.recurrenceId = propValue(l);
+                    else if (name === "SUMMARY") ev.summary = propValue(l).substring(0, 255);
+                });
+                if (ev.uid) events.push(ev);
+            }
+            block = null;
+            kind = null;
+        }
+    });
+
+    return { events: events, timezones: timezones.join("\r\n") };
+}
+
+function fetchFeed(url) {
+    // webcal:// is just http(s) with a calendar hint
+    const target = url.trim().replace(/^webcal:\/\//i, "https://");
+    const res = $http.send({ url: target, method: "GET", timeout: 30 });
+    if (res.statusCode < 200 || res.statusCode >= 300) {
+        throw new Error("HTTP " + res.statusCode);
+    }
+    return toString(res.body);
+}
+
+// Upserts the feed events of one subscription (deduplicated by UID + RECURRENCE-ID) and removes stale ones
+function syncSubscription(app, sub) {
+    try {
+        const feed = parseFeed(fetchFeed(sub.getString("url")));
+
+        app.runInTransaction((txApp) => {
+            const collection = txApp.findCollectionByNameOrId("subscription_events");
+            const existing = txApp.findRecordsByFilter("subscription_events", "subscription = {:sub}", "", 0, 0, { sub: sub.id });
+
+            const byKey = {};
+            existing.forEach((r) => { byKey[r.getString("icalUID") + "|" + r.getString("recurrenceId")] = r; });
+
+            const seen = {};
+            feed.events.forEach((ev) => {
+                const key = ev.uid + "|" + ev.recurrenceId;
+                if (seen[key]) return; // Duplicate UID inside the feed: first one wins
+                seen[key] = true;
+
+                let record = byKey[key];
+                if (record && record.getString("ics") === ev.ics) return; // Unchanged
+                if (!record) {
+                    record = new Record(collection);
+                    record.set("subscription", sub.id);
+                    record.set("icalUID", ev.uid);
+                    record.set("recurrenceId", ev.recurrenceId);
+                }
+                record.set("summary", ev.summary);
+                record.set("ics", ev.ics);
+                txApp.save(record);
+            });
+
+            Object.keys(byKey).forEach((key) => {
+                if (!seen[key]) txApp.delete(byKey[key]);
+            });
+
+            sub.set("timezones", feed.timezones);
+            sub.set("lastSync", new Date().toISOString());
+            sub.set("lastError", "");
+            txApp.save(sub);
+        });
+
+        return { ok: true, count: feed.events.length };
+    } catch (err) {
+        app.logger().error("Subscription sync failed", "subscription", sub.id, "error", String(err));
+        sub.set("lastError", String(err).substring(0, 500));
+        sub.set("lastSync", new Date().toISOString());
+        try { app.save(sub); } catch (_) { /* Subscription deleted meanwhile */ }
+        return { ok: false, error: String(err) };
+    }
+}
+
+function syncAll(app) {
+    const subs = app.findRecordsByFilter("calendar_subscriptions", "enabled = true", "", 0, 0);
+    subs.forEach((sub) => syncSubscription(app, sub));
+    return subs.length;
+}
+
+module.exports = { parseFeed, syncSubscription, syncAll };
@@ -0,0 +1,119 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// -------------------------------------------------------------------------
+// Web Push (RFC 8030) authenticated with VAPID (RFC 8292)
+// -------------------------------------------------------------------------
+// Loaded with require() from main.pb.js / reminders.js.
+// The JSVM has no WebCrypto: keys are generated and VAPID tokens signed by the push sidecar
+// (push/server.js, the web-push library), reached at PUSH_SERVICE_URL with PUSH_SERVICE_SECRET.
+// Pushes carry no payload: the service worker fetches the pending notifications itself
+// (GET /api/push/pending).
+
+function isSupported() {
+    return !!$os.getenv("PUSH_SERVICE_URL");
+}
+
+function callService(path, body) {
+    const res = $http.send({
+        url: $os.getenv("PUSH_SERVICE_URL").replace(/\/+$/, "") + path,
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "Authorization": "Bearer " + $os.getenv("PUSH_SERVICE_SECRET")
+        },
+        body: JSON.stringify(body),
+        timeout: 30
+    });
+    if (res.statusCode !== 200) throw new Error(`push service ${path} answered ${res.statusCode}`);
+    return res.json;
+}
+
+// --- VAPID ---
+// Generated on first use, kept in server_secrets (no API access)
+function getVapidKeys(app) {
+    let record = null;
+    try {
+        record = app.findFirstRecordByData("server_secrets", "name", "vapid");
+        const stored = JSON.parse(record.getString("value"));
+        if (!/^[0-9a-f]+$/i.test(stored.privateKey)) return stored;
+
+        // Older installs stored the private scalar in hex: same key pair, web-push wants base64url
+        const keys = { publicKey: stored.publicKey, privateKey: hexToBase64Url(stored.privateKey) };
+        record.set("value", JSON.stringify(keys));
+        app.save(record);
+        return keys;
+    } catch (_) { /* Not generated yet */ }
+
+    const keys = callService("/keys", {});
+    record = new Record(app.findCollectionByNameOrId("server_secrets"));
+    record.set("name", "vapid");
+    record.set("value", JSON.stringify({ publicKey: keys.publicKey, privateKey: keys.privateKey }));
+    app.save(record);
+    return keys;
+}
+
+const B64URL = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+function hexToBase64Url(hex) {
+    hex = ("0".repeat(64) + hex).slice(-64); // 32 bytes, leading zeros were dropped
+    const bytes = [];
+    for (let i = 0; i < hex.length; i += 2) bytes.push(parseInt(hex.substr(i, 2), 16));
+
+    let out = "";
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+        out += B64URL.charAt((n >> 18) & 63) + B64URL.charAt((n >> 12) & 63);
+        if (i + 1 < bytes.length) out += B64URL.charAt((n >> 6) & 63);
+        if (i + 2 < bytes.length) out += B64URL.charAt(n & 63);
+    }
+    return out;
+}
+
+// Contact for the push service: the app URL when public, else the SMTP sender
+function vapidSubject(app) {
+    const meta = app.settings().meta;
+    return /^https:\/\//.test(meta.appURL) ? meta.appURL : "mailto:" + meta.senderAddress;
+}
+
+// Wakes up every device of these users. Expired subscriptions are removed.
+function notifyUsers(app, userIds) {
+    if (!isSupported() || userIds.length === 0) return 0;
+
+    const subs = {};
+    userIds.forEach((userId) => {
+        app.findRecordsByFilter("push_subscriptions", "user = {:user}", "", 0, 0, { user: userId }).forEach((sub) => {
+            subs[sub.getString("endpoint")] = sub;
+        });
+    });
+    const endpoints = Object.keys(subs);
+    if (endpoints.length === 0) return 0;
+
+    let results;
+    try {
+        const keys = getVapidKeys(app);
+        results = callService("/send", {
+            vapid: { subject: vapidSubject(app), publicKey: keys.publicKey, privateKey: keys.privateKey },
+            endpoints: endpoints,
+            ttl: 600, // Stale after 10 minutes, like the pending list
+            urgency: "high"
+        }).results;
+    } catch (err) {
+        console.log(`[Push] Push service unreachable: ${err}`);
+        return 0;
+    }
+
+    let sent = 0;
+    results.forEach((result) => {
+        const audience = (result.endpoint.match(/^https:\/\/[^/]+/) || [])[0];
+        if (result.status === 404 || result.status === 410) {
+            app.delete(subs[result.endpoint]); // Unsubscribed / expired
+        } else if (result.status >= 200 && result.status < 300) {
+            sent++;
+        } else {
+            console.log(`[Push] ${audience} answered ${result.status || "nothing (unreachable)"}`);
+        }
+    });
+    return sent;
+}
+
+module.exports = { isSupported, getVapidKeys, notifyUsers };
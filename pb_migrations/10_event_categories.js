@@ -0,0 +1,37 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding event categories...");
+
+  // -------------------------------------------------------
+  // EVENT CATEGORIES: family-wide tags with a color.
+  // Events keep plain names in `categories` (iCal CATEGORIES), matched by name.
+  // -------------------------------------------------------
+  const categories = new Collection({
+    name: "event_categories",
+    type: "base",
+    listRule: "@request.auth.id != ''",
+    viewRule: "@request.auth.id != ''",
+    createRule: "@request.auth.isAdmin = true",
+    updateRule: "@request.auth.isAdmin = true",
+    deleteRule: "@request.auth.isAdmin = true"
+  });
+  categories.fields.add(new Field({ name: "name", type: "text", required: true }));
+  categories.fields.add(new Field({ name: "color", type: "text" })); // "#4E79A7"
+  categories.fields.add(new Field({ name: "order", type: "number" }));
+  categories.fields.add(new Field({ name: "created", type: "autodate", onCreate: true, onUpdate: false}));
+  categories.fields.add(new Field({ name: "updated", type: "autodate", onCreate: true, onUpdate: true}));
+  app.save(categories);
+
+  // Starter set, renamed or removed from Settings
+  [["Sports", "#59A14F"], ["School", "#4E79A7"], ["Medical", "#E15759"], ["Birthdays", "#FF9DA7"]].forEach(([name, color], order) => {
+    const record = new Record(categories);
+    record.set("name", name);
+    record.set("color", color);
+    record.set("order", order);
+    app.save(record);
+  });
+
+}, (app) => {
+  app.delete(app.findCollectionByNameOrId("event_categories"));
+});
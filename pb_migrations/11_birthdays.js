@@ -0,0 +1,45 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding birthdays & anniversaries...");
+
+  // -------------------------------------------------------
+  // 1. BIRTHDAYS: people (family or not) shown every year on the calendar, with their age.
+  // Not events: the calendar entries are computed on the client (like public holidays).
+  // -------------------------------------------------------
+  const birthdays = new Collection({
+    name: "birthdays",
+    type: "base",
+    listRule: "@request.auth.id != ''",
+    viewRule: "@request.auth.id != ''",
+    createRule: "@request.auth.isAdmin = true",
+    updateRule: "@request.auth.isAdmin = true",
+    deleteRule: "@request.auth.isAdmin = true"
+  });
+  birthdays.fields.add(new Field({ name: "name", type: "text", required: true }));
+  birthdays.fields.add(new Field({ name: "kind", type: "select", values: ["birthday", "anniversary"], maxSelect: 1 }));
+  birthdays.fields.add(new Field({ name: "month", type: "number", min: 1, max: 12 }));
+  birthdays.fields.add(new Field({ name: "day", type: "number", min: 1, max: 31 }));
+  birthdays.fields.add(new Field({ name: "year", type: "number" })); // 0 = unknown (no age)
+  birthdays.fields.add(new Field({ name: "remind", type: "bool" }));
+  birthdays.fields.add(new Field({ name: "reminderDays", type: "number", min: 0, max: 30 })); // Days before, 0 = on the day
+  birthdays.fields.add(new Field({ name: "created", type: "autodate", onCreate: true, onUpdate: false}));
+  birthdays.fields.add(new Field({ name: "updated", type: "autodate", onCreate: true, onUpdate: true}));
+  app.save(birthdays);
+
+  // -------------------------------------------------------
+  // 2. NOTIFICATIONS: birthday reminders (sent by the same cron, to everyone)
+  // -------------------------------------------------------
+  const notifications = app.findCollectionByNameOrId("notifications");
+  notifications.fields.add(new Field({ name: "birthday", type: "relation", collectionId: birthdays.id, cascadeDelete: true, maxSelect: 1 }));
+  notifications.indexes = ["CREATE UNIQUE INDEX idx_notifications_trigger ON notifications (user, event, birthday, occurrence, minutesBefore)"];
+  app.save(notifications);
+
+}, (app) => {
+  const notifications = app.findCollectionByNameOrId("notifications");
+  notifications.fields.removeByName("birthday");
+  notifications.indexes = ["CREATE UNIQUE INDEX idx_notifications_trigger ON notifications (user, event, occurrence, minutesBefore)"];
+  app.save(notifications);
+
+  app.delete(app.findCollectionByNameOrId("birthdays"));
+});
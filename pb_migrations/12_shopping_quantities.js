@@ -0,0 +1,20 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding shopping quantities...");
+
+  // -------------------------------------------------------
+  // SHOPPING ITEMS: structured quantity ("2 kg apples", "milk x3").
+  // Adding an item already on the list bumps its quantity (logged in `logs`).
+  // -------------------------------------------------------
+  const shopping = app.findCollectionByNameOrId("shopping_items");
+  shopping.fields.add(new Field({ name: "quantity", type: "number", min: 0 })); // 0 = one
+  shopping.fields.add(new Field({ name: "unit", type: "text" })); // "kg", "l", "pack"...
+  app.save(shopping);
+
+}, (app) => {
+  const shopping = app.findCollectionByNameOrId("shopping_items");
+  shopping.fields.removeByName("quantity");
+  shopping.fields.removeByName("unit");
+  app.save(shopping);
+});
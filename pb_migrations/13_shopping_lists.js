@@ -0,0 +1,58 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding named shopping lists...");
+
+  // Members only (no members = the whole family), e.g. a surprise party list hidden from the kids
+  const LIST_VISIBLE = "@request.auth.id != '' && (members:length = 0 || members ?= @request.auth.id)";
+
+  // -------------------------------------------------------
+  // 1. SHOPPING LISTS: "Costco run", "Party supplies"... besides the main list
+  // -------------------------------------------------------
+  const lists = new Collection({
+    name: "shopping_lists",
+    type: "base",
+    listRule: LIST_VISIBLE,
+    viewRule: LIST_VISIBLE,
+    createRule: "@request.auth.id != ''",
+    updateRule: LIST_VISIBLE,
+    deleteRule: LIST_VISIBLE
+  });
+  lists.fields.add(new Field({ name: "name", type: "text", required: true }));
+  lists.fields.add(new Field({ name: "icon", type: "text" })); // Emoji
+  lists.fields.add(new Field({ name: "members", type: "relation", collectionId: app.findCollectionByNameOrId("users").id, maxSelect: 999 }));
+  lists.fields.add(new Field({ name: "archived", type: "bool" }));
+  lists.fields.add(new Field({ name: "order", type: "number" }));
+  lists.fields.add(new Field({ name: "created", type: "autodate", onCreate: true, onUpdate: false}));
+  lists.fields.add(new Field({ name: "updated", type: "autodate", onCreate: true, onUpdate: true}));
+  app.save(lists);
+
+  // -------------------------------------------------------
+  // 2. SHOPPING ITEMS: their list (empty = the main list), hidden with it
+  // -------------------------------------------------------
+  const ITEM_VISIBLE = "@request.auth.id != '' && (list = '' || list.members:length = 0 || list.members ?= @request.auth.id)";
+  // Adding to (or moving into) a list needs the same membership
+  const TARGET_LIST_ALLOWED = "(@request.body.list:isset = false || @request.body.list = '' || @request.body.list.members:length = 0 || @request.body.list.members ?= @request.auth.id)";
+
+  const shopping = app.findCollectionByNameOrId("shopping_items");
+  // Cascade: items of a deleted list must not fall back (list = '') onto the main list
+  shopping.fields.add(new Field({ name: "list", type: "relation", collectionId: lists.id, cascadeDelete: true, maxSelect: 1 }));
+  shopping.listRule = ITEM_VISIBLE;
+  shopping.viewRule = ITEM_VISIBLE;
+  shopping.createRule = "@request.auth.id != '' && " + TARGET_LIST_ALLOWED;
+  shopping.updateRule = ITEM_VISIBLE + " && " + TARGET_LIST_ALLOWED;
+  shopping.deleteRule = ITEM_VISIBLE;
+  app.save(shopping);
+
+}, (app) => {
+  const shopping = app.findCollectionByNameOrId("shopping_items");
+  shopping.fields.removeByName("list");
+  shopping.listRule = "@request.auth.id != ''";
+  shopping.viewRule = "@request.auth.id != ''";
+  shopping.createRule = "@request.auth.id != ''";
+  shopping.updateRule = "@request.auth.id != ''";
+  shopping.deleteRule = "@request.auth.id != ''";
+  app.save(shopping);
+
+  app.delete(app.findCollectionByNameOrId("shopping_lists"));
+});
@@ -0,0 +1,80 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding purchase history & shopping trips...");
+
+  const users = app.findCollectionByNameOrId("users");
+  const lists = app.findCollectionByNameOrId("shopping_lists");
+  const stores = app.findCollectionByNameOrId("shopping_stores");
+
+  // Same privacy as the items: named lists for their members only
+  const LIST_VISIBLE = "(list = '' || list.members:length = 0 || list.members ?= @request.auth.id)";
+
+  // -------------------------------------------------------
+  // 1. SHOPPING ITEMS: who checked it off, and when (kept until the cart is cleared)
+  // -------------------------------------------------------
+  const shopping = app.findCollectionByNameOrId("shopping_items");
+  shopping.fields.add(new Field({ name: "completedBy", type: "relation", collectionId: users.id, maxSelect: 1 }));
+  shopping.fields.add(new Field({ name: "completedAt", type: "date" }));
+  app.save(shopping);
+
+  // -------------------------------------------------------
+  // 2. SHOPPING TRIPS: a finished "shopping mode" run
+  // -------------------------------------------------------
+  const trips = new Collection({
+    name: "shopping_trips",
+    type: "base",
+    listRule: "@request.auth.id != '' && " + LIST_VISIBLE,
+    viewRule: "@request.auth.id != '' && " + LIST_VISIBLE,
+    createRule: "@request.auth.id != '' && user = @request.auth.id && " + LIST_VISIBLE,
+    updateRule: null,
+    deleteRule: "@request.auth.isAdmin = true"
+  });
+  trips.fields.add(new Field({ name: "store", type: "relation", collectionId: stores.id, maxSelect: 1 }));
+  trips.fields.add(new Field({ name: "list", type: "relation", collectionId: lists.id, maxSelect: 1 }));
+  trips.fields.add(new Field({ name: "user", type: "relation", collectionId: users.id, maxSelect: 1 }));
+  trips.fields.add(new Field({ name: "startedAt", type: "date" }));
+  trips.fields.add(new Field({ name: "finishedAt", type: "date" }));
+  trips.fields.add(new Field({ name: "itemCount", type: "number" }));
+  trips.fields.add(new Field({ name: "created", type: "autodate", onCreate: true, onUpdate: false}));
+  app.save(trips);
+
+  // -------------------------------------------------------
+  // 3. SHOPPING HISTORY: bought items, archived when the cart is cleared
+  // -------------------------------------------------------
+  const history = new Collection({
+    name: "shopping_history",
+    type: "base",
+    listRule: "@request.auth.id != '' && (isPrivate = false || addedBy = @request.auth.id) && " + LIST_VISIBLE,
+    viewRule: "@request.auth.id != '' && (isPrivate = false || addedBy = @request.auth.id) && " + LIST_VISIBLE,
+    createRule: "@request.auth.id != '' && boughtBy = @request.auth.id && " + LIST_VISIBLE,
+    updateRule: null,
+    deleteRule: "@request.auth.isAdmin = true"
+  });
+  history.fields.add(new Field({ name: "item", type: "text" })); // Source shopping item: archived once (retries)
+  history.fields.add(new Field({ name: "content", type: "text", required: true }));
+  history.fields.add(new Field({ name: "quantity", type: "number", min: 0 }));
+  history.fields.add(new Field({ name: "unit", type: "text" }));
+  history.fields.add(new Field({ name: "category", type: "text" })); // Creator's shopping category
+  history.fields.add(new Field({ name: "list", type: "relation", collectionId: lists.id, maxSelect: 1 }));
+  history.fields.add(new Field({ name: "isPrivate", type: "bool" }));
+  history.fields.add(new Field({ name: "addedBy", type: "relation", collectionId: users.id, maxSelect: 1 }));
+  history.fields.add(new Field({ name: "boughtBy", type: "relation", collectionId: users.id, maxSelect: 1 }));
+  history.fields.add(new Field({ name: "boughtAt", type: "date" }));
+  history.fields.add(new Field({ name: "trip", type: "relation", collectionId: trips.id, maxSelect: 1 }));
+  history.fields.add(new Field({ name: "created", type: "autodate", onCreate: true, onUpdate: false}));
+  history.indexes = [
+    "CREATE INDEX idx_shopping_history_bought ON shopping_history (boughtAt)",
+    "CREATE UNIQUE INDEX idx_shopping_history_item ON shopping_history (item) WHERE item != ''"
+  ];
+  app.save(history);
+
+}, (app) => {
+  app.delete(app.findCollectionByNameOrId("shopping_history"));
+  app.delete(app.findCollectionByNameOrId("shopping_trips"));
+
+  const shopping = app.findCollectionByNameOrId("shopping_items");
+  shopping.fields.removeByName("completedBy");
+  shopping.fields.removeByName("completedAt");
+  app.save(shopping);
+});
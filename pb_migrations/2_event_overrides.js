@@ -0,0 +1,23 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding recurring event overrides...");
+
+  // -------------------------------------------------------
+  // EVENTS: Override link (RFC 5545 RECURRENCE-ID style)
+  // -------------------------------------------------------
+  // An override is a normal event record that replaces ONE occurrence of a series.
+  // NOTE: Plain text instead of a relation so offline-created masters (temp IDs) don't reject the save.
+  const events = app.findCollectionByNameOrId("events");
+
+  events.fields.add(new Field({ name: "recurringEventId", type: "text" }));
+  events.fields.add(new Field({ name: "recurrenceId", type: "date" }));
+
+  app.save(events);
+
+}, (app) => {
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.removeByName("recurringEventId");
+  events.fields.removeByName("recurrenceId");
+  app.save(events);
+});
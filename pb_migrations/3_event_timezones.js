@@ -0,0 +1,29 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding event timezones...");
+
+  // -------------------------------------------------------
+  // EVENTS: IANA zone the event times are meant in (TZID)
+  // -------------------------------------------------------
+  // Empty = household zone. Start/End stay absolute UTC instants.
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.add(new Field({ name: "timeZone", type: "text" }));
+  app.save(events);
+
+  // -------------------------------------------------------
+  // SYSTEM SETTINGS: Household default zone
+  // -------------------------------------------------------
+  const settings = app.findCollectionByNameOrId("system_settings");
+  settings.fields.add(new Field({ name: "timeZone", type: "text" }));
+  app.save(settings);
+
+}, (app) => {
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.removeByName("timeZone");
+  app.save(events);
+
+  const settings = app.findCollectionByNameOrId("system_settings");
+  settings.fields.removeByName("timeZone");
+  app.save(settings);
+});
@@ -0,0 +1,58 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding calendar subscriptions...");
+
+  // -------------------------------------------------------
+  // 1. SUBSCRIPTIONS (external ICS feeds, managed by admins)
+  // -------------------------------------------------------
+  const subscriptions = new Collection({
+    name: "calendar_subscriptions",
+    type: "base",
+    listRule: "@request.auth.id != ''",
+    viewRule: "@request.auth.id != ''",
+    createRule: "@request.auth.isAdmin = true",
+    updateRule: "@request.auth.isAdmin = true",
+    deleteRule: "@request.auth.isAdmin = true"
+  });
+  subscriptions.fields.add(new Field({ name: "name", type: "text", required: true }));
+  subscriptions.fields.add(new Field({ name: "url", type: "text", required: true }));
+  subscriptions.fields.add(new Field({ name: "color", type: "text" }));
+  subscriptions.fields.add(new Field({ name: "enabled", type: "bool" }));
+  // VTIMEZONE blocks of the feed, so the client can resolve non-IANA TZIDs
+  subscriptions.fields.add(new Field({ name: "timezones", type: "text", max: 200000 }));
+  subscriptions.fields.add(new Field({ name: "lastSync", type: "text" }));
+  subscriptions.fields.add(new Field({ name: "lastError", type: "text" }));
+  subscriptions.fields.add(new Field({ name: "created", type: "autodate", onCreate: true, onUpdate: false}));
+  subscriptions.fields.add(new Field({ name: "updated", type: "autodate", onCreate: true, onUpdate: true}));
+
+  app.save(subscriptions);
+
+  // -------------------------------------------------------
+  // 2. SUBSCRIPTION EVENTS (read-only, written by the sync job)
+  // -------------------------------------------------------
+  // One record per VEVENT. The raw block is kept as-is and parsed by the client (same parser as file import).
+  const subEvents = new Collection({
+    name: "subscription_events",
+    type: "base",
+    listRule: "@request.auth.id != ''",
+    viewRule: "@request.auth.id != ''",
+    createRule: null,
+    updateRule: null,
+    deleteRule: null
+  });
+  subEvents.fields.add(new Field({ name: "subscription", type: "relation", collectionId: subscriptions.id, cascadeDelete: true, maxSelect: 1, required: true }));
+  subEvents.fields.add(new Field({ name: "icalUID", type: "text" }));
+  subEvents.fields.add(new Field({ name: "recurrenceId", type: "text" })); // Raw RECURRENCE-ID (edited occurrence of a feed series)
+  subEvents.fields.add(new Field({ name: "summary", type: "text" }));
+  subEvents.fields.add(new Field({ name: "ics", type: "text", max: 200000 }));
+  subEvents.fields.add(new Field({ name: "created", type: "autodate", onCreate: true, onUpdate: false}));
+  subEvents.fields.add(new Field({ name: "updated", type: "autodate", onCreate: true, onUpdate: true}));
+  subEvents.indexes = ["CREATE INDEX idx_subscription_events_sub ON subscription_events (subscription)"];
+
+  app.save(subEvents);
+
+}, (app) => {
+  app.delete(app.findCollectionByNameOrId("subscription_events"));
+  app.delete(app.findCollectionByNameOrId("calendar_subscriptions"));
+});
@@ -0,0 +1,46 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding private iCal feeds...");
+
+  const users = app.findCollectionByNameOrId("users");
+
+  // -------------------------------------------------------
+  // 1. ICAL FEEDS (one secret URL per feed, revocable by deleting it)
+  // -------------------------------------------------------
+  // Token + owner are set server-side (main.pb.js), clients can't choose them.
+  const feeds = new Collection({
+    name: "ical_feeds",
+    type: "base",
+    listRule: "user = @request.auth.id",
+    viewRule: "user = @request.auth.id",
+    createRule: "@request.auth.id != ''",
+    updateRule: null,
+    deleteRule: "user = @request.auth.id"
+  });
+  feeds.fields.add(new Field({ name: "user", type: "relation", collectionId: users.id, cascadeDelete: true, maxSelect: 1 }));
+  // Empty = whole family, otherwise only this member's events
+  feeds.fields.add(new Field({ name: "participant", type: "relation", collectionId: users.id, cascadeDelete: true, maxSelect: 1 }));
+  feeds.fields.add(new Field({ name: "token", type: "text" }));
+  feeds.fields.add(new Field({ name: "created", type: "autodate", onCreate: true, onUpdate: false}));
+  feeds.fields.add(new Field({ name: "updated", type: "autodate", onCreate: true, onUpdate: true}));
+  feeds.indexes = ["CREATE UNIQUE INDEX idx_ical_feeds_token ON ical_feeds (token)"];
+
+  app.save(feeds);
+
+  // -------------------------------------------------------
+  // 2. EVENTS: Pre-rendered DTSTART/DTEND (see storage.mapIcalTimes)
+  // -------------------------------------------------------
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.add(new Field({ name: "icalStart", type: "text" }));
+  events.fields.add(new Field({ name: "icalEnd", type: "text" }));
+  app.save(events);
+
+}, (app) => {
+  app.delete(app.findCollectionByNameOrId("ical_feeds"));
+
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.removeByName("icalStart");
+  events.fields.removeByName("icalEnd");
+  app.save(events);
+});
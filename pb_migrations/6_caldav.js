@@ -0,0 +1,18 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding CalDAV resource names...");
+
+  // -------------------------------------------------------
+  // EVENTS: Resource name chosen by a CalDAV client (PUT /caldav/calendars/family/<name>)
+  // -------------------------------------------------------
+  // Empty = "<icalUID>.ics". Only set on series created through CalDAV.
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.add(new Field({ name: "caldavName", type: "text" }));
+  app.save(events);
+
+}, (app) => {
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.removeByName("caldavName");
+  app.save(events);
+});
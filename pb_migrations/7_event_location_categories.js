@@ -0,0 +1,19 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding event location & categories...");
+
+  // -------------------------------------------------------
+  // EVENTS: iCal LOCATION / CATEGORIES
+  // -------------------------------------------------------
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.add(new Field({ name: "location", type: "text" }));
+  events.fields.add(new Field({ name: "categories", type: "json" })); // ["Sport", "School"]
+  app.save(events);
+
+}, (app) => {
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.removeByName("location");
+  events.fields.removeByName("categories");
+  app.save(events);
+});
@@ -0,0 +1,82 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding event reminders & push notifications...");
+
+  const users = app.findCollectionByNameOrId("users");
+  const events = app.findCollectionByNameOrId("events");
+
+  // -------------------------------------------------------
+  // 1. EVENTS: Reminder offsets (minutes before the start)
+  // -------------------------------------------------------
+  events.fields.add(new Field({ name: "reminders", type: "json" })); // [15, 1440]
+  app.save(events);
+
+  // -------------------------------------------------------
+  // 2. NOTIFICATIONS (written by the reminders cron, shown as toasts / fetched by the service worker)
+  // -------------------------------------------------------
+  const notifications = new Collection({
+    name: "notifications",
+    type: "base",
+    listRule: "user = @request.auth.id",
+    viewRule: "user = @request.auth.id",
+    createRule: null,
+    updateRule: null,
+    deleteRule: "user = @request.auth.id"
+  });
+  notifications.fields.add(new Field({ name: "user", type: "relation", collectionId: users.id, cascadeDelete: true, maxSelect: 1 }));
+  notifications.fields.add(new Field({ name: "event", type: "relation", collectionId: events.id, cascadeDelete: true, maxSelect: 1 }));
+  notifications.fields.add(new Field({ name: "occurrence", type: "date" })); // Start of the occurrence it is about
+  notifications.fields.add(new Field({ name: "minutesBefore", type: "number" }));
+  notifications.fields.add(new Field({ name: "title", type: "text" }));
+  notifications.fields.add(new Field({ name: "created", type: "autodate", onCreate: true, onUpdate: false}));
+  // One reminder per member, occurrence and offset (the cron may see the same trigger twice)
+  notifications.indexes = ["CREATE UNIQUE INDEX idx_notifications_trigger ON notifications (user, event, occurrence, minutesBefore)"];
+  app.save(notifications);
+
+  // -------------------------------------------------------
+  // 3. PUSH SUBSCRIPTIONS (one per device / browser)
+  // -------------------------------------------------------
+  // Owner is set server-side (main.pb.js). The endpoint is a secret: it identifies the device to the push service.
+  const subscriptions = new Collection({
+    name: "push_subscriptions",
+    type: "base",
+    listRule: "user = @request.auth.id",
+    viewRule: "user = @request.auth.id",
+    createRule: "@request.auth.id != ''",
+    updateRule: null,
+    deleteRule: "user = @request.auth.id"
+  });
+  subscriptions.fields.add(new Field({ name: "user", type: "relation", collectionId: users.id, cascadeDelete: true, maxSelect: 1 }));
+  subscriptions.fields.add(new Field({ name: "endpoint", type: "text", max: 2000 }));
+  subscriptions.fields.add(new Field({ name: "userAgent", type: "text" }));
+  subscriptions.fields.add(new Field({ name: "created", type: "autodate", onCreate: true, onUpdate: false}));
+  subscriptions.indexes = ["CREATE UNIQUE INDEX idx_push_subscriptions_endpoint ON push_subscriptions (endpoint)"];
+  app.save(subscriptions);
+
+  // -------------------------------------------------------
+  // 4. SERVER SECRETS (VAPID key pair). No API rules = superusers & hooks only
+  // -------------------------------------------------------
+  const secrets = new Collection({
+    name: "server_secrets",
+    type: "base",
+    listRule: null,
+    viewRule: null,
+    createRule: null,
+    updateRule: null,
+    deleteRule: null
+  });
+  secrets.fields.add(new Field({ name: "name", type: "text", required: true }));
+  secrets.fields.add(new Field({ name: "value", type: "text", max: 5000 }));
+  secrets.indexes = ["CREATE UNIQUE INDEX idx_server_secrets_name ON server_secrets (name)"];
+  app.save(secrets);
+
+}, (app) => {
+  app.delete(app.findCollectionByNameOrId("notifications"));
+  app.delete(app.findCollectionByNameOrId("push_subscriptions"));
+  app.delete(app.findCollectionByNameOrId("server_secrets"));
+
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.removeByName("reminders");
+  app.save(events);
+});
@@ -0,0 +1,22 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+migrate((app) => {
+  console.log("[Migration] Adding event places & travel time...");
+
+  // -------------------------------------------------------
+  // EVENTS: Geocoded location (iCal GEO) + travel time before the start
+  // -------------------------------------------------------
+  // 0/0 = no coordinates (PocketBase numbers are never null)
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.add(new Field({ name: "locationLat", type: "number" }));
+  events.fields.add(new Field({ name: "locationLon", type: "number" }));
+  events.fields.add(new Field({ name: "travelMinutes", type: "number", min: 0 }));
+  app.save(events);
+
+}, (app) => {
+  const events = app.findCollectionByNameOrId("events");
+  events.fields.removeByName("locationLat");
+  events.fields.removeByName("locationLon");
+  events.fields.removeByName("travelMinutes");
+  app.save(events);
+});
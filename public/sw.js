@@ -0,0 +1,67 @@
+// -------------------------------------------------------------------------
+// FamilySync Service Worker: event reminders (Web Push)
+// -------------------------------------------------------------------------
+// Pushes carry no payload: on each push we ask the server what is pending for this device.
+// Every push must show a notification (userVisibleOnly): when the list can't be fetched, a generic one.
+// The server doesn't push to users with the app open, they get the reminder as a toast (realtime).
+
+// PocketBase URL (differs from the page origin in dev), passed at registration: /sw.js?api=...
+const API_URL = new URL(self.location.href).searchParams.get('api') || self.location.origin;
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+const formatWhen = (item) => {
+    const date = new Date(item.occurrence.replace(' ', 'T'));
+    const sameDay = date.toDateString() === new Date().toDateString();
+    // Birthdays are all-day: the date alone
+    if (item.birthday) return date.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' });
+    return sameDay
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+const NOTIFICATION_OPTIONS = {
+    icon: '/android-chrome-192x192.png',
+    badge: '/favicon-32x32.png',
+    data: { url: '/' }
+};
+
+// No i18n bundle in the worker: the two app languages
+const showGeneric = () => self.registration.showNotification('FamilySync', {
+    ...NOTIFICATION_OPTIONS,
+    body: navigator.language.startsWith('fr') ? 'Vous avez un rappel.' : 'You have a reminder.',
+    tag: 'familysync-reminder'
+});
+
+const fetchPending = async () => {
+    const sub = await self.registration.pushManager.getSubscription();
+    if (!sub) return [];
+    const res = await fetch(`${API_URL}/api/push/pending?endpoint=${encodeURIComponent(sub.endpoint)}`);
+    return res.ok ? res.json() : [];
+};
+
+const showPending = async () => {
+    const items = await fetchPending().catch(() => []);
+    if (items.length === 0) return showGeneric();
+
+    // Same tag = same reminder: showing it again (later push) just replaces it
+    await Promise.all(items.map((item) => self.registration.showNotification(item.title, {
+        ...NOTIFICATION_OPTIONS,
+        body: formatWhen(item),
+        tag: item.id
+    })));
+};
+
+self.addEventListener('push', (event) => {
+    event.waitUntil(showPending().catch((err) => console.error('Reminder push failed', err)));
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        if (windows.length > 0) return windows[0].focus();
+        return self.clients.openWindow(event.notification.data?.url || '/');
+    })());
+});
@@ -0,0 +1,65 @@
+// -------------------------------------------------------------------------
+// FamilySync push sender: Web Push (RFC 8030) with VAPID (RFC 8292), through the web-push library
+// -------------------------------------------------------------------------
+// Called by PocketBase (pb_hooks/webpush.js) on the internal network only: the JSVM has no WebCrypto
+// to sign VAPID tokens. Stateless: the VAPID keys are stored by PocketBase and sent with each request.
+// Pushes carry no payload, the service worker fetches the pending notifications itself.
+
+import http from 'node:http';
+import webpush from 'web-push';
+
+const PORT = Number(process.env.PORT) || 8091;
+const SECRET = process.env.PUSH_SERVICE_SECRET;
+const MAX_BODY = 1024 * 1024;
+
+if (!SECRET) {
+    console.error('[Push] PUSH_SERVICE_SECRET is required (shared with the familysync service).');
+    process.exit(1);
+}
+
+const readJson = (req) => new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+        body += chunk;
+        if (body.length > MAX_BODY) reject(new Error('Body too large'));
+    });
+    req.on('end', () => {
+        try { resolve(body ? JSON.parse(body) : {}); } catch (err) { reject(err); }
+    });
+    req.on('error', reject);
+});
+
+const routes = {
+    // New VAPID key pair (PocketBase keeps it in server_secrets)
+    '/keys': async () => webpush.generateVAPIDKeys(),
+
+    // { vapid: { subject, publicKey, privateKey }, endpoints, ttl, urgency } -> { results: [{ endpoint, status }] }
+    // status 0 = push service unreachable
+    '/send': async ({ vapid, endpoints = [], ttl = 600, urgency = 'high' }) => ({
+        results: await Promise.all(endpoints.map(async (endpoint) => {
+            try {
+                const res = await webpush.sendNotification({ endpoint }, null, { vapidDetails: vapid, TTL: ttl, urgency, timeout: 15000 });
+                return { endpoint, status: res.statusCode };
+            } catch (err) {
+                return { endpoint, status: err.statusCode || 0 };
+            }
+        }))
+    })
+};
+
+http.createServer(async (req, res) => {
+    const route = req.method === 'POST' ? routes[req.url] : undefined;
+    const reply = (status, data) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+    };
+
+    if (!route) return reply(404, { message: 'Not found' });
+    if (req.headers.authorization !== `Bearer ${SECRET}`) return reply(401, { message: 'Unauthorized' });
+
+    try {
+        reply(200, await route(await readJson(req)));
+    } catch (err) {
+        reply(400, { message: err.message });
+    }
+}).listen(PORT, () => console.log(`[Push] Listening on :${PORT}`));
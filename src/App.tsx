@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { User, CalendarEvent, TodoItem, ShoppingItem, AppView, SystemSettings, ShoppingStore, ShoppingCategory } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { User, CalendarEvent, TodoItem, ShoppingItem, ShoppingList, PurchaseRecord, AppView, SystemSettings, ShoppingStore, ShoppingCategory, EventCategory, Birthday, CalendarViewMode, CalendarSubscription } from './types';
 import { PALETTES, PaletteKey } from './constants';
 import Calendar from './components/Calendar';
 import Lists from './components/Lists';
@@ -8,7 +8,11 @@ import EventModal from './components/EventModal';
 import { Calendar as CalIcon, List as ListIcon, LogOut, Plus, Search, Undo, Redo, Loader2, Columns, Lock, User as UserIcon, AlertCircle, Shield, Globe, Wifi, WifiOff } from 'lucide-react';
 import { fetchWeather, WeatherData, fetchHolidays } from './services/integrations';
 import { storage } from './services/storage';
+import { mergeEventChanges, getOccurrenceDateKey } from './services/recurrence';
+import { getBirthdayEvents } from './services/birthdays';
+import { setDefaultTimeZone } from './services/timezone';
 import { pb } from './services/pb'; // Direct PB access for subscriptions
+import { disablePush } from './services/push';
 import { UserContext } from './contexts/UserContext';
 import { ThemeContext } from './contexts/ThemeContext';
 import { useTranslation } from 'react-i18next';
@@ -45,11 +49,17 @@ const App: React.FC = () => {
   // Config
   const [stores, setStores] = useState<ShoppingStore[]>([]);
   const [categories, setCategories] = useState<ShoppingCategory[]>([]);
+  const [eventCategories, setEventCategories] = useState<EventCategory[]>([]);
+  const [birthdays, setBirthdays] = useState<Birthday[]>([]);
+  const [shoppingLists, setShoppingLists] = useState<ShoppingList[]>([]);
+  const [purchaseHistory, setPurchaseHistory] = useState<PurchaseRecord[]>([]);
 
   const [paletteKey, setPaletteKey] = useState<PaletteKey>('STANDARD');
   const [settings, setSettings] = useState<SystemSettings>({
       weatherEnabled: true, weatherLocationStr: '', holidaysEnabled: true, holidayCountryCode: 'US'
   });
+  // Recurrences without their own zone expand in the household zone (must be set before the calendar renders)
+  setDefaultTimeZone(settings.timeZone);
 
   // --- Undo/Redo State ---
   const [history, setHistory] = useState<HistoryState[]>([]);
@@ -59,6 +69,8 @@ const App: React.FC = () => {
   // --- External Data State ---
   const [weatherData, setWeatherData] = useState<WeatherData[]>([]);
   const [holidayEvents, setHolidayEvents] = useState<CalendarEvent[]>([]);
+  const [subscriptions, setSubscriptions] = useState<CalendarSubscription[]>([]);
+  const [subscriptionEvents, setSubscriptionEvents] = useState<CalendarEvent[]>([]);
 
   // --- UI State ---
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -90,7 +102,7 @@ const App: React.FC = () => {
       return (saved as AppView) || AppView.CALENDAR;
   });
 
-  const [calendarViewMode, setCalendarViewMode] = useState<'WEEK' | 'MONTH' | 'AGENDA'>('WEEK');
+  const [calendarViewMode, setCalendarViewMode] = useState<CalendarViewMode>('WEEK');
 
   // Initialize List Tab from LocalStorage
   const [listTab, setListTab] = useState<'shopping' | 'todos'>(() => {
@@ -121,16 +133,19 @@ const App: React.FC = () => {
       // Only subscribe if loaded and we have a valid session (currentUserId check is sufficient stability)
       if (!isLoaded || !currentUserId) return;
 
-      const notify = (msg: string) => {
+      const notify = (msg: string, duration = 3000) => {
           setGlobalToast({ msg, type: 'info' });
-          setTimeout(() => setGlobalToast(null), 3000);
+          setTimeout(() => setGlobalToast(null), duration);
       };
 
       // MAPPERS: Convert Raw DB Records -> Frontend Types
       const mapShopping = (r: any): ShoppingItem => ({
           id: r.id,
+          listId: r.list || undefined,
           content: r.content,
           note: r.note,
+          quantity: r.quantity || undefined,
+          unit: r.unit || undefined,
           isInCart: r.isInCart,
           isPrivate: r.isPrivate,
           addedByUserId: r.addedBy, 
@@ -140,9 +155,23 @@ const App: React.FC = () => {
           order: r.order,
           userCategoryIds: r.userCategoryIds || {},
           creatorCategoryId: r.category,
+          completedByUserId: r.completedBy || undefined,
+          completedAt: r.completedAt ? r.completedAt.replace(' ', 'T') : undefined,
           logs: r.logs || []
       });
 
+      const mapPurchase = (r: any): PurchaseRecord => ({
+          id: r.id,
+          content: r.content,
+          quantity: r.quantity || undefined,
+          unit: r.unit || undefined,
+          listId: r.list || undefined,
+          addedByUserId: r.addedBy || undefined,
+          boughtByUserId: r.boughtBy || undefined,
+          boughtAt: (r.boughtAt || r.created).replace(' ', 'T'),
+          tripId: r.trip || undefined
+      });
+
       const mapTodo = (r: any): TodoItem => ({
           id: r.id,
           content: r.content,
@@ -161,10 +190,20 @@ const App: React.FC = () => {
           startTime: r.startTime,
           endTime: r.endTime,
           isAllDay: r.isAllDay,
+          timeZone: r.timeZone || undefined,
           userIds: r.participants || [], 
           rrule: r.rrule,
           icalUID: r.icalUID,
-          exdates: r.exdates
+          exdates: r.exdates,
+          recurringEventId: r.recurringEventId || undefined,
+          recurrenceId: r.recurrenceId || undefined,
+          location: r.location || undefined,
+          // 0/0 = not geocoded
+          locationLat: r.locationLat || r.locationLon ? r.locationLat : undefined,
+          locationLon: r.locationLat || r.locationLon ? r.locationLon : undefined,
+          travelMinutes: r.travelMinutes || undefined,
+          categories: r.categories || undefined,
+          reminders: r.reminders?.length ? r.reminders : undefined
       });
 
       // 1. Shopping Subscription
@@ -208,8 +247,9 @@ const App: React.FC = () => {
 
           if (e.action === 'create') {
               setEvents(prev => {
-                  // DEDUPE
-                  if (prev.some(ev => ev.id === event.id || (ev.icalUID && ev.icalUID === event.icalUID))) {
+                  // DEDUPE (overrides share the UID of their series: compare the occurrence too)
+                  const sameOccurrence = (a?: string, b?: string) => (a || '').replace('T', ' ').slice(0, 19) === (b || '').replace('T', ' ').slice(0, 19);
+                  if (prev.some(ev => ev.id === event.id || (ev.icalUID && ev.icalUID === event.icalUID && sameOccurrence(ev.recurrenceId, event.recurrenceId)))) {
                       return prev;
                   }
                   return [...prev, event];
@@ -221,10 +261,51 @@ const App: React.FC = () => {
           }
       });
 
+      // 4. Calendar Subscriptions (feed synced by the server, or edited by an admin)
+      pb.collection('calendar_subscriptions').subscribe('*', () => {
+          refreshSubscriptions();
+      });
+
+      // 5. Shopping Lists (joining a list reveals its items: reload both)
+      pb.collection('shopping_lists').subscribe('*', () => {
+          refreshShoppingLists();
+      });
+
+      // 6. Purchase History (carts cleared on any device: running-low suggestions)
+      pb.collection('shopping_history').subscribe('*', (e) => {
+          const record = mapPurchase(e.record);
+          if (e.action === 'create') {
+              setPurchaseHistory(prev => prev.some(r => r.id === record.id) ? prev : [...prev, record]);
+          } else if (e.action === 'delete') {
+              setPurchaseHistory(prev => prev.filter(r => r.id !== record.id));
+          }
+      });
+
+      // 7. Event Reminders (created for me by the server cron, see pb_hooks/reminders.js)
+      pb.collection('notifications').subscribe('*', (e) => {
+          if (e.action !== 'create') return;
+          const occurrence = new Date(e.record.occurrence.replace(' ', 'T'));
+          const sameDay = occurrence.toDateString() === new Date().toDateString();
+          if (e.record.birthday) {
+              // All-day: the date is enough
+              const day = sameDay ? t('calendar.today') : occurrence.toLocaleDateString(i18n.language, { weekday: 'long', day: 'numeric', month: 'long' });
+              notify(t('notifications.birthday', { title: e.record.title, when: day }), 8000);
+              return;
+          }
+          const when = sameDay
+              ? occurrence.toLocaleTimeString(i18n.language, { hour: '2-digit', minute: '2-digit' })
+              : occurrence.toLocaleString(i18n.language, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+          notify(t('notifications.reminder', { title: e.record.title, when }), 8000);
+      });
+
       return () => {
           pb.collection('shopping_items').unsubscribe();
           pb.collection('todos').unsubscribe();
           pb.collection('events').unsubscribe();
+          pb.collection('calendar_subscriptions').unsubscribe();
+          pb.collection('shopping_lists').unsubscribe();
+          pb.collection('shopping_history').unsubscribe();
+          pb.collection('notifications').unsubscribe();
       };
   }, [isLoaded, currentUserId]); // Depend on ID, not User Object, to stay stable
 
@@ -287,6 +368,20 @@ const App: React.FC = () => {
       };
   }, [isServerLive]);
 
+  // --- CALENDAR SUBSCRIPTIONS (Read-only overlay layers) ---
+  const refreshSubscriptions = async () => {
+      const subs = await storage.getSubscriptions();
+      const subEvents = await storage.getSubscriptionEvents(subs);
+      setSubscriptions(subs); storage.saveLocal('subscriptions', subs);
+      setSubscriptionEvents(subEvents); storage.saveLocal('subscription_events', subEvents);
+  };
+
+  const refreshShoppingLists = async () => {
+      const [lists, items] = await Promise.all([storage.getShoppingLists(), storage.getShopping()]);
+      setShoppingLists(lists); storage.saveLocal('shopping_lists', lists);
+      setShopping(items); storage.saveLocal('shopping', items);
+  };
+
   // --- REUSABLE DATA FETCHER ---
   const refreshRemoteData = async () => {
       try {
@@ -297,28 +392,38 @@ const App: React.FC = () => {
               storage.saveLocal('users', freshUsers);
           }
 
-          const [rEvents, rShopping, rTodos, rSettings, rPalette, rStores, rCats] = await Promise.all([
+          const [rEvents, rShopping, rShoppingLists, rTodos, rSettings, rPalette, rStores, rCats, rEventCats, rBirthdays, rPurchases] = await Promise.all([
               storage.getEvents(),
               storage.getShopping(),
+              storage.getShoppingLists(),
               storage.getTodos(),
               storage.getSettings(),
               storage.getPaletteKey(),
               storage.getStores(),
-              storage.getCategories()
+              storage.getCategories(),
+              storage.getEventCategories(),
+              storage.getBirthdays(),
+              storage.getShoppingHistory()
           ]);
 
           setEvents(rEvents); storage.saveLocal('events', rEvents);
           setShopping(rShopping); storage.saveLocal('shopping', rShopping);
+          setShoppingLists(rShoppingLists); storage.saveLocal('shopping_lists', rShoppingLists);
           setTodos(rTodos); storage.saveLocal('todos', rTodos);
           setSettings(rSettings); storage.saveLocal('settings', rSettings);
           setPaletteKey(rPalette); storage.saveLocal('paletteKey', rPalette);
           setStores(rStores); storage.saveLocal('stores', rStores);
           setCategories(rCats); storage.saveLocal('categories', rCats);
+          setEventCategories(rEventCats); storage.saveLocal('event_categories', rEventCats);
+          setBirthdays(rBirthdays); storage.saveLocal('birthdays', rBirthdays);
+          setPurchaseHistory(rPurchases); storage.saveLocal('purchase_history', rPurchases);
           
           const hol = await storage.getHolidays();
           setHolidayEvents(hol);
           storage.saveLocal('holidays', hol);
 
+          await refreshSubscriptions();
+
           return true;
       } catch (e) {
           console.warn("Failed to refresh remote data", e);
@@ -338,12 +443,18 @@ const App: React.FC = () => {
             setUsers(storage.loadLocal('users', []));
             setEvents(storage.loadLocal('events', []));
             setShopping(storage.loadLocal('shopping', []));
+            setShoppingLists(storage.loadLocal('shopping_lists', []));
             setTodos(storage.loadLocal('todos', []));
             setSettings(storage.loadLocal('settings', settings));
             setPaletteKey(storage.loadLocal('paletteKey', 'STANDARD'));
             setStores(storage.loadLocal('stores', []));
             setCategories(storage.loadLocal('categories', []));
+            setEventCategories(storage.loadLocal('event_categories', []));
+            setBirthdays(storage.loadLocal('birthdays', []));
+            setPurchaseHistory(storage.loadLocal('purchase_history', []));
             setHolidayEvents(storage.loadLocal('holidays', []));
+            setSubscriptions(storage.loadLocal('subscriptions', []));
+            setSubscriptionEvents(storage.loadLocal('subscription_events', []));
         }
 
         setIsLoaded(true);
@@ -438,6 +549,8 @@ const App: React.FC = () => {
                   if (action.collection === 'shopping') await storage.deleteShoppingItem(action.payload); // payload is ID
                   if (action.collection === 'todos') await storage.deleteTodo(action.payload);
                   if (action.collection === 'events') await storage.deleteEvent(action.payload);
+              } else if (action.type === 'ARCHIVE') {
+                  await storage.archivePurchases(action.payload.items, action.payload.trip); // Cleared cart
               }
               
               // If successful, remove from queue
@@ -538,6 +651,47 @@ const updateCategories = async (newCats: ShoppingCategory[]) => {
     } catch (e) { console.warn("Offline: Categories saved locally only."); }
 }
 
+const updateEventCategories = async (newCats: EventCategory[]) => {
+    setEventCategories(newCats);
+    storage.saveLocal('event_categories', newCats); // Persist
+    try {
+        const idMap = await storage.saveEventCategories(newCats);
+        if (Object.keys(idMap).length > 0) {
+            const withIds = newCats.map(c => idMap[c.id] ? { ...c, id: idMap[c.id] } : c);
+            setEventCategories(withIds);
+            storage.saveLocal('event_categories', withIds); // Save again with real IDs
+        }
+    } catch (e) { console.warn("Offline: Event categories saved locally only."); }
+}
+
+// Resolves with the real IDs of the new lists (temp ID -> record ID)
+const updateShoppingLists = async (newLists: ShoppingList[]): Promise<Record<string, string>> => {
+    setShoppingLists(newLists);
+    storage.saveLocal('shopping_lists', newLists); // Persist
+    try {
+        const idMap = await storage.saveShoppingLists(newLists);
+        if (Object.keys(idMap).length > 0) {
+            const withIds = newLists.map(l => idMap[l.id] ? { ...l, id: idMap[l.id] } : l);
+            setShoppingLists(withIds);
+            storage.saveLocal('shopping_lists', withIds); // Save again with real IDs
+        }
+        return idMap;
+    } catch (e) { console.warn("Offline: Shopping lists saved locally only."); return {}; }
+}
+
+const updateBirthdays = async (newBirthdays: Birthday[]) => {
+    setBirthdays(newBirthdays);
+    storage.saveLocal('birthdays', newBirthdays); // Persist
+    try {
+        const idMap = await storage.saveBirthdays(newBirthdays);
+        if (Object.keys(idMap).length > 0) {
+            const withIds = newBirthdays.map(b => idMap[b.id] ? { ...b, id: idMap[b.id] } : b);
+            setBirthdays(withIds);
+            storage.saveLocal('birthdays', withIds); // Save again with real IDs
+        }
+    } catch (e) { console.warn("Offline: Birthdays saved locally only."); }
+}
+
   const updateUsers = (newUsers: User[], skipHistory = false) => {
       if (JSON.stringify(newUsers) === JSON.stringify(users)) return;
       setUsers(newUsers);
@@ -592,7 +746,12 @@ const updateCategories = async (newCats: ShoppingCategory[]) => {
           },
           // ID Swap
           (tempId, realId) => {
-              setter(prev => (prev as any[]).map((e: any) => e.id === tempId ? { ...e, id: realId } : e));
+              setter(prev => (prev as any[]).map((e: any) => {
+                  if (e.id === tempId) return { ...e, id: realId };
+                  // Events: overrides created together with their master (import) follow it
+                  if (e.recurringEventId === tempId) return { ...e, recurringEventId: realId };
+                  return e;
+              }));
               // Note: We don't need to re-save local here, React effect/next render will catch it eventually,
               // or we can force it, but let's keep it simple.
           }
@@ -739,6 +898,18 @@ const updateCategories = async (newCats: ShoppingCategory[]) => {
 
   }, [isLoaded, settings.weatherEnabled, settings.weatherLat, settings.holidaysEnabled, settings.holidayCountryCode, settings.holidaySubdivisionCode]);
 
+  // --- Birthdays: shown with the holidays, a few years back and ten ahead ---
+  const specialDayEvents = useMemo(() => {
+      const year = new Date().getFullYear();
+      const birthdayEvents = getBirthdayEvents(birthdays, year - 2, year + 10, (b, age) => {
+          if (b.kind === 'anniversary') {
+              return age ? `💍 ${t('calendar.anniversary_years', { name: b.name, count: age })}` : `💍 ${t('calendar.anniversary_of', { name: b.name })}`;
+          }
+          return age ? `🎂 ${t('calendar.birthday_turns', { name: b.name, count: age })}` : `🎂 ${t('calendar.birthday_of', { name: b.name })}`;
+      });
+      return [...holidayEvents, ...birthdayEvents];
+  }, [holidayEvents, birthdays, i18n.language]);
+
   // --- Global Font Size & Theme ---
   // (currentUser moved to top)
 
@@ -781,31 +952,50 @@ const updateCategories = async (newCats: ShoppingCategory[]) => {
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
   const [isEventModalOpen, setIsEventModalOpen] = useState(false);
   const [initialModalDate, setInitialModalDate] = useState<Date | undefined>(undefined);
+  const [initialModalEndDate, setInitialModalEndDate] = useState<Date | undefined>(undefined);
+  const [initialModalUserIds, setInitialModalUserIds] = useState<string[] | undefined>(undefined);
 
-  const openNewEventModal = (date: Date) => {
+  // endDate: explicit time range (e.g. click-drag on the DAY grid), otherwise the modal defaults to 9:00 for 1h
+  // userIds: participants chosen beforehand ("Find a time"), otherwise the current user
+  const openNewEventModal = (date: Date, endDate?: Date, userIds?: string[]) => {
     setSelectedEvent(null);
     setInitialModalDate(date);
+    setInitialModalEndDate(endDate);
+    setInitialModalUserIds(userIds);
     setIsEventModalOpen(true);
   };
   
   const openEditEventModal = (event: CalendarEvent, date?: Date) => {
     setSelectedEvent(event);
     setInitialModalDate(date); 
+    setInitialModalEndDate(undefined);
+    setInitialModalUserIds(undefined);
     setIsEventModalOpen(true);
   };
   
-  const saveEvent = (e: CalendarEvent) => {
-    let newEvents;
-    if (selectedEvent) {
-      newEvents = events.map(ev => ev.id === e.id ? e : ev);
-    } else {
-      newEvents = [...events, e];
-    }
-    updateEvents(newEvents);
+  // Upsert one or more events as a single history step (e.g. "This and following" = head + tail).
+  const saveEvents = (changed: CalendarEvent[]) => {
+    updateEvents(mergeEventChanges(events, changed));
   };
+
+  const saveEvent = (e: CalendarEvent) => saveEvents([e]);
   
   const deleteEvent = (id: string) => {
-    updateEvents(events.filter(e => e.id !== id));
+    const target = events.find(e => e.id === id);
+    // Deleting a series also deletes its overrides
+    let newEvents = events.filter(e => e.id !== id && e.recurringEventId !== id);
+
+    // Deleting an override must not bring the original occurrence back: EXDATE it on the master
+    const master = target?.recurringEventId ? events.find(e => e.id === target.recurringEventId) : undefined;
+    if (master && target?.recurrenceId) {
+      const exdate = getOccurrenceDateKey(master, new Date(target.recurrenceId));
+      newEvents = newEvents.map(e => (e.id === master.id && !(e.exdates || []).includes(exdate)) 
+        ? { ...e, exdates: [...(e.exdates || []), exdate] } 
+        : e
+      );
+    }
+
+    updateEvents(newEvents);
     setIsEventModalOpen(false);
   };
 
@@ -1091,12 +1281,19 @@ const updateCategories = async (newCats: ShoppingCategory[]) => {
                     onUpdateEvents={updateEvents}
                     settings={settings}
                     weatherData={weatherData}
-                    holidayEvents={holidayEvents}
+                    holidayEvents={specialDayEvents}
+                    subscriptions={subscriptions}
+                    subscriptionEvents={subscriptionEvents}
+                    eventCategories={eventCategories}
+                    shopping={shopping}
                 />
                 )}
                 {view === AppView.LISTS && (
                 <Lists 
                     shoppingList={shopping}
+                    shoppingLists={shoppingLists}
+                    purchaseHistory={purchaseHistory}
+                    onUpdateShoppingLists={updateShoppingLists}
                     todos={todos}
                     stores={stores}
                     categories={categories}
@@ -1121,6 +1318,12 @@ const updateCategories = async (newCats: ShoppingCategory[]) => {
                     onUpdateStores={updateStores}
                     categories={categories}
                     onUpdateCategories={updateCategories}
+                    eventCategories={eventCategories}
+                    onUpdateEventCategories={updateEventCategories}
+                    birthdays={birthdays}
+                    onUpdateBirthdays={updateBirthdays}
+                    subscriptions={subscriptions}
+                    onSubscriptionsChange={refreshSubscriptions}
                     isReadOnly={isReadOnly}
                     isServerLive={isServerLive}
                 />
@@ -1137,6 +1340,9 @@ const updateCategories = async (newCats: ShoppingCategory[]) => {
                         {view === AppView.CALENDAR ? (
                             <Lists 
                                 shoppingList={shopping}
+                                shoppingLists={shoppingLists}
+                                purchaseHistory={purchaseHistory}
+                                onUpdateShoppingLists={updateShoppingLists}
                                 todos={todos}
                                 stores={stores}
                                 categories={categories}
@@ -1156,7 +1362,10 @@ const updateCategories = async (newCats: ShoppingCategory[]) => {
                                 onUpdateEvents={updateEvents}
                                 settings={settings}
                                 weatherData={weatherData}
-                                holidayEvents={holidayEvents}
+                                holidayEvents={specialDayEvents}
+                                subscriptions={subscriptions}
+                                subscriptionEvents={subscriptionEvents}
+                                eventCategories={eventCategories}
                                 isSidebar={true}
                             />
                         )}
@@ -1200,8 +1409,14 @@ const updateCategories = async (newCats: ShoppingCategory[]) => {
             onClose={() => setIsEventModalOpen(false)}
             event={selectedEvent}
             initialDate={initialModalDate}
+            initialEndDate={initialModalEndDate}
+            initialUserIds={initialModalUserIds}
             onSave={saveEvent}
+            onSaveMany={saveEvents}
             onDelete={deleteEvent}
+            settings={settings}
+            events={events}
+            eventCategories={eventCategories}
           />
 
           {/* Nav */}
@@ -1230,8 +1445,12 @@ const updateCategories = async (newCats: ShoppingCategory[]) => {
 				  localStorage.removeItem('fs_active_list_tab'); 
                   // NOTE: We DO NOT clear fs_cache_* or fs_last_active_user to allow offline re-entry.
 
-                  // 3. Clear PocketBase Auth (Delayed slightly to allow unsubscribe to fire)
-                  setTimeout(() => {
+                  // 3. This device stops getting the member's reminders (needs the session to unregister)
+                  const pushCleanup = disablePush().catch(() => 'off');
+
+                  // 4. Clear PocketBase Auth (Delayed slightly to allow unsubscribe to fire)
+                  setTimeout(async () => {
+                      await pushCleanup;
 				      storage.pb.authStore.clear(); 
 				      setLoginUsername('');
 				      setLoginPassword('');
@@ -1,38 +1,114 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { CalendarEvent, User, SystemSettings } from '../types';
-import { toLocalDateString } from '../constants';
-import { ChevronLeft, ChevronRight, Search, X, Filter, Trash2, CheckSquare, Square, Repeat, ChevronDown, CalendarDays, Users, Check, Plus } from 'lucide-react';
-import { getMoonPhase, getWeatherIcon, getWeatherDescriptionKey, WeatherData } from '../services/integrations';
-import { expandRRule } from '../services/recurrence';
+import { CalendarEvent, User, SystemSettings, CalendarViewMode, CalendarSubscription, EventCategory, ShoppingItem } from '../types';
+import { toLocalDateString, getEventCategory, isHolidayEvent, getWeekStart, getWeekdayIndex, getISOWeek } from '../constants';
+import { ChevronLeft, ChevronRight, Search, X, Filter, Trash2, CheckSquare, Square, Repeat, ChevronDown, CalendarDays, Users, Check, Plus, Layers, MapPin, Car, AlertTriangle, CalendarSearch, Printer, FileDown, Loader2 } from 'lucide-react';
+import { getMoonPhase, getWeatherIcon, getWeatherDescriptionKey, getMapUrl, WeatherData } from '../services/integrations';
+import { expandEvents, eventOverlaps, getEventDays } from '../services/recurrence';
+import { findOverlappingInstances } from '../services/conflicts';
+import { findFreeSlots, FreeSlot } from '../services/scheduler';
+import { generateCalendarPdf, PrintLayout, PrintDay } from '../services/print';
+import { storage } from '../services/storage';
+import { formatQuantity } from '../services/shopping';
 import { useUser } from '../contexts/UserContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useTranslation } from 'react-i18next';
 import DatePicker from 'react-datepicker';
+import { saveAs } from 'file-saver';
+
+// Agenda rows: multi-day events get one row per covered day
+interface AgendaEntry extends CalendarEvent {
+    displayDate: string; // ISO String of the day this row is listed under
+    dayIndex: number; // 1-based
+    dayCount: number;
+}
 
 interface AgendaGroup {
     label: string;
     ts: number;
-    events: CalendarEvent[];
+    events: AgendaEntry[];
+}
+
+// DAY grid geometry
+const HOUR_HEIGHT = 48; // px per hour
+const SNAP_MINUTES = 15;
+
+interface TimedLayout {
+    event: CalendarEvent;
+    start: number; // Minutes from midnight (clamped to the day)
+    end: number;
+    col: number;
+    cols: number;
 }
 
+// Column packing for overlapping events: each cluster of overlapping events
+// shares the width, every event takes the first free column.
+const layoutTimedEvents = (dayEvents: CalendarEvent[], day: Date): TimedLayout[] => {
+    const dayStart = new Date(day);
+    dayStart.setHours(0, 0, 0, 0);
+
+    const items = dayEvents.map(event => {
+        const start = Math.max(0, (new Date(event.startTime).getTime() - dayStart.getTime()) / 60000);
+        const rawEnd = event.endTime 
+            ? (new Date(event.endTime).getTime() - dayStart.getTime()) / 60000 
+            : start + 60;
+        const end = Math.min(24 * 60, Math.max(rawEnd, start + SNAP_MINUTES));
+        return { event, start, end, col: 0, cols: 1 };
+    }).sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+    const result: TimedLayout[] = [];
+    let cluster: TimedLayout[] = [];
+    let columns: number[] = []; // End minute of the last event in each column
+    let clusterEnd = -1;
+
+    const flush = () => {
+        cluster.forEach(item => { item.cols = columns.length; });
+        result.push(...cluster);
+        cluster = [];
+        columns = [];
+        clusterEnd = -1;
+    };
+
+    items.forEach(item => {
+        if (cluster.length > 0 && item.start >= clusterEnd) flush();
+
+        let col = columns.findIndex(end => end <= item.start);
+        if (col === -1) {
+            col = columns.length;
+            columns.push(item.end);
+        } else {
+            columns[col] = item.end;
+        }
+        item.col = col;
+        cluster.push(item);
+        clusterEnd = Math.max(clusterEnd, item.end);
+    });
+    flush();
+
+    return result;
+};
+
 interface CalendarProps {
   events: CalendarEvent[];
-  viewMode: 'WEEK' | 'MONTH' | 'AGENDA';
-  onViewModeChange: (mode: 'WEEK' | 'MONTH' | 'AGENDA') => void;
+  viewMode: CalendarViewMode;
+  onViewModeChange: (mode: CalendarViewMode) => void;
   onEventClick: (event: CalendarEvent, date?: Date) => void;
-  onDateClick: (date: Date) => void;
+  onDateClick: (date: Date, endDate?: Date, userIds?: string[]) => void; // userIds: pre-selected participants ("Find a time")
   onUpdateEvents: (events: CalendarEvent[], skipHistory?: boolean) => void;
   settings: SystemSettings;
   weatherData: WeatherData[];
   holidayEvents: CalendarEvent[];
+  subscriptions?: CalendarSubscription[];
+  subscriptionEvents?: CalendarEvent[]; // Read-only overlay layers (external ICS feeds)
+  eventCategories?: EventCategory[]; // Managed tags: colored left border + agenda filter
+  shopping?: ShoppingItem[]; // Optional second page of the printout
   isSidebar?: boolean;
   isReadOnly?: boolean;
 }
 
 const Calendar: React.FC<CalendarProps> = ({ 
     events, viewMode, onViewModeChange, 
-    onEventClick, onDateClick, onUpdateEvents, settings, weatherData, holidayEvents, isSidebar, isReadOnly 
+    onEventClick, onDateClick, onUpdateEvents, settings, weatherData, holidayEvents, subscriptions = [], subscriptionEvents = [], eventCategories = [], shopping = [], isSidebar, isReadOnly 
 }) => {
   const { users, currentUser } = useUser();
   const { t, i18n } = useTranslation();
@@ -51,13 +127,7 @@ const Calendar: React.FC<CalendarProps> = ({
   };
 
   const handleCellClick = (e: React.MouseEvent, date: Date) => {
-      // 1. Check if we are suppressing clicks due to an aborted drag/shake on an event
-      if (ignoreClickRef.current) {
-          ignoreClickRef.current = false;
-          return;
-      }
-
-      // 2. Check for physical movement (standard drag detection)
+      // Check for physical movement (standard drag detection)
       if (clickStartPos.current) {
           const dx = e.clientX - clickStartPos.current.x;
           const dy = e.clientY - clickStartPos.current.y;
@@ -74,6 +144,7 @@ const Calendar: React.FC<CalendarProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilter, setShowFilter] = useState(false);
   const [filterUserIds, setFilterUserIds] = useState<string[]>([]);
+  const [filterCategoryIds, setFilterCategoryIds] = useState<string[]>([]);
   
   // Agenda: Bulk Action & Visibility State
   const [hidePastEvents, setHidePastEvents] = useState(false);
@@ -81,11 +152,20 @@ const Calendar: React.FC<CalendarProps> = ({
   const [selectedEventIds, setSelectedEventIds] = useState<Set<string>>(new Set());
   const [showManageUsersModal, setShowManageUsersModal] = useState(false);
   const [dragOverDate, setDragOverDate] = useState<string | null>(null);
-
-  // Feedback State for "Stuck" Drags
-  const [shakeId, setShakeId] = useState<string | null>(null);
-  const [tooltipState, setTooltipState] = useState<{ id: string, x: number, y: number } | null>(null);
-  const ignoreClickRef = useRef(false);
+  const [dragOverSlot, setDragOverSlot] = useState<number | null>(null); // Minutes from midnight (WEEK drop slots)
+
+  // Subscription Layers: visibility is a per-device choice
+  const [hiddenLayerIds, setHiddenLayerIds] = useState<string[]>(() => storage.loadLocal('hidden_layers', []));
+  const [showLayers, setShowLayers] = useState(false);
+  const [showFindTime, setShowFindTime] = useState(false);
+  const [showPrint, setShowPrint] = useState(false);
+  const [printSheet, setPrintSheet] = useState<{ layout: PrintLayout, includeShopping: boolean } | null>(null);
+
+  const toggleLayer = (id: string) => {
+      const next = hiddenLayerIds.includes(id) ? hiddenLayerIds.filter(h => h !== id) : [...hiddenLayerIds, id];
+      setHiddenLayerIds(next);
+      storage.saveLocal('hidden_layers', next);
+  };
 
   // Detect Mobile View based on standard breakpoint logic
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
@@ -124,6 +204,12 @@ const Calendar: React.FC<CalendarProps> = ({
             if (target) {
                 target.scrollIntoView({ behavior: 'auto', block: 'start' });
             }
+        } else if (effectiveViewMode === 'DAY') {
+            // Start the grid around "now" for today, otherwise at the beginning of a typical day
+            const now = new Date();
+            const isToday = now.toDateString() === currentDate.toDateString();
+            const anchorHour = isToday ? Math.max(0, now.getHours() - 1) : 7;
+            scrollRef.current.scrollTop = anchorHour * HOUR_HEIGHT;
         } else {
             // FIXED: Scroll to the DISPLAY date (what the user is looking at), 
             // not necessarily 'currentDate' (selected state).
@@ -161,6 +247,20 @@ const Calendar: React.FC<CalendarProps> = ({
       setShowManageUsersModal(false);
   }, [effectiveViewMode]);
 
+  // Browser print: only the print sheet is on paper while body.printing is set (see index.css)
+  useEffect(() => {
+      if (!printSheet) return;
+      const done = () => setPrintSheet(null);
+      document.body.classList.add('printing');
+      window.addEventListener('afterprint', done);
+      const timer = setTimeout(() => window.print(), 100); // Let the sheet render first
+      return () => {
+          clearTimeout(timer);
+          window.removeEventListener('afterprint', done);
+          document.body.classList.remove('printing');
+      };
+  }, [printSheet]);
+
   if (!currentUser) return null;
 
   // --- Date Limits (±50 Years) ---
@@ -177,44 +277,48 @@ const Calendar: React.FC<CalendarProps> = ({
     return prevYear >= MIN_YEAR;
   };
 
-  const expandEvents = (startRange: Date, endRange: Date, rawEvents: CalendarEvent[]) => {
-      let expanded: CalendarEvent[] = [];
-      
-      rawEvents.forEach(e => {
-          if (e.rrule) {
-              // Recurring: Use RRule Engine
-              const instances = expandRRule(e, startRange, endRange);
-              expanded = expanded.concat(instances);
-          } else {
-              // Single Event: Simple Check
-              const start = new Date(e.startTime);
-              // Check overlap
-              if (start >= startRange && start <= endRange) {
-                  expanded.push(e);
-              }
-          }
-      });
-      return expanded;
+  const allEventsCombined = useMemo(() => {
+      // Birthdays come with the holidays but are not hidden with them
+      const visibleHolidays = currentUser.preferences?.showHolidays !== false ? holidayEvents : holidayEvents.filter(e => e.id.startsWith('birthday-'));
+
+      // Feed events already imported into the family calendar (same UID) are shown once, as our own
+      const ownUIDs = new Set(events.map(e => e.icalUID).filter(Boolean));
+      const visibleLayers = subscriptionEvents.filter(e => 
+          !hiddenLayerIds.includes(e.subscriptionId!) && 
+          subscriptions.some(s => s.id === e.subscriptionId && s.enabled) &&
+          !(e.icalUID && ownUIDs.has(e.icalUID))
+      );
+
+      return [...events, ...visibleHolidays, ...visibleLayers];
+  }, [events, holidayEvents, subscriptionEvents, subscriptions, hiddenLayerIds, currentUser.preferences?.showHolidays]);
+
+  // Category color as a left border (the background stays the participants' colors)
+  const getCategoryStyle = (event: CalendarEvent): React.CSSProperties => {
+      const category = getEventCategory(event, eventCategories);
+      return category ? { borderLeft: `4px solid ${category.color}` } : {};
   };
 
-  const allEventsCombined = useMemo(() => {
-      const visibleHolidays = currentUser.preferences?.showHolidays !== false ? holidayEvents : [];
-      return [...events, ...visibleHolidays];
-  }, [events, holidayEvents, currentUser.preferences?.showHolidays]);
+  const getLayerColor = (event: CalendarEvent): string | undefined => {
+      if (!event.subscriptionId) return undefined;
+      return subscriptions.find(s => s.id === event.subscriptionId)?.color;
+  };
+
+  const weekStart = getWeekStart(currentUser.preferences);
+  const showWeekNumbers = !!currentUser.preferences?.showWeekNumbers;
 
   const monthData = useMemo(() => {
     const year = currentDate.getFullYear();
     const month = currentDate.getMonth();
     const firstDayOfMonth = new Date(year, month, 1);
     const daysInMonth = new Date(year, month + 1, 0).getDate();
-    const startDayIndex = firstDayOfMonth.getDay(); 
+    const startDayIndex = getWeekdayIndex(firstDayOfMonth, weekStart);
     
     const days = [];
     for (let i = 0; i < startDayIndex; i++) days.push(null);
     for (let i = 1; i <= daysInMonth; i++) days.push(new Date(year, month, i));
     while (days.length % 7 !== 0) days.push(null);
     return days;
-  }, [currentDate]);
+  }, [currentDate, weekStart]);
 
   const weekData = useMemo(() => {
     if (isMobile && effectiveViewMode === 'WEEK') {
@@ -227,7 +331,7 @@ const Calendar: React.FC<CalendarProps> = ({
         return days;
     } else {
         const start = new Date(currentDate);
-        start.setDate(currentDate.getDate() - currentDate.getDay());
+        start.setDate(currentDate.getDate() - getWeekdayIndex(currentDate, weekStart));
         const days = [];
         for (let i = 0; i < 7; i++) {
           const d = new Date(start);
@@ -236,7 +340,45 @@ const Calendar: React.FC<CalendarProps> = ({
         }
         return days;
     }
-  }, [currentDate, isMobile, effectiveViewMode]);
+  }, [currentDate, isMobile, effectiveViewMode, weekStart]);
+
+  // Double-booked members this week: occurrence id -> the events it collides with
+  const weekConflicts = useMemo(() => {
+    if (effectiveViewMode !== 'WEEK') return new Map<string, CalendarEvent[]>();
+    const start = new Date(weekData[0]); start.setHours(0, 0, 0, 0);
+    const end = new Date(weekData[6]); end.setHours(23, 59, 59, 999);
+    return findOverlappingInstances(expandEvents(start, end, events));
+  }, [events, weekData, effectiveViewMode]);
+
+  // YEAR view, per day: who is busy (dot colors), public holidays, all-day layer events (school breaks) as a tint
+  const yearData = useMemo(() => {
+    const marks = new Map<string, { colors: string[], holidays: string[], titles: string[], tint?: string }>();
+    if (effectiveViewMode !== 'YEAR') return marks;
+
+    const year = currentDate.getFullYear();
+    const start = new Date(year, 0, 1);
+    const end = new Date(year, 11, 31, 23, 59, 59, 999);
+    expandEvents(start, end, allEventsCombined).forEach(event => {
+        const layerColor = getLayerColor(event);
+        const eventUsers = users.filter(u => event.userIds.includes(u.id));
+        const colors = layerColor ? [layerColor] : eventUsers.length ? eventUsers.map(getUserColor) : ['#9ca3af'];
+
+        getEventDays(event).forEach(day => {
+            if (day.getFullYear() !== year) return;
+            const key = toLocalDateString(day);
+            const mark = marks.get(key) || { colors: [], holidays: [], titles: [] };
+            if (event.id.startsWith('holiday-')) {
+                mark.holidays.push(event.title);
+            } else {
+                colors.forEach(c => { if (!mark.colors.includes(c)) mark.colors.push(c); });
+                mark.titles.push(event.title);
+                if (layerColor && event.isAllDay) mark.tint = layerColor;
+            }
+            marks.set(key, mark);
+        });
+    });
+    return marks;
+  }, [allEventsCombined, currentDate, effectiveViewMode, users, subscriptions, activePalette]);
 
   const agendaData = useMemo<Record<string, AgendaGroup>>(() => {
     const now = new Date();
@@ -249,7 +391,8 @@ const Calendar: React.FC<CalendarProps> = ({
         if (searchQuery.trim()) {
             const lowerQ = searchQuery.toLowerCase();
             const matches = e.title.toLowerCase().includes(lowerQ) || 
-                            (e.description && e.description.toLowerCase().includes(lowerQ));
+                            (e.description && e.description.toLowerCase().includes(lowerQ)) ||
+                            (e.location && e.location.toLowerCase().includes(lowerQ));
             if (!matches) return false;
         }
         
@@ -258,7 +401,13 @@ const Calendar: React.FC<CalendarProps> = ({
             if (!matches) return false;
         }
 
-        const isHoliday = e.id.startsWith('holiday-');
+        if (filterCategoryIds.length > 0) {
+            const names = eventCategories.filter(c => filterCategoryIds.includes(c.id)).map(c => c.name.toLowerCase());
+            const matches = (e.categories || []).some(tag => names.includes(tag.toLowerCase()));
+            if (!matches) return false;
+        }
+
+        const isHoliday = isHolidayEvent(e);
         if (isHoliday) {
             const startTime = new Date(e.startTime);
             const today = new Date();
@@ -270,11 +419,27 @@ const Calendar: React.FC<CalendarProps> = ({
         return true;
     });
     
-    expanded.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+    // Ongoing multi-day events are listed on every day they cover (within the range)
+    const entries: AgendaEntry[] = [];
+    expanded.forEach(e => {
+        const days = getEventDays(e);
+        days.forEach((day, i) => {
+            if (days.length > 1 && (day > endRange || day < new Date(new Date(startRange).setHours(0,0,0,0)))) return;
+            entries.push({
+                ...e,
+                // First day keeps the real start (time display), following days list at midnight
+                displayDate: i === 0 ? e.startTime : day.toISOString(),
+                dayIndex: i + 1,
+                dayCount: days.length
+            });
+        });
+    });
+    
+    entries.sort((a, b) => new Date(a.displayDate).getTime() - new Date(b.displayDate).getTime());
 
     const grouped: Record<string, AgendaGroup> = {};
-    expanded.forEach(e => {
-        const d = new Date(e.startTime);
+    entries.forEach(e => {
+        const d = new Date(e.displayDate);
         const label = d.toLocaleDateString(i18n.language, { month: 'long', year: 'numeric' });
         const key = `${d.getFullYear()}-${d.getMonth()}`; 
         
@@ -288,7 +453,7 @@ const Calendar: React.FC<CalendarProps> = ({
         grouped[key].events.push(e);
     });
     return grouped;
-  }, [allEventsCombined, searchQuery, filterUserIds, hidePastEvents, hideHolidays]);
+  }, [allEventsCombined, searchQuery, filterUserIds, filterCategoryIds, eventCategories, hidePastEvents, hideHolidays]);
 
   const getEventsForDay = (date: Date) => {
     if (!date) return [];
@@ -299,8 +464,8 @@ const Calendar: React.FC<CalendarProps> = ({
     const dayEvents = expandEvents(startOfDay, endOfDay, allEventsCombined);
     
     return dayEvents.sort((a, b) => {
-        const isAHoliday = a.id.startsWith('holiday-');
-        const isBHoliday = b.id.startsWith('holiday-');
+        const isAHoliday = isHolidayEvent(a);
+        const isBHoliday = isHolidayEvent(b);
 
         if (isAHoliday && !isBHoliday) return -1;
         if (!isAHoliday && isBHoliday) return 1;
@@ -320,6 +485,88 @@ const Calendar: React.FC<CalendarProps> = ({
     });
   };
 
+  // --- Multi-Day Spanning ---
+  const isMultiDay = (e: CalendarEvent) => getEventDays(e).length > 1;
+
+  // Assigns multi-day events to lanes across one row of day cells, so a bar keeps the same
+  // vertical position in every cell it crosses. Returns the lane slots (event or gap) per cell.
+  const getSpanLanes = (rowDays: (Date | null)[]): (CalendarEvent | null)[][] => {
+      const validDays = rowDays.filter(Boolean) as Date[];
+      if (validDays.length === 0) return rowDays.map(() => []);
+
+      const rowStart = new Date(validDays[0]); rowStart.setHours(0,0,0,0);
+      const rowEnd = new Date(validDays[validDays.length - 1]); rowEnd.setHours(23,59,59,999);
+
+      const spanning = expandEvents(rowStart, rowEnd, allEventsCombined)
+          .filter(isMultiDay)
+          .sort((a, b) => (new Date(a.startTime).getTime() - new Date(b.startTime).getTime()) || (getEventDays(b).length - getEventDays(a).length));
+
+      const lanes: (CalendarEvent | null)[][] = rowDays.map(() => []);
+      spanning.forEach(e => {
+          const covered = rowDays
+              .map((d, i) => {
+                  if (!d) return -1;
+                  const dayStart = new Date(d); dayStart.setHours(0,0,0,0);
+                  const dayEnd = new Date(d); dayEnd.setHours(23,59,59,999);
+                  return eventOverlaps(e, dayStart, dayEnd) ? i : -1;
+              })
+              .filter(i => i >= 0);
+
+          let lane = 0;
+          while (covered.some(i => lanes[i][lane])) lane++;
+          covered.forEach(i => { lanes[i][lane] = e; });
+      });
+
+      // Pad with gaps so lanes line up across the row
+      const laneCount = Math.max(0, ...lanes.map(l => l.length));
+      return lanes.map(l => Array.from({ length: laneCount }, (_, k) => l[k] || null));
+  };
+
+  const renderSpanBar = (event: CalendarEvent | null, date: Date, lane: number, compact: boolean, isRowStart: boolean) => {
+      if (!event) return <div key={`lane-${lane}`} className={compact ? 'h-1.5 shrink-0' : 'h-6 shrink-0'} />;
+
+      const days = getEventDays(event);
+      const continuesBefore = days[0].toDateString() !== date.toDateString();
+      const continuesAfter = days[days.length - 1].toDateString() !== date.toDateString();
+      const isHoliday = isHolidayEvent(event);
+      const realId = event.id.split('_')[0];
+
+      if (compact) {
+          return (
+              <div 
+                  key={`${event.id}-${lane}`}
+                  draggable={canDragAndDrop && !isHoliday && !event.subscriptionId}
+                  onDragStart={(e) => handleDragStart(e, event)}
+                  onDragEnd={handleDragEnd}
+                  className={`h-1.5 shrink-0 shadow-sm opacity-80 rounded-full ${continuesBefore ? 'rounded-l-none -ml-2' : ''} ${continuesAfter ? 'rounded-r-none -mr-2' : ''}`}
+                  style={{ background: getEventBackground(event.userIds, getLayerColor(event)) }}
+                  title={event.title}
+              />
+          );
+      }
+
+      return (
+          <div
+              key={`${event.id}-${lane}`}
+              draggable={canDragAndDrop && !isHoliday && !event.subscriptionId}
+              onDragStart={(e) => handleDragStart(e, event)}
+              onDragEnd={handleDragEnd}
+              onClick={(e) => {
+                  e.stopPropagation();
+                  if (isHoliday) return;
+                  const original = events.find(ev => ev.id === realId);
+                  if (original) onEventClick(original, new Date(event.startTime));
+              }}
+              title={event.title}
+              className={`h-6 shrink-0 px-2 flex items-center text-xs font-bold truncate shadow-sm rounded select-none ${continuesBefore ? 'md:rounded-l-none md:-ml-2' : ''} ${continuesAfter ? 'md:rounded-r-none md:-mr-2' : ''} ${canDragAndDrop && !isHoliday ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}`}
+              style={{ background: getEventBackground(event.userIds, getLayerColor(event)), color: getTextColor(event.userIds, event.title, getLayerColor(event)), ...(!continuesBefore ? getCategoryStyle(event) : {}) }}
+          >
+              {/* Title on the first day, and again at the start of each row for readability */}
+              {(!continuesBefore || isRowStart || isMobile) ? event.title : '\u00A0'}
+          </div>
+      );
+  };
+
   const getLuminance = (hex: string) => {
     const c = hex.replace('#', '');
     const rgb = parseInt(c, 16);
@@ -329,7 +576,8 @@ const Calendar: React.FC<CalendarProps> = ({
     return 0.2126 * r + 0.7152 * g + 0.0722 * b;
   };
 
-  const getTextColor = (userIds: string[], title: string) => {
+  const getTextColor = (userIds: string[], title: string, layerColor?: string) => {
+      if (layerColor) return getLuminance(layerColor) > 150 ? '#1f2937' : '#ffffff';
       if (!userIds || userIds.length === 0) return '#1f2937'; 
 
       const fontScale = currentUser.fontSizeScale || 1;
@@ -375,7 +623,8 @@ const Calendar: React.FC<CalendarProps> = ({
       return avgLum > 150 ? '#1f2937' : '#ffffff';
   };
 
-  const getEventBackground = (userIds: string[]) => {
+  const getEventBackground = (userIds: string[], layerColor?: string) => {
+    if (layerColor) return layerColor;
     if (!userIds || userIds.length === 0) return '#9ca3af'; 
     const eventUsers = users.filter(u => userIds.includes(u.id));
     if (eventUsers.length === 0) return '#9ca3af';
@@ -392,11 +641,36 @@ const Calendar: React.FC<CalendarProps> = ({
     return `linear-gradient(90deg, ${gradientStops})`;
   };
 
+  // Subscription layer toggles (only shown when feeds exist)
+  const renderLayerToggles = () => (
+      <div className="flex flex-col gap-1">
+          {subscriptions.filter(s => s.enabled).map(s => {
+              const isVisible = !hiddenLayerIds.includes(s.id);
+              return (
+                  <button
+                      key={s.id}
+                      onClick={() => toggleLayer(s.id)}
+                      className="flex items-center gap-2 px-2 py-1.5 rounded-md text-xs font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 text-left"
+                  >
+                      <span className="w-4 h-4 rounded flex items-center justify-center border-2 shrink-0" style={{ borderColor: s.color, backgroundColor: isVisible ? s.color : 'transparent' }}>
+                          {isVisible && <Check size={10} className="text-white" />}
+                      </span>
+                      <span className="truncate">{s.name}</span>
+                  </button>
+              );
+          })}
+      </div>
+  );
+
   const next = () => {
     if (!canGoNext()) return;
     const newDate = new Date(currentDate);
-    if (effectiveViewMode === 'MONTH') {
+    if (effectiveViewMode === 'YEAR') {
+        newDate.setFullYear(newDate.getFullYear() + 1);
+    } else if (effectiveViewMode === 'MONTH') {
         newDate.setMonth(newDate.getMonth() + 1);
+    } else if (effectiveViewMode === 'DAY') {
+        newDate.setDate(newDate.getDate() + 1);
     } else {
         newDate.setDate(newDate.getDate() + 7);
     }
@@ -406,8 +680,12 @@ const Calendar: React.FC<CalendarProps> = ({
   const prev = () => {
     if (!canGoPrev()) return;
     const newDate = new Date(currentDate);
-    if (effectiveViewMode === 'MONTH') {
+    if (effectiveViewMode === 'YEAR') {
+        newDate.setFullYear(newDate.getFullYear() - 1);
+    } else if (effectiveViewMode === 'MONTH') {
         newDate.setMonth(newDate.getMonth() - 1);
+    } else if (effectiveViewMode === 'DAY') {
+        newDate.setDate(newDate.getDate() - 1);
     } else {
         newDate.setDate(newDate.getDate() - 7);
     }
@@ -423,7 +701,8 @@ const Calendar: React.FC<CalendarProps> = ({
   }
 
   const handleWheel = (e: React.WheelEvent) => {
-    if (effectiveViewMode === 'AGENDA' || isDatePickerOpen) return;
+    // DAY scrolls vertically through the hours (YEAR through the months), so the wheel can't page them
+    if (effectiveViewMode === 'AGENDA' || effectiveViewMode === 'DAY' || effectiveViewMode === 'YEAR' || isDatePickerOpen) return;
     const now = Date.now();
     if (now - lastWheelTime.current < 300) return;
     if (e.deltaY > 25) {
@@ -435,6 +714,59 @@ const Calendar: React.FC<CalendarProps> = ({
     }
   };
 
+  // --- Print / PDF: the same days, layers and holidays as on screen ---
+  const getPrintDays = (layout: PrintLayout): PrintDay[] => {
+      const showMoon = currentUser.preferences?.showMoonPhases !== false;
+      return (layout === 'MONTH' ? monthData : weekData).map(date => ({
+          date,
+          events: date ? getEventsForDay(date) : [],
+          moon: date && showMoon ? getMoonPhase(date)?.label : null
+      }));
+  };
+
+  const getPrintTitle = (layout: PrintLayout) => {
+      if (layout === 'MONTH') return currentDate.toLocaleDateString(i18n.language, { month: 'long', year: 'numeric' });
+      const format: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'long', year: 'numeric' };
+      return `${weekData[0].toLocaleDateString(i18n.language, format)} – ${weekData[6].toLocaleDateString(i18n.language, format)}`;
+  };
+
+  const printWeekdayNames = Array.from({ length: 7 }, (_, i) => {
+      const d = new Date();
+      d.setDate(d.getDate() - getWeekdayIndex(d, weekStart) + i);
+      return d.toLocaleDateString(i18n.language, { weekday: 'short' });
+  });
+
+  // What is still to buy on the main list (named lists, e.g. a surprise party, stay off the fridge; others' private items stay private)
+  const printShopping = shopping
+      .filter(i => !i.listId && !i.isInCart && (!i.isPrivate || i.addedByUserId === currentUser.id))
+      .sort((a, b) => a.order - b.order);
+
+  const formatShoppingQuantity = (item: ShoppingItem) =>
+      formatQuantity(item.quantity, item.unit ? t(`units.${item.unit}`, { count: item.quantity, defaultValue: item.unit }) : undefined);
+
+  const downloadPdf = async (layout: PrintLayout, includeShopping: boolean) => {
+      const blob = await generateCalendarPdf({
+          layout,
+          title: getPrintTitle(layout),
+          days: getPrintDays(layout),
+          weekdayNames: printWeekdayNames,
+          users,
+          getUserColor,
+          formatTime,
+          formatDay: (date: Date) => date.toLocaleDateString(i18n.language, { weekday: 'long', day: 'numeric', month: 'long' }),
+          shopping: includeShopping ? printShopping : undefined,
+          formatQuantity: formatShoppingQuantity,
+          labels: {
+              allDay: t('event_modal.all_day'),
+              more: (count: number) => t('calendar.print_more', { count }),
+              shopping: t('lists.shopping'),
+              printed: t('calendar.print_printed', { date: new Date().toLocaleDateString(i18n.language) })
+          }
+      });
+      const first = layout === 'MONTH' ? new Date(currentDate.getFullYear(), currentDate.getMonth(), 1) : weekData[0];
+      saveAs(blob, `familysync_${layout === 'MONTH' ? toLocalDateString(first).substring(0, 7) : toLocalDateString(first)}.pdf`);
+  };
+
   const formatTime = (isoString: string) => {
       const date = new Date(isoString);
       const use24h = currentUser.preferences?.timeFormat === '24h';
@@ -526,81 +858,88 @@ const Calendar: React.FC<CalendarProps> = ({
       setSelectedEventIds(next);
   };
 
-  const handleDragStart = (e: React.DragEvent, event: CalendarEvent) => {
-      if (isSidebar || effectiveViewMode !== 'WEEK') return;
-
-      // RECURRENCE GUARD:
-      // If recurring, block the drag immediately, trigger shake, and show popup
-      if (event.rrule || event.id.includes('_')) {
-          e.preventDefault(); // Stop the ghost image from forming
-          
-          // 1. Trigger Visuals
-          setShakeId(event.id);
-          const rect = e.currentTarget.getBoundingClientRect();
-          setTooltipState({
-              id: event.id,
-              x: rect.left + rect.width / 2,
-              y: rect.bottom + 10 // Position below event
-          });
-
-          // 2. Block the subsequent Click event
-          ignoreClickRef.current = true;
-          
-          // 3. Cleanup
-          setTimeout(() => setShakeId(null), 400); 
-          setTimeout(() => setTooltipState(null), 2500); 
-          
-          return;
-      }
+  const canDragAndDrop = !isSidebar && !isReadOnly && (effectiveViewMode === 'DAY' || effectiveViewMode === 'WEEK' || effectiveViewMode === 'MONTH');
 
+  const handleDragStart = (e: React.DragEvent, event: CalendarEvent) => {
+      if (!canDragAndDrop) return;
+      // Subscription events are read-only copies of an external calendar
+      if (event.subscriptionId) { e.preventDefault(); return; }
+      // Recurring instances are allowed: dropping one creates an override for that occurrence
       e.dataTransfer.setData('application/json', JSON.stringify(event));
       e.dataTransfer.effectAllowed = 'move';
   };
 
-  const handleDragOver = (e: React.DragEvent, date: Date) => {
-      if (isSidebar || effectiveViewMode !== 'WEEK') return;
+  const handleDragEnd = () => {
+      setDragOverDate(null);
+      setDragOverSlot(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, date: Date, slotMinutes: number | null = null) => {
+      if (!canDragAndDrop) return;
       e.preventDefault();
+      e.stopPropagation(); // Slots sit inside the day cell
       e.dataTransfer.dropEffect = 'move';
       const dateStr = toLocalDateString(date);
       if (dragOverDate !== dateStr) setDragOverDate(dateStr);
+      if (dragOverSlot !== slotMinutes) setDragOverSlot(slotMinutes);
   };
 
-  const handleDrop = (e: React.DragEvent, targetDate: Date) => {
+  // slotMinutes: null = keep the original time of day, otherwise move the start to that slot
+  const handleDrop = (e: React.DragEvent, targetDate: Date, slotMinutes: number | null = null) => {
       e.preventDefault();
+      e.stopPropagation();
       setDragOverDate(null);
-      if (isSidebar || effectiveViewMode !== 'WEEK') return;
+      setDragOverSlot(null);
+      if (!canDragAndDrop) return;
 
       try {
           const data = e.dataTransfer.getData('application/json');
-          const originalEvent: CalendarEvent = JSON.parse(data);
+          const draggedEvent: CalendarEvent = JSON.parse(data);
           
-          // We only support moving the entire event instance for now
-          // If it's recurring, this might detach it or move the base.
-          // For simplicity in this "drag" interaction, we update the Start Time Day.
-
-          const oldStart = new Date(originalEvent.startTime);
+          const oldStart = new Date(draggedEvent.startTime);
           const newStart = new Date(targetDate);
           
-          // Preserve original TIME
-          newStart.setHours(oldStart.getHours(), oldStart.getMinutes(), 0, 0);
-          
-          const diff = newStart.getTime() - oldStart.getTime();
+          if (slotMinutes !== null && !draggedEvent.isAllDay) {
+              newStart.setHours(Math.floor(slotMinutes / 60), slotMinutes % 60, 0, 0);
+          } else {
+              // Preserve original TIME
+              newStart.setHours(oldStart.getHours(), oldStart.getMinutes(), 0, 0);
+          }
           
-          const updatedEvent = {
-              ...originalEvent,
-              startTime: newStart.toISOString(),
-              endTime: originalEvent.endTime 
-                ? new Date(new Date(originalEvent.endTime).getTime() + diff).toISOString() 
-                : undefined
-          };
-
-          // If the ID has an underscore, it's a virtual instance.
-          if (originalEvent.id.includes('_')) {
+          if (newStart.getTime() === oldStart.getTime()) return;
+
+          // Preserve DURATION
+          const duration = draggedEvent.endTime 
+            ? new Date(draggedEvent.endTime).getTime() - oldStart.getTime() 
+            : undefined;
+          const newEnd = duration !== undefined ? new Date(newStart.getTime() + duration).toISOString() : undefined;
+
+          // Virtual instance of a series: create an override for this occurrence (RECURRENCE-ID)
+          if (draggedEvent.id.includes('_')) {
+              const realId = draggedEvent.id.split('_')[0];
+              const master = events.find(ev => ev.id === realId);
+              if (!master) return;
+
+              const override: CalendarEvent = {
+                  ...master,
+                  id: Date.now().toString(),
+                  startTime: newStart.toISOString(),
+                  endTime: newEnd,
+                  rrule: undefined,
+                  exdates: undefined,
+                  icalUID: master.icalUID,
+                  recurringEventId: master.id,
+                  recurrenceId: draggedEvent.startTime
+              };
+              onUpdateEvents([...events, override]);
               return;
           }
 
-          // Update the list
-          const updatedList = events.map(ev => ev.id === updatedEvent.id ? updatedEvent : ev);
+          // Single event or existing override (keeps its recurrenceId)
+          const updatedList = events.map(ev => ev.id === draggedEvent.id 
+              ? { ...ev, startTime: newStart.toISOString(), endTime: newEnd } 
+              : ev
+          );
           onUpdateEvents(updatedList);
 
       } catch (err) {
@@ -608,6 +947,15 @@ const Calendar: React.FC<CalendarProps> = ({
       }
   };
 
+  // WEEK drop targets: "keep time" + hourly slots over a typical family day
+  const DROP_SLOTS: (number | null)[] = [null, ...Array.from({ length: 17 }, (_, i) => (6 + i) * 60)];
+
+  const formatSlot = (slotMinutes: number) => {
+      const d = new Date();
+      d.setHours(Math.floor(slotMinutes / 60), slotMinutes % 60, 0, 0);
+      return formatTime(d.toISOString());
+  };
+
   const handleBulkDeleteClick = (e: React.MouseEvent) => {
       e.preventDefault(); e.stopPropagation();
       onUpdateEvents(events.filter(e => !selectedEventIds.has(e.id)));
@@ -636,18 +984,6 @@ const Calendar: React.FC<CalendarProps> = ({
 
   return (
     <div className="flex flex-col flex-1 h-full bg-white dark:bg-gray-900 overflow-hidden relative" ref={containerRef} onWheel={handleWheel}>
-      <style>{`
-        @keyframes shake-horizontal {
-            0%, 100% { transform: translateX(0); }
-            20% { transform: translateX(-4px); }
-            40% { transform: translateX(4px); }
-            60% { transform: translateX(-4px); }
-            80% { transform: translateX(4px); }
-        }
-        .animate-shake-x {
-            animation: shake-horizontal 0.4s cubic-bezier(.36,.07,.19,.97) both;
-        }
-      `}</style>
       {!isSidebar && (
       <div className="flex flex-col sm:flex-row sm:items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shrink-0 z-20 gap-3">
         {effectiveViewMode === 'AGENDA' ? (
@@ -660,16 +996,16 @@ const Calendar: React.FC<CalendarProps> = ({
                     <div className="flex items-center gap-2">
                         {searchQuery && <button onClick={() => setSearchQuery('')}><X size={16} className="text-gray-400 dark:text-gray-500"/></button>}
                         <div className="w-px h-4 bg-gray-300 dark:bg-gray-600 mx-1"></div>
-                        <button onClick={() => setShowFilter(!showFilter)} className={`p-1 rounded-md transition-colors ${showFilter || filterUserIds.length > 0 ? 'text-blue-600 bg-blue-100 dark:bg-blue-900 dark:text-blue-300' : 'text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300'}`}>
-                            <Filter size={16} className={filterUserIds.length > 0 ? "fill-current" : ""}/>
+                        <button onClick={() => setShowFilter(!showFilter)} className={`p-1 rounded-md transition-colors ${showFilter || filterUserIds.length > 0 || filterCategoryIds.length > 0 ? 'text-blue-600 bg-blue-100 dark:bg-blue-900 dark:text-blue-300' : 'text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300'}`}>
+                            <Filter size={16} className={filterUserIds.length > 0 || filterCategoryIds.length > 0 ? "fill-current" : ""}/>
                         </button>
                     </div>
                 </div>
              </div>
              
-             {(showFilter || filterUserIds.length > 0) && (
+             {(showFilter || filterUserIds.length > 0 || filterCategoryIds.length > 0) && (
                  <div className="flex gap-2 overflow-x-auto pb-2 px-1 no-scrollbar">
-                    <button onClick={() => setFilterUserIds([])} className={`px-3 py-1.5 rounded-full text-xs font-bold whitespace-nowrap border ${filterUserIds.length === 0 ? 'bg-gray-800 text-white border-gray-800 dark:bg-gray-200 dark:text-gray-900' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-600'}`}>{t('calendar.filter_all')}</button>
+                    <button onClick={() => { setFilterUserIds([]); setFilterCategoryIds([]); }} className={`px-3 py-1.5 rounded-full text-xs font-bold whitespace-nowrap border ${filterUserIds.length === 0 && filterCategoryIds.length === 0 ? 'bg-gray-800 text-white border-gray-800 dark:bg-gray-200 dark:text-gray-900' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-600'}`}>{t('calendar.filter_all')}</button>
                     {users.map(u => {
                         const isActive = filterUserIds.includes(u.id);
                         return (
@@ -681,6 +1017,22 @@ const Calendar: React.FC<CalendarProps> = ({
                             </button>
                         )
                     })}
+                    {eventCategories.map(category => {
+                        const isActive = filterCategoryIds.includes(category.id);
+                        return (
+                            <button key={category.id} onClick={() => setFilterCategoryIds(prev => isActive ? prev.filter(id => id !== category.id) : [...prev, category.id])} className={`flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs font-bold whitespace-nowrap transition-all ${isActive ? 'ring-1 text-gray-800 dark:text-gray-100' : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300'}`} style={{ borderColor: category.color, ...(isActive ? { backgroundColor: `${category.color}33`, ['--tw-ring-color' as any]: category.color } : {}) }}>
+                                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: category.color }} /> {category.name}
+                            </button>
+                        )
+                    })}
+                    {subscriptions.filter(sub => sub.enabled).map(sub => {
+                        const isVisible = !hiddenLayerIds.includes(sub.id);
+                        return (
+                            <button key={sub.id} onClick={() => toggleLayer(sub.id)} title={t('calendar.layers')} className={`flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs font-bold whitespace-nowrap transition-all ${isVisible ? 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200' : 'bg-gray-50 dark:bg-gray-900 text-gray-400 dark:text-gray-500 line-through'}`} style={{ borderColor: sub.color }}>
+                                <Layers size={12} style={{ color: sub.color }} /> {sub.name}
+                            </button>
+                        )
+                    })}
                  </div>
              )}
             
@@ -700,10 +1052,48 @@ const Calendar: React.FC<CalendarProps> = ({
             <>
                 <div className="flex items-center justify-between w-full">
                     <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-0.5">
+                        <button onClick={() => onViewModeChange('DAY')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${effectiveViewMode === 'DAY' ? 'bg-white dark:bg-gray-600 shadow text-blue-600 dark:text-blue-400' : 'text-gray-400 dark:text-gray-500'}`}>{t('calendar.day')}</button>
                         <button onClick={() => onViewModeChange('WEEK')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${effectiveViewMode === 'WEEK' ? 'bg-white dark:bg-gray-600 shadow text-blue-600 dark:text-blue-400' : 'text-gray-400 dark:text-gray-500'}`}><span className="md:hidden">WEEK</span><span className="hidden md:inline">{t('calendar.week')}</span></button>
                         <button onClick={() => onViewModeChange('MONTH')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${effectiveViewMode === 'MONTH' ? 'bg-white dark:bg-gray-600 shadow text-blue-600 dark:text-blue-400' : 'text-gray-400 dark:text-gray-500'}`}>{t('calendar.month')}</button>
+                        <button onClick={() => onViewModeChange('YEAR')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${effectiveViewMode === 'YEAR' ? 'bg-white dark:bg-gray-600 shadow text-blue-600 dark:text-blue-400' : 'text-gray-400 dark:text-gray-500'}`}>{t('calendar.year')}</button>
                     </div>
                     <div className="flex items-center gap-2">
+                        {subscriptions.some(s => s.enabled) && (
+                            <div className="relative">
+                                <button
+                                    onClick={() => setShowLayers(!showLayers)}
+                                    className={`p-2 rounded-full transition-colors ${showLayers || hiddenLayerIds.length > 0 ? 'text-blue-600 bg-blue-50 dark:bg-blue-900/30 dark:text-blue-300' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                                    title={t('calendar.layers')}
+                                >
+                                    <Layers size={20} />
+                                </button>
+                                {showLayers && (
+                                    <>
+                                        <div className="fixed inset-0 z-30" onClick={() => setShowLayers(false)} />
+                                        <div className="absolute right-0 top-full mt-1 z-40 w-56 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl p-2 animate-in fade-in zoom-in-95">
+                                            <div className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider px-2 pb-1">{t('calendar.layers')}</div>
+                                            {renderLayerToggles()}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                        <button
+                            onClick={() => setShowPrint(true)}
+                            className="hidden md:block p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                            title={t('calendar.print')}
+                        >
+                            <Printer size={20} />
+                        </button>
+                        {!isReadOnly && (
+                        <button
+                            onClick={() => setShowFindTime(true)}
+                            className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                            title={t('calendar.find_time')}
+                        >
+                            <CalendarSearch size={20} />
+                        </button>
+                        )}
                         <button
                             onClick={() => onViewModeChange('AGENDA')}
                             className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
@@ -727,8 +1117,9 @@ const Calendar: React.FC<CalendarProps> = ({
                         <DatePicker
                             selected={displayDate}
                             onChange={(date: Date | null) => { if (date) setCurrentDate(date); }}
-                            dateFormat={t('formats.month_year')}
-                            showMonthYearPicker
+                            dateFormat={effectiveViewMode === 'YEAR' ? 'yyyy' : t('formats.month_year')}
+                            showMonthYearPicker={effectiveViewMode !== 'YEAR'}
+                            showYearPicker={effectiveViewMode === 'YEAR'}
                             showYearDropdown
                             dropdownMode="select"
                             className="font-bold text-gray-800 dark:text-gray-100 text-lg select-none hover:text-blue-600 dark:hover:text-blue-400 transition-colors bg-transparent border-none outline-none cursor-pointer w-40"
@@ -741,6 +1132,11 @@ const Calendar: React.FC<CalendarProps> = ({
                         />
                         <ChevronDown size={16} className="text-gray-400 dark:text-gray-500 pointer-events-none absolute right-0" />
                      </div>
+                     {showWeekNumbers && (effectiveViewMode === 'WEEK' || effectiveViewMode === 'DAY') && (
+                         <span className="mr-auto ml-2 px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-[0.65rem] font-bold text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                             {t('calendar.week_number', { week: getISOWeek(effectiveViewMode === 'WEEK' && !isMobile ? weekData[3] : displayDate) })}
+                         </span>
+                     )}
 
                      <div className="flex items-center gap-1">
                         <button onClick={prev} disabled={!canGoPrev()} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full text-gray-600 dark:text-gray-300 disabled:opacity-20"><ChevronLeft size={24}/></button>
@@ -764,11 +1160,11 @@ const Calendar: React.FC<CalendarProps> = ({
         </div>
       )}
 
-      {effectiveViewMode !== 'AGENDA' && (
+      {effectiveViewMode !== 'AGENDA' && effectiveViewMode !== 'YEAR' && (
           <div className="hidden md:grid grid-cols-7 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 z-10 shrink-0">
             {Array.from({ length: 7 }).map((_, i) => {
                 const d = new Date();
-                d.setDate(d.getDate() - d.getDay() + i);
+                d.setDate(d.getDate() - getWeekdayIndex(d, weekStart) + i);
                 return (
                     <div key={i} className="text-center py-2 text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">
                         {d.toLocaleDateString(i18n.language, { weekday: 'short' })}
@@ -795,16 +1191,20 @@ const Calendar: React.FC<CalendarProps> = ({
                         </div>
                         <div className="divide-y divide-gray-100 dark:divide-gray-800">
                             {group.events.map(event => {
-                                const d = new Date(event.startTime);
-                                const isPast = d < new Date();
+                                const d = new Date(event.displayDate);
+                                // Multi-day rows only become "past" once their day is over
+                                const isPast = event.dayCount > 1 
+                                    ? new Date(new Date(d).setHours(23, 59, 59, 999)) < new Date() 
+                                    : d < new Date();
                                 const realId = event.id.split('_')[0];
-                                const isHoliday = event.id.startsWith('holiday-');
+                                const isHoliday = isHolidayEvent(event);
+                                const layer = event.subscriptionId ? subscriptions.find(s => s.id === event.subscriptionId) : undefined;
                                 const isSelected = selectedEventIds.has(realId);
                                 const eventUsers = users.filter(u => event.userIds.includes(u.id));
                                 
                                 return (
                                     <div 
-                                        key={event.id} 
+                                        key={`${event.id}-${event.dayIndex}`} 
                                         onClick={() => {
                                             if (isHoliday) return; 
                                             const original = events.find(e => e.id === realId);
@@ -817,7 +1217,7 @@ const Calendar: React.FC<CalendarProps> = ({
                                             ${!isHoliday ? 'cursor-pointer' : ''}
                                         `}
                                     >
-                                        {!isHoliday && !isSidebar ? (
+                                        {!isHoliday && !layer && !isSidebar ? (
                                             <button onClick={(e) => { e.stopPropagation(); toggleSelection(event.id); }} className={`p-1 rounded ${isSelected ? 'text-blue-600 dark:text-blue-400' : 'text-gray-300 dark:text-gray-600 hover:text-gray-500 dark:hover:text-gray-400'}`}>
                                                 {isSelected ? <CheckSquare size={20} /> : <Square size={20} />}
                                             </button>
@@ -829,7 +1229,7 @@ const Calendar: React.FC<CalendarProps> = ({
                                         </div>
                                         
                                         <div className="h-10 flex gap-0.5 shrink-0 bg-gray-100 dark:bg-gray-700 rounded overflow-hidden p-0.5">
-                                             {eventUsers.length === 0 ? <div className="w-1 h-full bg-gray-300 dark:bg-gray-600 rounded-full"></div> : eventUsers.map(u => <div key={u.id} className="w-1.5 h-full rounded-full" style={{ backgroundColor: getUserColor(u) }} title={u.username} />)}
+                                             {layer ? <div className="w-1.5 h-full rounded-full" style={{ backgroundColor: layer.color }} title={layer.name} /> : eventUsers.length === 0 ? <div className="w-1 h-full bg-gray-300 dark:bg-gray-600 rounded-full"></div> : eventUsers.map(u => <div key={u.id} className="w-1.5 h-full rounded-full" style={{ backgroundColor: getUserColor(u) }} title={u.username} />)}
                                         </div>
                                         
                                         <div className="flex-1 min-w-0">
@@ -838,10 +1238,41 @@ const Calendar: React.FC<CalendarProps> = ({
                                                     {event.title}
                                                     {(event.rrule || event.id.includes('_')) && <Repeat size={10} className="text-gray-400 dark:text-gray-500" />}
                                                 </h3>
-                                                {!event.isAllDay && !isHoliday && (
+                                                {event.dayCount > 1 ? (
+                                                    <span className="text-xs font-medium text-gray-400 dark:text-gray-500 whitespace-nowrap">{t('calendar.day_of', { day: event.dayIndex, total: event.dayCount })}</span>
+                                                ) : !event.isAllDay && !isHoliday && (
                                                     <span className="text-xs font-medium text-gray-400 dark:text-gray-500 whitespace-nowrap">{formatTime(event.startTime)}</span>
                                                 )}
                                             </div>
+                                            {layer && <p className="text-[0.625rem] font-bold uppercase tracking-wide truncate" style={{ color: layer.color }}>{layer.name}</p>}
+                                            {!!event.categories?.length && (
+                                                <div className="flex flex-wrap gap-1 mt-0.5">
+                                                    {event.categories.map(tag => {
+                                                        const category = eventCategories.find(c => c.name.toLowerCase() === tag.toLowerCase());
+                                                        return (
+                                                            <span key={tag} className="px-1.5 rounded-full text-[0.6rem] font-bold border text-gray-600 dark:text-gray-300" style={category ? { borderColor: category.color, backgroundColor: `${category.color}22` } : { borderColor: '#d1d5db' }}>{tag}</span>
+                                                        );
+                                                    })}
+                                                </div>
+                                            )}
+                                            {event.location && (
+                                                <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 mt-0.5 min-w-0">
+                                                    <a
+                                                        href={getMapUrl(event.location, event.locationLat, event.locationLon) || undefined}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        onClick={(e) => e.stopPropagation()}
+                                                        className="flex items-center gap-1 truncate hover:text-blue-600 dark:hover:text-blue-400 hover:underline"
+                                                    >
+                                                        <MapPin size={10} className="shrink-0" /> <span className="truncate">{event.location}</span>
+                                                    </a>
+                                                    {!!event.travelMinutes && !event.isAllDay && event.dayIndex === 1 && (
+                                                        <span className="flex items-center gap-1 whitespace-nowrap font-bold text-orange-600 dark:text-orange-400">
+                                                            <Car size={10} /> {t('calendar.leave_at', { time: formatTime(new Date(new Date(event.startTime).getTime() - event.travelMinutes * 60000).toISOString()) })}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            )}
                                             {event.description && <p className="text-xs text-gray-500 dark:text-gray-400 truncate mt-0.5">{event.description}</p>}
                                         </div>
                                     </div>
@@ -853,33 +1284,115 @@ const Calendar: React.FC<CalendarProps> = ({
             </div>
         )}
 
-        {effectiveViewMode === 'MONTH' && (
+        {effectiveViewMode === 'DAY' && (() => {
+            const dayEvents = getEventsForDay(currentDate);
+            const openInstance = (event: CalendarEvent) => {
+                if (isHolidayEvent(event)) return;
+                const original = events.find(ev => ev.id === event.id.split('_')[0]);
+                if (original) onEventClick(original, new Date(event.startTime));
+            };
+            return (
+                <DayTimeGrid
+                    date={currentDate}
+                    allDayEvents={dayEvents.filter(e => e.isAllDay || isHolidayEvent(e))}
+                    timedEvents={dayEvents.filter(e => !e.isAllDay && !isHolidayEvent(e))}
+                    locale={i18n.language}
+                    isDark={currentUser.preferences?.theme === 'DARK'}
+                    canEdit={!isReadOnly}
+                    canDrag={canDragAndDrop}
+                    dragOverMinutes={dragOverDate === toLocalDateString(currentDate) ? dragOverSlot : null}
+                    formatTime={formatTime}
+                    getEventBackground={getEventBackground}
+                    getTextColor={getTextColor}
+                    getLayerColor={getLayerColor}
+                    getCategoryStyle={getCategoryStyle}
+                    renderDateExtras={renderDateExtras}
+                    onEventOpen={openInstance}
+                    onCreateRange={(start: Date, end: Date) => onDateClick(start, end)}
+                    onDragStart={handleDragStart}
+                    onDragEnd={handleDragEnd}
+                    onDragOverMinutes={(e: React.DragEvent, minutes: number) => handleDragOver(e, currentDate, minutes)}
+                    onDropMinutes={(e: React.DragEvent, minutes: number) => handleDrop(e, currentDate, minutes)}
+                    t={t}
+                />
+            );
+        })()}
+
+        {effectiveViewMode === 'YEAR' && (
+            <YearGrid
+                year={currentDate.getFullYear()}
+                weekStart={weekStart}
+                marks={yearData}
+                users={users}
+                getUserColor={getUserColor}
+                locale={i18n.language}
+                onDayClick={(date: Date) => { setCurrentDate(date); onViewModeChange('WEEK'); }}
+                onMonthClick={(date: Date) => { setCurrentDate(date); onViewModeChange('MONTH'); }}
+                t={t}
+            />
+        )}
+
+        {effectiveViewMode === 'MONTH' && (() => {
+           // Lanes are computed per calendar row so spanning bars line up within the row
+           const monthLanes = Array.from({ length: Math.ceil(monthData.length / 7) }, (_, r) => getSpanLanes(monthData.slice(r * 7, r * 7 + 7))).flat();
+           return (
            <div className="grid grid-cols-7 auto-rows-fr h-full min-h-[500px]">
                {monthData.map((date, idx) => {
-                   if (!date) return <div key={idx} className="bg-gray-50/30 dark:bg-gray-800/30 border border-gray-50/50 dark:border-gray-800/50"></div>;
-                   const dayEvents = getEventsForDay(date);
+                   const rowDate = idx % 7 === 0 ? monthData.slice(idx, idx + 7).find(d => d) : null;
+                   const weekLabel = showWeekNumbers && rowDate ? (
+                       <span className="absolute top-1 left-1 text-[0.6rem] font-bold text-gray-300 dark:text-gray-600" title={t('calendar.week_number', { week: getISOWeek(rowDate) })}>
+                           {t('calendar.week_number_short', { week: getISOWeek(rowDate) })}
+                       </span>
+                   ) : null;
+                   if (!date) return <div key={idx} className="relative bg-gray-50/30 dark:bg-gray-800/30 border border-gray-50/50 dark:border-gray-800/50">{weekLabel}</div>;
+                   const dayEvents = getEventsForDay(date).filter(e => !isMultiDay(e));
                    const isToday = new Date().toDateString() === date.toDateString();
                    const dateId = `date-${date.toDateString().replace(/ /g, '-')}`;
+                   const isDragOver = dragOverDate === toLocalDateString(date);
 
                    return (
-                       <div key={idx} id={dateId} onClick={() => { setCurrentDate(date); onViewModeChange('WEEK'); }} className={`border-b border-r border-gray-100 dark:border-gray-700 p-1 flex flex-col items-center gap-1 cursor-pointer hover:bg-blue-50/30 dark:hover:bg-blue-900/10 transition-colors ${isToday ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}>
+                       <div 
+                            key={idx} 
+                            id={dateId} 
+                            onClick={() => { setCurrentDate(date); onViewModeChange('WEEK'); }} 
+                            onDragOver={(e) => handleDragOver(e, date)}
+                            onDrop={(e) => handleDrop(e, date)}
+                            className={`relative border-b border-r border-gray-100 dark:border-gray-700 p-1 flex flex-col items-center gap-1 cursor-pointer hover:bg-blue-50/30 dark:hover:bg-blue-900/10 transition-colors ${isToday ? 'bg-blue-50 dark:bg-blue-900/20' : ''} ${isDragOver ? 'bg-blue-100 dark:bg-blue-900/40 ring-inset ring-2 ring-blue-500' : ''}`}
+                       >
+                           {weekLabel}
                            <span className={`text-xs font-bold w-6 h-6 flex items-center justify-center rounded-full ${isToday ? 'bg-blue-600 text-white' : 'text-gray-700 dark:text-gray-300'}`}>{date.getDate()}</span>
                            {renderDateExtras(date)}
                            <div className="flex flex-col gap-1 w-full px-1 overflow-hidden mt-1">
-                               {dayEvents.map(e => (
-                                   <div key={e.id} className="h-1.5 w-full rounded-full shadow-sm opacity-80" style={{ background: getEventBackground(e.userIds) }} title={e.title}/>
-                               ))}
+                               {monthLanes[idx].map((e, lane) => renderSpanBar(e, date, lane, true, idx % 7 === 0))}
+                               {dayEvents.map(e => {
+                                   const isHoliday = isHolidayEvent(e);
+                                   return (
+                                       <div 
+                                            key={e.id} 
+                                            draggable={canDragAndDrop && !isHoliday && !e.subscriptionId}
+                                            onDragStart={(ev) => handleDragStart(ev, e)}
+                                            onDragEnd={handleDragEnd}
+                                            className={`h-1.5 w-full rounded-full shadow-sm opacity-80 ${canDragAndDrop && !isHoliday ? 'cursor-grab active:cursor-grabbing' : ''}`} 
+                                            style={{ background: getEventBackground(e.userIds, getLayerColor(e)) }} 
+                                            title={e.title}
+                                       />
+                                   );
+                               })}
                            </div>
                        </div>
                    )
                })}
            </div>
-        )}
+           );
+        })()}
 
-        {effectiveViewMode === 'WEEK' && (
+        {effectiveViewMode === 'WEEK' && (() => {
+           const weekLanes = getSpanLanes(weekData);
+           return (
             <div className={`grid grid-cols-1 md:grid-cols-7 gap-0 ${isMobile ? '' : 'h-full grid-rows-1'}`}>
                 {weekData.map((date, idx) => {
-                    const dayEvents = getEventsForDay(date);
+                    const dayEvents = getEventsForDay(date).filter(e => !isMultiDay(e));
+                    const dayConflicts = dayEvents.filter(e => weekConflicts.has(e.id)).length;
                     const isToday = new Date().toDateString() === date.toDateString();
                     const isPast = date < new Date() && !isToday;
                     const dateId = `date-${date.toDateString().replace(/ /g, '-')}`;
@@ -894,7 +1407,7 @@ const Calendar: React.FC<CalendarProps> = ({
                             onDragOver={(e) => handleDragOver(e, date)}
                             onDrop={(e) => handleDrop(e, date)}
                             className={`
-                                border-b border-gray-100 dark:border-gray-700 md:border-r p-2 flex flex-col gap-1.5 cursor-pointer group transition-colors 
+                                border-b border-gray-100 dark:border-gray-700 md:border-r p-2 flex flex-col gap-1.5 cursor-pointer group transition-colors relative 
                                 ${isToday ? 'bg-blue-50/40 dark:bg-blue-900/20' : 'bg-white dark:bg-gray-900'} 
                                 ${isPast ? 'bg-gray-50/30 dark:bg-gray-800/50' : ''} 
                                 ${isDragOver ? 'bg-blue-100 dark:bg-blue-900/40 ring-inset ring-2 ring-blue-500' : ''}
@@ -911,47 +1424,63 @@ const Calendar: React.FC<CalendarProps> = ({
                                  </div>
 
                                  <div className="flex items-center gap-2">
+                                    {dayConflicts > 0 && (
+                                        <span className="flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-orange-100 dark:bg-orange-900/40 text-orange-600 dark:text-orange-400 text-[0.6rem] font-bold" title={t('calendar.conflicts', { count: dayConflicts })}>
+                                            <AlertTriangle size={10} /> {dayConflicts}
+                                        </span>
+                                    )}
                                     <span className="text-[0.625rem] font-bold text-gray-300 dark:text-gray-600 uppercase tracking-tight">{date.toLocaleDateString(i18n.language, { month: 'short' })}</span>
-                                    <div className={`text-sm font-bold w-7 h-7 flex items-center justify-center rounded-full ${isToday ? 'bg-blue-600 text-white' : 'text-gray-700 dark:text-gray-300'}`}>{date.getDate()}</div>
+                                    <button 
+                                        onClick={(e) => { e.stopPropagation(); setCurrentDate(date); onViewModeChange('DAY'); }}
+                                        title={t('calendar.open_day')}
+                                        className={`text-sm font-bold w-7 h-7 flex items-center justify-center rounded-full transition-colors ${isToday ? 'bg-blue-600 text-white' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                                    >
+                                        {date.getDate()}
+                                    </button>
                                  </div>
                              </div>
                              
+                             {/* Drop Slots: choose the new time of day while dragging over this day */}
+                             {isDragOver && (
+                                 <div className="absolute inset-1 z-20 flex flex-col rounded overflow-hidden bg-white/90 dark:bg-gray-900/90 shadow-inner">
+                                     {DROP_SLOTS.map(slot => (
+                                         <div
+                                            key={slot ?? 'keep'}
+                                            onDragOver={(e) => handleDragOver(e, date, slot)}
+                                            onDrop={(e) => handleDrop(e, date, slot)}
+                                            className={`flex-1 min-h-[14px] flex items-center px-2 text-[0.6rem] font-bold border-t border-dashed border-gray-200 dark:border-gray-700 first:border-t-0 ${dragOverSlot === slot ? 'bg-blue-500 text-white' : 'text-gray-400 dark:text-gray-500'}`}
+                                         >
+                                             {slot === null ? t('calendar.keep_time') : formatSlot(slot)}
+                                         </div>
+                                     ))}
+                                 </div>
+                             )}
+
                              {/* Desktop: Extras Below (Default) */}
                              <div className="hidden md:block">
                                 {renderDateExtras(date)}
                              </div>
                              <div className="flex flex-col gap-1.5 mt-1 flex-1">
+                                 {weekLanes[idx].map((e, lane) => (isMobile && !e) ? null : renderSpanBar(e, date, lane, false, idx === 0))}
                                  {dayEvents.map(event => {
                                      const realId = event.id.split('_')[0];
-                                     const isHoliday = event.id.startsWith('holiday-');
+                                     const isHoliday = isHolidayEvent(event);
                                      
-                                     // Logic to detect if it's part of a series (Base or Instance)
-                                     // LOGIC CHANGE: Allow "draggable" attribute even for recurring items, 
-                                     // so we can catch the 'dragstart' event and show the shake animation.
-                                     const isSeriesMember = !!event.rrule || event.id.includes('_');
-                                     const allowDragAttempt = !isHoliday && !isSidebar && !isReadOnly;
-                                     // const isActuallyDraggable = allowDragAttempt && !isSeriesMember; // Removed: We want the grab cursor even if locked
-
-                                     const textColor = isHoliday ? (currentUser.preferences?.theme === 'DARK' ? '#e5e7eb' : '#1f2937') : getTextColor(event.userIds, event.title);
+                                     const allowDrag = !isHoliday && !event.subscriptionId && canDragAndDrop;
+
+                                     const textColor = isHoliday ? (currentUser.preferences?.theme === 'DARK' ? '#e5e7eb' : '#1f2937') : getTextColor(event.userIds, event.title, getLayerColor(event));
                                      const holidayClass = isHoliday ? 'opacity-70 italic bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200' : '';
                                      
-                                     const isShaking = shakeId === event.id;
 
                                      return (
                                      <div 
                                         key={event.id}
-                                        draggable={allowDragAttempt}
+                                        draggable={allowDrag}
                                         onDragStart={(e) => handleDragStart(e, event)}
+                                        onDragEnd={handleDragEnd}
                                         title={event.title}
-                                        onMouseDown={() => { ignoreClickRef.current = false; }} // Reset guard on fresh click
                                         onClick={(e) => { 
                                             e.stopPropagation();
-                                            // CHECK GUARD: If we just shook the item, ignore this click
-                                            if (ignoreClickRef.current) {
-                                                ignoreClickRef.current = false;
-                                                return;
-                                            }
-
                                             if (isHoliday) return;
                                             const original = events.find(ev => ev.id === realId);
                                             if(original) onEventClick(original, new Date(event.startTime));
@@ -959,15 +1488,19 @@ const Calendar: React.FC<CalendarProps> = ({
                                         className={`
                                             px-2 py-1.5 rounded shadow-sm truncate hover:opacity-90 transition-all flex items-center gap-2 select-none relative
                                             ${holidayClass} 
-                                            ${allowDragAttempt ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}
-                                            ${isShaking ? 'animate-shake-x ring-2 ring-red-400 z-50' : ''}
+                                            ${allowDrag ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}
                                         `}
-                                        style={!isHoliday ? { background: getEventBackground(event.userIds), color: textColor } : {}}
+                                        style={!isHoliday ? { background: getEventBackground(event.userIds, getLayerColor(event)), color: textColor, ...getCategoryStyle(event) } : {}}
                                       >
                                          {!event.isAllDay && !isHoliday && (
                                             <span className="opacity-90 text-xs font-medium tabular-nums shrink-0">{formatTime(event.startTime)}</span>
                                          )}
                                          <span className="truncate text-xs font-bold leading-tight flex-1">{event.title}</span>
+                                         {weekConflicts.has(event.id) && (
+                                            <span title={t('calendar.conflicts_with', { titles: weekConflicts.get(event.id)!.map(e => e.title).join(', ') })} className="shrink-0">
+                                                <AlertTriangle size={12} className="text-orange-500 drop-shadow" />
+                                            </span>
+                                         )}
                                          {(event.rrule || event.id.includes('_')) && <Repeat size={10} className="ml-auto opacity-70 shrink-0" />}
                                       </div>
                                  )})}
@@ -976,7 +1509,8 @@ const Calendar: React.FC<CalendarProps> = ({
                     );
                 })}
             </div>
-        )}
+           );
+        })()}
       </div>
       
       {effectiveViewMode === 'AGENDA' && selectedEventIds.size > 0 && !isSidebar && (
@@ -1039,25 +1573,613 @@ const Calendar: React.FC<CalendarProps> = ({
         </div>
       )}
 
-      {/* Portal for Drag Error Tooltip - Floats above everything */}
-      {tooltipState && createPortal(
-          <div 
-            className="fixed z-[9999] pointer-events-none animate-in zoom-in-95 fade-in duration-200"
-            style={{ 
-                left: tooltipState.x, 
-                top: tooltipState.y,
-                transform: 'translateX(-50%)'
-            }}
-          >
-             <div className="relative bg-gray-900 dark:bg-red-600 text-white text-[0.65rem] font-bold px-3 py-2 rounded-lg shadow-xl text-center max-w-[200px] border border-gray-700 dark:border-red-500">
-                 <div className="absolute bottom-full left-1/2 -translate-x-1/2 border-4 border-transparent border-b-gray-900 dark:border-b-red-600"></div>
-                 {t('calendar.drag_recurrence_error')}
-             </div>
-          </div>,
-          document.body
+      {showFindTime && (
+        <FindTimeModal
+            events={events}
+            users={users}
+            currentUserId={currentUser.id}
+            getUserColor={getUserColor}
+            locale={i18n.language}
+            formatTime={formatTime}
+            onClose={() => setShowFindTime(false)}
+            onPick={(start: Date, end: Date, userIds: string[]) => { setShowFindTime(false); onDateClick(start, end, userIds); }}
+            t={t}
+        />
+      )}
+
+      {showPrint && (
+        <PrintModal
+            defaultLayout={effectiveViewMode === 'WEEK' ? 'WEEK' : 'MONTH'}
+            shoppingCount={printShopping.length}
+            onClose={() => setShowPrint(false)}
+            onPrint={(layout: PrintLayout, includeShopping: boolean) => { setShowPrint(false); setPrintSheet({ layout, includeShopping }); }}
+            onDownload={downloadPdf}
+            t={t}
+        />
       )}
+
+      {printSheet && createPortal(
+        <PrintSheet
+            layout={printSheet.layout}
+            title={getPrintTitle(printSheet.layout)}
+            days={getPrintDays(printSheet.layout)}
+            weekdayNames={printWeekdayNames}
+            users={users}
+            getUserColor={getUserColor}
+            formatTime={formatTime}
+            locale={i18n.language}
+            shopping={printSheet.includeShopping ? printShopping : []}
+            formatQuantity={formatShoppingQuantity}
+            t={t}
+        />,
+        document.body
+      )}
+
     </div>
   );
 };
 
-export default Calendar;
\ No newline at end of file
+// --- Sub-Components ---
+
+// DAY view: all-day strip + 24h time grid with overlap layout, "now" line and click-drag to create
+const DayTimeGrid = ({ 
+    date, allDayEvents, timedEvents, locale, isDark, canEdit, canDrag, dragOverMinutes,
+    formatTime, getEventBackground, getTextColor, getLayerColor, getCategoryStyle, renderDateExtras,
+    onEventOpen, onCreateRange, onDragStart, onDragEnd, onDragOverMinutes, onDropMinutes, t 
+}: any) => {
+    const gridRef = useRef<HTMLDivElement>(null);
+    const [now, setNow] = useState(new Date());
+    const [selection, setSelection] = useState<{ anchor: number, current: number } | null>(null);
+
+    // Tick the "now" line every minute
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), 60000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const isToday = now.toDateString() === date.toDateString();
+    const nowMinutes = now.getHours() * 60 + now.getMinutes();
+    const layout = useMemo(() => layoutTimedEvents(timedEvents, date), [timedEvents, date]);
+
+    const minutesFromPointer = (clientY: number) => {
+        if (!gridRef.current) return 0;
+        const rect = gridRef.current.getBoundingClientRect();
+        const raw = ((clientY - rect.top) / HOUR_HEIGHT) * 60;
+        const snapped = Math.floor(raw / SNAP_MINUTES) * SNAP_MINUTES;
+        return Math.min(24 * 60 - SNAP_MINUTES, Math.max(0, snapped));
+    };
+
+    const toDate = (minutes: number) => {
+        const d = new Date(date);
+        d.setHours(0, 0, 0, 0);
+        d.setMinutes(minutes);
+        return d;
+    };
+
+    // --- Click-Drag to Create ---
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (!canEdit || e.button !== 0) return;
+        const minutes = minutesFromPointer(e.clientY);
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        setSelection({ anchor: minutes, current: minutes });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!selection) return;
+        const minutes = minutesFromPointer(e.clientY);
+        if (minutes !== selection.current) setSelection({ ...selection, current: minutes });
+    };
+
+    const handlePointerUp = () => {
+        if (!selection) return;
+        const start = Math.min(selection.anchor, selection.current);
+        // A plain click creates a 1 hour slot, a drag covers every slot touched
+        const end = selection.anchor === selection.current 
+            ? start + 60 
+            : Math.max(selection.anchor, selection.current) + SNAP_MINUTES;
+        setSelection(null);
+        onCreateRange(toDate(start), toDate(Math.min(end, 24 * 60)));
+    };
+
+    const selectionTop = selection ? Math.min(selection.anchor, selection.current) : 0;
+    const selectionHeight = selection ? Math.abs(selection.current - selection.anchor) + SNAP_MINUTES : 0;
+
+    return (
+        <div className="flex flex-col min-h-full">
+            {/* Day Header + All Day Strip */}
+            <div className="sticky top-0 z-20 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 px-3 py-2 flex flex-col gap-1.5 shadow-sm">
+                <div className="flex items-center justify-between">
+                    <span className={`text-sm font-bold ${isToday ? 'text-blue-600 dark:text-blue-400' : 'text-gray-700 dark:text-gray-200'}`}>
+                        {date.toLocaleDateString(locale, { weekday: 'long', month: 'long', day: 'numeric' })}
+                    </span>
+                    {renderDateExtras(date, "flex items-center gap-2")}
+                </div>
+                {allDayEvents.length > 0 && (
+                    <div className="flex flex-col gap-1">
+                        {allDayEvents.map((event: CalendarEvent) => {
+                            const isHoliday = isHolidayEvent(event);
+                            return (
+                                <div
+                                    key={event.id}
+                                    onClick={() => onEventOpen(event)}
+                                    className={`px-2 py-1 rounded text-xs font-bold truncate ${isHoliday ? 'opacity-70 italic bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-200' : 'cursor-pointer shadow-sm'}`}
+                                    style={!isHoliday ? { background: getEventBackground(event.userIds, getLayerColor(event)), color: getTextColor(event.userIds, event.title, getLayerColor(event)), ...getCategoryStyle(event) } : {}}
+                                >
+                                    {event.title}
+                                </div>
+                            );
+                        })}
+                        <span className="text-[0.6rem] font-bold text-gray-400 uppercase tracking-wider">{t('event_modal.all_day')}</span>
+                    </div>
+                )}
+            </div>
+
+            {/* Time Grid */}
+            <div className="flex">
+                <div className="w-14 shrink-0">
+                    {Array.from({ length: 24 }, (_, h) => (
+                        <div key={h} className="text-[0.6rem] font-bold text-gray-400 dark:text-gray-500 text-right pr-2 -translate-y-1.5" style={{ height: HOUR_HEIGHT }}>
+                            {h > 0 ? formatTime(toDate(h * 60).toISOString()) : ''}
+                        </div>
+                    ))}
+                </div>
+
+                <div 
+                    ref={gridRef}
+                    className={`flex-1 relative border-l border-gray-100 dark:border-gray-800 select-none ${canEdit ? 'cursor-crosshair' : ''}`}
+                    style={{ height: HOUR_HEIGHT * 24 }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={() => setSelection(null)}
+                    onDragOver={(e) => onDragOverMinutes(e, minutesFromPointer(e.clientY))}
+                    onDrop={(e) => onDropMinutes(e, minutesFromPointer(e.clientY))}
+                >
+                    {/* Hour Lines */}
+                    {Array.from({ length: 24 }, (_, h) => (
+                        <div key={h} className="absolute inset-x-0 border-t border-gray-100 dark:border-gray-800" style={{ top: h * HOUR_HEIGHT }}>
+                            <div className="border-t border-dashed border-gray-50 dark:border-gray-800/50" style={{ marginTop: HOUR_HEIGHT / 2 }} />
+                        </div>
+                    ))}
+
+                    {/* Drop Indicator */}
+                    {dragOverMinutes !== null && dragOverMinutes !== undefined && (
+                        <div className="absolute inset-x-0 h-0.5 bg-blue-500 z-20 pointer-events-none" style={{ top: (dragOverMinutes / 60) * HOUR_HEIGHT }} />
+                    )}
+
+                    {/* Selection (click-drag to create) */}
+                    {selection && (
+                        <div 
+                            className="absolute inset-x-1 rounded bg-blue-500/20 border-2 border-blue-500 z-20 pointer-events-none px-2 py-0.5 text-[0.65rem] font-bold text-blue-700 dark:text-blue-300"
+                            style={{ top: (selectionTop / 60) * HOUR_HEIGHT, height: (selectionHeight / 60) * HOUR_HEIGHT }}
+                        >
+                            {formatTime(toDate(selectionTop).toISOString())}
+                        </div>
+                    )}
+
+                    {/* Events */}
+                    {layout.map(({ event, start, end, col, cols }: TimedLayout) => {
+                        // Travel time: hatched block before the start, only on the day it starts
+                        const travel = event.travelMinutes && new Date(event.startTime).toDateString() === date.toDateString()
+                            ? Math.min(event.travelMinutes, start) : 0;
+                        return (
+                        <React.Fragment key={event.id}>
+                        {travel > 0 && (
+                            <div
+                                className="absolute rounded-t border border-dashed border-gray-300 dark:border-gray-600 pointer-events-none px-1.5 text-[0.6rem] font-bold text-gray-500 dark:text-gray-400 truncate"
+                                style={{
+                                    top: ((start - travel) / 60) * HOUR_HEIGHT,
+                                    height: (travel / 60) * HOUR_HEIGHT,
+                                    left: `calc(${(col / cols) * 100}% + 2px)`,
+                                    width: `calc(${100 / cols}% - 4px)`,
+                                    backgroundImage: `repeating-linear-gradient(45deg, ${isDark ? '#374151' : '#e5e7eb'} 0 4px, transparent 4px 8px)`
+                                }}
+                                title={t('calendar.travel_block', { count: event.travelMinutes })}
+                            >
+                                {travel >= 20 && t('calendar.travel_block', { count: event.travelMinutes })}
+                            </div>
+                        )}
+                        <div
+                            draggable={canDrag && !event.subscriptionId}
+                            onDragStart={(e) => onDragStart(e, event)}
+                            onDragEnd={onDragEnd}
+                            onPointerDown={(e) => e.stopPropagation()}
+                            onClick={(e) => { e.stopPropagation(); onEventOpen(event); }}
+                            title={event.title}
+                            className={`absolute rounded px-1.5 py-0.5 overflow-hidden shadow-sm border border-white/70 dark:border-gray-900/70 hover:opacity-90 z-10 ${canDrag ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}`}
+                            style={{
+                                top: (start / 60) * HOUR_HEIGHT,
+                                height: Math.max(((end - start) / 60) * HOUR_HEIGHT, 18),
+                                left: `calc(${(col / cols) * 100}% + 2px)`,
+                                width: `calc(${100 / cols}% - 4px)`,
+                                background: getEventBackground(event.userIds, getLayerColor(event)),
+                                color: getTextColor(event.userIds, event.title, getLayerColor(event)),
+                                ...getCategoryStyle(event)
+                            }}
+                        >
+                            <div className="text-xs font-bold leading-tight truncate flex items-center gap-1">
+                                {event.title}
+                                {event.id.includes('_') && <Repeat size={10} className="opacity-70 shrink-0" />}
+                            </div>
+                            {(end - start) >= 45 && (
+                                <div className="text-[0.6rem] opacity-90 tabular-nums truncate">
+                                    {formatTime(event.startTime)}{event.endTime ? ` - ${formatTime(event.endTime)}` : ''}
+                                </div>
+                            )}
+                        </div>
+                        </React.Fragment>
+                        );
+                    })}
+
+                    {/* Now Line */}
+                    {isToday && (
+                        <div className="absolute inset-x-0 z-30 pointer-events-none flex items-center" style={{ top: (nowMinutes / 60) * HOUR_HEIGHT }}>
+                            <div className={`w-2 h-2 rounded-full -ml-1 ${isDark ? 'bg-red-400' : 'bg-red-500'}`} />
+                            <div className={`flex-1 h-0.5 ${isDark ? 'bg-red-400' : 'bg-red-500'}`} />
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// "Find a time": free windows shared by the chosen members, picking one opens a pre-filled new event
+const FIND_TIME_DURATIONS = [30, 60, 90, 120, 180];
+
+const FindTimeModal = ({ events, users, currentUserId, getUserColor, locale, formatTime, onClose, onPick, t }: any) => {
+    const [userIds, setUserIds] = useState<string[]>(users.map((u: User) => u.id));
+    const [duration, setDuration] = useState(60);
+    const [from, setFrom] = useState(() => toLocalDateString(new Date()));
+    const [to, setTo] = useState(() => { const d = new Date(); d.setDate(d.getDate() + 13); return toLocalDateString(d); });
+    const [dayStart, setDayStart] = useState('17:00');
+    const [dayEnd, setDayEnd] = useState('21:00');
+
+    const slots: FreeSlot[] = useMemo(() => {
+        const [fy, fm, fd] = from.split('-').map(Number);
+        const [ty, tm, td] = to.split('-').map(Number);
+        if (!fy || !ty) return [];
+        return findFreeSlots(events, users, {
+            userIds, durationMinutes: duration, from: new Date(fy, fm - 1, fd), to: new Date(ty, tm - 1, td), dayStart, dayEnd
+        });
+    }, [events, users, userIds, duration, from, to, dayStart, dayEnd]);
+
+    // One row per day
+    const byDay = useMemo(() => {
+        const groups: { day: Date, slots: FreeSlot[] }[] = [];
+        slots.forEach(slot => {
+            const last = groups[groups.length - 1];
+            if (last && last.day.toDateString() === slot.start.toDateString()) last.slots.push(slot);
+            else groups.push({ day: slot.start, slots: [slot] });
+        });
+        return groups;
+    }, [slots]);
+
+    const toggleUser = (id: string) => {
+        setUserIds(userIds.includes(id) ? userIds.filter(u => u !== id) : [...userIds, id]);
+    };
+
+    const inputClass = "bg-gray-50 dark:bg-gray-700 rounded-lg px-2 py-1.5 text-xs font-bold text-gray-700 dark:text-gray-200 outline-none focus:ring-2 focus:ring-blue-100 dark:focus:ring-blue-900";
+    const labelClass = "text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-1 block";
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col max-h-[85vh] animate-in zoom-in-95" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+                    <h3 className="text-sm font-bold text-gray-700 dark:text-gray-200 uppercase tracking-wide flex items-center gap-2"><CalendarSearch size={16} /> {t('calendar.find_time')}</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-full"><X size={18} className="text-gray-500 dark:text-gray-400"/></button>
+                </div>
+
+                <div className="p-4 space-y-3 border-b border-gray-100 dark:border-gray-700">
+                    <div>
+                        <span className={labelClass}>{t('calendar.find_time_who')}</span>
+                        <div className="flex flex-wrap gap-2">
+                            {users.map((u: User) => {
+                                const isSelected = userIds.includes(u.id);
+                                return (
+                                    <button
+                                        key={u.id}
+                                        onClick={() => toggleUser(u.id)}
+                                        className={`flex items-center gap-1.5 pl-1 pr-2.5 py-1 rounded-full border-2 text-xs font-bold transition-all ${isSelected ? 'text-gray-800 dark:text-gray-100' : 'opacity-50 grayscale text-gray-400'}`}
+                                        style={{ borderColor: getUserColor(u) }}
+                                    >
+                                        <span className="w-5 h-5 rounded-full flex items-center justify-center text-sm overflow-hidden">
+                                            {u.photoUrl ? <img src={u.photoUrl} alt="" className="w-full h-full object-cover" /> : u.avatar}
+                                        </span>
+                                        {u.username.split(' ')[0]}{u.id === currentUserId ? ` (${t('calendar.me')})` : ''}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="flex flex-col">
+                            <span className={labelClass}>{t('calendar.find_time_duration')}</span>
+                            <select value={duration} onChange={(e) => setDuration(Number(e.target.value))} className={inputClass}>
+                                {FIND_TIME_DURATIONS.map(m => <option key={m} value={m}>{m % 60 === 0 ? t('calendar.hours', { count: m / 60 }) : t('calendar.minutes', { count: m })}</option>)}
+                            </select>
+                        </label>
+                        <div className="flex flex-col">
+                            <span className={labelClass}>{t('calendar.find_time_between')}</span>
+                            <div className="flex items-center gap-1">
+                                <input type="time" value={dayStart} onChange={(e) => setDayStart(e.target.value)} aria-label={t('calendar.find_time_from_hour')} className={`${inputClass} flex-1 min-w-0`} />
+                                <span className="text-gray-400">-</span>
+                                <input type="time" value={dayEnd} onChange={(e) => setDayEnd(e.target.value)} aria-label={t('calendar.find_time_to_hour')} className={`${inputClass} flex-1 min-w-0`} />
+                            </div>
+                        </div>
+                        <label className="flex flex-col">
+                            <span className={labelClass}>{t('calendar.find_time_from')}</span>
+                            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+                        </label>
+                        <label className="flex flex-col">
+                            <span className={labelClass}>{t('calendar.find_time_to')}</span>
+                            <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+                        </label>
+                    </div>
+                    <p className="text-[0.65rem] text-gray-400 italic">{t('calendar.find_time_hint')}</p>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+                    {userIds.length === 0 ? (
+                        <p className="text-center text-xs text-gray-400 italic py-4">{t('calendar.find_time_pick_someone')}</p>
+                    ) : byDay.length === 0 ? (
+                        <p className="text-center text-xs text-gray-400 italic py-4">{t('calendar.find_time_none')}</p>
+                    ) : byDay.map(({ day, slots }) => (
+                        <div key={day.toDateString()}>
+                            <div className="text-xs font-bold text-gray-700 dark:text-gray-200 mb-1.5">{day.toLocaleDateString(locale, { weekday: 'long', day: 'numeric', month: 'long' })}</div>
+                            <div className="flex flex-wrap gap-2">
+                                {slots.map(slot => (
+                                    <button
+                                        key={slot.start.getTime()}
+                                        onClick={() => onPick(slot.start, new Date(slot.start.getTime() + duration * 60000), userIds)}
+                                        title={t('calendar.find_time_create')}
+                                        className="px-3 py-1.5 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 text-xs font-bold tabular-nums hover:bg-green-100 dark:hover:bg-green-900/40 transition-colors"
+                                    >
+                                        {formatTime(slot.start.toISOString())} - {formatTime(slot.end.toISOString())}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const PrintModal = ({ defaultLayout, shoppingCount, onClose, onPrint, onDownload, t }: any) => {
+    const [layout, setLayout] = useState<PrintLayout>(defaultLayout);
+    const [includeShopping, setIncludeShopping] = useState(false);
+    const [isGenerating, setIsGenerating] = useState(false);
+
+    const handleDownload = async () => {
+        setIsGenerating(true);
+        try {
+            await onDownload(layout, includeShopping);
+            onClose();
+        } catch (e) {
+            console.error("PDF export failed", e);
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const layoutButton = (value: PrintLayout, label: string) => (
+        <button
+            onClick={() => setLayout(value)}
+            className={`flex-1 py-2 rounded-lg text-xs font-bold border transition-all ${layout === value ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' : 'border-gray-200 dark:border-gray-600 text-gray-500 dark:text-gray-400'}`}
+        >
+            {label}
+        </button>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden animate-in zoom-in-95" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+                    <h3 className="text-sm font-bold text-gray-700 dark:text-gray-200 uppercase tracking-wide flex items-center gap-2"><Printer size={16} /> {t('calendar.print')}</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-full"><X size={18} className="text-gray-500 dark:text-gray-400"/></button>
+                </div>
+
+                <div className="p-4 space-y-4">
+                    <div className="flex gap-2">
+                        {layoutButton('MONTH', t('calendar.print_month'))}
+                        {layoutButton('WEEK', t('calendar.print_week'))}
+                    </div>
+                    <label className={`flex items-center gap-2 text-xs font-bold text-gray-600 dark:text-gray-300 ${shoppingCount === 0 ? 'opacity-40' : 'cursor-pointer'}`}>
+                        <input
+                            type="checkbox"
+                            checked={includeShopping && shoppingCount > 0}
+                            disabled={shoppingCount === 0}
+                            onChange={(e) => setIncludeShopping(e.target.checked)}
+                            className="rounded text-blue-600 focus:ring-0 w-4 h-4 border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+                        />
+                        {t('calendar.print_include_shopping', { count: shoppingCount })}
+                    </label>
+                    <div className="flex gap-2">
+                        <button onClick={() => onPrint(layout, includeShopping && shoppingCount > 0)} className="flex-1 flex items-center justify-center gap-2 bg-white dark:bg-gray-800 border border-blue-200 dark:border-blue-700 rounded-lg py-2 text-xs font-bold text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/50">
+                            <Printer size={16} /> {t('calendar.print_action')}
+                        </button>
+                        <button onClick={handleDownload} disabled={isGenerating} className="flex-1 flex items-center justify-center gap-2 bg-blue-600 text-white rounded-lg py-2 text-xs font-bold hover:bg-blue-700 disabled:opacity-50">
+                            {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <FileDown size={16} />} {t('calendar.print_pdf')}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// 12 mini-months: a dot per busy member, holidays highlighted; a day opens its week, a month name the month
+const YearGrid = ({ year, weekStart, marks, users, getUserColor, locale, onDayClick, onMonthClick, t }: any) => {
+    const todayKey = toLocalDateString(new Date());
+    const weekdayInitials = Array.from({ length: 7 }, (_, i) => {
+        const d = new Date(2024, 0, 7 + weekStart + i); // 7 Jan 2024 is a Sunday
+        return d.toLocaleDateString(locale, { weekday: 'narrow' });
+    });
+
+    return (
+        <div className="p-3 md:p-4 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3 md:gap-4">
+                {Array.from({ length: 12 }, (_, month) => {
+                    const first = new Date(year, month, 1);
+                    const daysInMonth = new Date(year, month + 1, 0).getDate();
+                    const cells: (Date | null)[] = [
+                        ...Array(getWeekdayIndex(first, weekStart)).fill(null),
+                        ...Array.from({ length: daysInMonth }, (_, i) => new Date(year, month, i + 1))
+                    ];
+                    return (
+                        <div key={month} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-3 shadow-sm">
+                            <button onClick={() => onMonthClick(first)} className="text-sm font-bold capitalize text-gray-800 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 mb-2">
+                                {first.toLocaleDateString(locale, { month: 'long' })}
+                            </button>
+                            <div className="grid grid-cols-7 gap-y-0.5 text-center">
+                                {weekdayInitials.map((initial, i) => (
+                                    <span key={i} className="text-[0.6rem] font-bold text-gray-400 dark:text-gray-500 uppercase">{initial}</span>
+                                ))}
+                                {cells.map((date, i) => {
+                                    if (!date) return <span key={i} />;
+                                    const key = toLocalDateString(date);
+                                    const mark = marks.get(key);
+                                    const isHoliday = !!mark?.holidays.length;
+                                    const tooltip = [...(mark?.holidays || []), ...(mark?.titles || [])].join('\n');
+                                    return (
+                                        <button
+                                            key={key}
+                                            onClick={() => onDayClick(date)}
+                                            title={tooltip || undefined}
+                                            className={`flex flex-col items-center rounded-md pt-0.5 text-[0.7rem] leading-tight transition-colors ${key === todayKey ? 'ring-2 ring-blue-500 font-bold' : ''} ${isHoliday ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200 font-bold' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                                            style={mark?.tint && !isHoliday ? { backgroundColor: `${mark.tint}33` } : undefined}
+                                        >
+                                            <span>{date.getDate()}</span>
+                                            <span className="flex gap-px h-1.5 items-center">
+                                                {(mark?.colors || []).slice(0, 4).map((color: string) => (
+                                                    <span key={color} className="w-1 h-1 rounded-full" style={{ backgroundColor: color }} />
+                                                ))}
+                                            </span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-[0.65rem] font-bold text-gray-500 dark:text-gray-400">
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-amber-100 dark:bg-amber-900/40 border border-amber-300 dark:border-amber-700" /> {t('calendar.year_holidays')}</span>
+                {users.map((u: User) => (
+                    <span key={u.id} className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ backgroundColor: getUserColor(u) }} /> {u.username}</span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const PRINT_MOON_ICONS: Record<string, string> = { 'moon.new_moon': '🌑', 'moon.first_quarter': '🌓', 'moon.full_moon': '🌕', 'moon.last_quarter': '🌗' };
+
+// Paper version of the MONTH grid / WEEK agenda, only visible when printing (portal outside #root)
+const PrintSheet = ({ layout, title, days, weekdayNames, users, getUserColor, formatTime, locale, shopping, formatQuantity, t }: any) => {
+    const swatches = (event: CalendarEvent) => {
+        const eventUsers = users.filter((u: User) => event.userIds.includes(u.id));
+        return (
+            <span className="inline-flex gap-px mr-1 align-middle">
+                {(eventUsers.length ? eventUsers.map(getUserColor) : ['#9ca3af']).map((color: string, i: number) => (
+                    <span key={i} className="inline-block w-1.5 h-1.5" style={{ backgroundColor: color }} />
+                ))}
+            </span>
+        );
+    };
+
+    const moon = (label?: string | null) => label && PRINT_MOON_ICONS[label] ? <span title={t(label)}>{PRINT_MOON_ICONS[label]}</span> : null;
+
+    const rows: PrintDay[][] = [];
+    for (let i = 0; i < days.length; i += 7) rows.push(days.slice(i, i + 7));
+
+    return (
+        <div className="print-sheet bg-white text-gray-900 font-sans">
+            <style>{`@page { size: A4 ${layout === 'MONTH' ? 'landscape' : 'portrait'}; margin: 10mm; }`}</style>
+            <div className="flex justify-between items-baseline mb-2">
+                <h1 className="text-xl font-bold capitalize">{title}</h1>
+                <span className="text-[0.6rem] text-gray-500">{t('calendar.print_printed', { date: new Date().toLocaleDateString(locale) })}</span>
+            </div>
+
+            {layout === 'MONTH' ? (
+                <table className="w-full table-fixed border-collapse text-[0.55rem] leading-tight">
+                    <thead>
+                        <tr>{weekdayNames.map((name: string) => <th key={name} className="py-1 uppercase text-gray-500">{name}</th>)}</tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, r) => (
+                            <tr key={r}>
+                                {row.map((day, i) => (
+                                    <td key={i} className={`border border-gray-300 align-top p-1 h-[27mm] overflow-hidden ${day.date ? '' : 'bg-gray-100'}`}>
+                                        {day.date && (
+                                            <>
+                                                <div className="flex justify-between font-bold text-[0.7rem]"><span>{day.date.getDate()}</span>{moon(day.moon)}</div>
+                                                {day.events.map((event: CalendarEvent) => isHolidayEvent(event) ? (
+                                                    <div key={event.id} className="italic text-gray-500 truncate">{event.title}</div>
+                                                ) : (
+                                                    <div key={event.id} className={`truncate ${event.isAllDay ? 'font-bold' : ''}`}>
+                                                        {swatches(event)}{!event.isAllDay && `${formatTime(event.startTime)} `}{event.title}
+                                                    </div>
+                                                ))}
+                                            </>
+                                        )}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <div className="space-y-2 text-xs">
+                    {days.map((day: PrintDay) => day.date && (
+                        <div key={day.date.toISOString()} className="break-inside-avoid">
+                            <div className="flex items-center gap-2 bg-gray-100 px-2 py-1 font-bold">
+                                <span className="capitalize">{day.date.toLocaleDateString(locale, { weekday: 'long', day: 'numeric', month: 'long' })}</span>
+                                {moon(day.moon)}
+                                <span className="italic font-normal text-gray-500 truncate">{day.events.filter(isHolidayEvent).map((e: CalendarEvent) => e.title).join(' · ')}</span>
+                            </div>
+                            {day.events.filter((e: CalendarEvent) => !isHolidayEvent(e)).map((event: CalendarEvent) => (
+                                <div key={event.id} className="flex gap-2 px-2 py-0.5">
+                                    <span className="w-28 shrink-0 text-gray-500">{event.isAllDay ? t('event_modal.all_day') : `${formatTime(event.startTime)} – ${formatTime(event.endTime)}`}</span>
+                                    <span>{swatches(event)}</span>
+                                    <span className="flex-1">
+                                        <span className="font-bold">{event.title}</span>
+                                        <span className="text-gray-500">
+                                            {[users.filter((u: User) => event.userIds.includes(u.id)).map((u: User) => u.username).join(', '), event.location].filter(Boolean).map(text => ` · ${text}`).join('')}
+                                        </span>
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Participant color legend */}
+            <div className="flex flex-wrap gap-4 mt-2 text-[0.65rem]">
+                {users.map((u: User) => (
+                    <span key={u.id} className="flex items-center gap-1"><span className="inline-block w-2.5 h-2.5" style={{ backgroundColor: getUserColor(u) }} /> {u.username}</span>
+                ))}
+            </div>
+
+            {shopping.length > 0 && (
+                <div className="print-page-break">
+                    <h1 className="text-xl font-bold mb-3">{t('lists.shopping')}</h1>
+                    <div className="columns-2 gap-8 text-sm">
+                        {shopping.map((item: ShoppingItem) => (
+                            <div key={item.id} className="flex items-start gap-2 py-1 break-inside-avoid">
+                                <span className="inline-block w-3.5 h-3.5 border border-gray-700 mt-0.5 shrink-0" />
+                                <span>{item.content}{formatQuantity(item) && <b> ({formatQuantity(item)})</b>}{item.note && <span className="block text-xs text-gray-500">{item.note}</span>}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Calendar;
@@ -1,13 +1,16 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { CalendarEvent, User, RecurrenceFreq } from '../types';
-import { toLocalDateString } from '../constants';
-import { X, Trash2, Save, Calendar as CalIcon, Repeat, Check, Infinity as InfinityIcon, AlertCircle, RefreshCw, Info, Undo, Clock } from 'lucide-react';
+import { CalendarEvent, User, RecurrenceFreq, RecurrenceRule, RecurrenceWeekday, SystemSettings, EventCategory } from '../types';
+import { X, Trash2, Save, Calendar as CalIcon, Repeat, Check, Infinity as InfinityIcon, AlertCircle, RefreshCw, Info, Undo, Clock, Hash, Plus, Globe, Bell, MapPin, Search, Loader2, ExternalLink, Car, AlertTriangle, Tag } from 'lucide-react';
 import { useUser } from '../contexts/UserContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useTranslation } from 'react-i18next';
 import DatePicker from 'react-datepicker';
-import { createRRule, parseRRule } from '../services/recurrence';
+import { createRRule, parseRRule, splitRRule, moveOverridesToTail, splitByDay, getWeekdayCode, getOrdinalWeekdayToken, getOccurrenceDateKey, WEEKDAY_CODES } from '../services/recurrence';
+import { getBrowserTimeZone, getDefaultTimeZone, getSupportedTimeZones, zonedTimeToUtc } from '../services/timezone';
+import { findConflicts, EventConflict } from '../services/conflicts';
+import { REMINDER_PRESETS, TRAVEL_PRESETS, getReminderUnit, toLocalDateString, getWeekStart } from '../constants';
+import { searchCity, fetchPlaceWeather, getDistanceKm, getMapUrl, getWeatherIcon, getWeatherDescriptionKey, WeatherData } from '../services/integrations';
 import { v4 as uuidv4 } from 'uuid';
 
 interface EventModalProps {
@@ -15,21 +18,35 @@ interface EventModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (event: CalendarEvent) => void;
+  onSaveMany: (events: CalendarEvent[]) => void; // Atomic multi-record save (series splits / overrides)
   onDelete: (id: string) => void;
   initialDate?: Date; // For creating new events OR referencing specific instance clicked
+  initialEndDate?: Date; // New events only: explicit end (time range picked on the DAY grid)
+  initialUserIds?: string[]; // New events only: participants picked beforehand ("Find a time")
+  settings?: SystemSettings; // Household location: no separate forecast for places nearby
+  events?: CalendarEvent[]; // Everything stored, to warn about double-booked members
+  eventCategories?: EventCategory[]; // Household categories, picked as CATEGORIES tags
 }
 
 const EventModal: React.FC<EventModalProps> = ({ 
-  event, isOpen, onClose, onSave, onDelete, initialDate 
+  event, isOpen, onClose, onSave, onSaveMany, onDelete, initialDate, initialEndDate, initialUserIds, settings, events = [], eventCategories = [] 
 }) => {
   const { users, currentUser } = useUser();
   const { activePalette, getUserColor } = useTheme();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [formData, setFormData] = useState<Partial<CalendarEvent>>({});
   const [initialState, setInitialState] = useState<string>(''); // For dirty checking
   const [deleteStage, setDeleteStage] = useState<'IDLE' | 'SERIES_CHOICE'>('IDLE');
+  const [saveStage, setSaveStage] = useState<'IDLE' | 'CONFLICTS' | 'SERIES_CHOICE'>('IDLE');
+  const [conflicts, setConflicts] = useState<EventConflict[]>([]);
   const [showRecurrence, setShowRecurrence] = useState(false);
   const [isComplexRule, setIsComplexRule] = useState(false); // New Guardrail
+  const [monthDayText, setMonthDayText] = useState(''); // Raw BYMONTHDAY input ("1, 15, -1")
+  const [newOrdinal, setNewOrdinal] = useState(1); // "Add weekday" picker (0 = every)
+  const [newWeekday, setNewWeekday] = useState<RecurrenceWeekday>('MO');
+  const [placeResults, setPlaceResults] = useState<any[] | null>(null); // null = no search yet
+  const [isSearchingPlace, setIsSearchingPlace] = useState(false);
+  const [placeWeather, setPlaceWeather] = useState<WeatherData | null>(null);
 
   // Hook: Check if we are compliant with React Rules (must be top level)
   // Sort Exdates Chronologically - Moved to top to prevent conditional hook error
@@ -41,7 +58,10 @@ const EventModal: React.FC<EventModalProps> = ({
   useEffect(() => {
     if (isOpen) {
       setDeleteStage('IDLE');
+      setSaveStage('IDLE');
       setIsComplexRule(false);
+      setMonthDayText('');
+      setPlaceResults(null);
       
       let initData: Partial<CalendarEvent> = {};
       let showRec = false;
@@ -58,6 +78,7 @@ const EventModal: React.FC<EventModalProps> = ({
             const parsed = parseRRule(event.rrule);
             if (parsed) {
                 recurrenceState = parsed;
+                setMonthDayText((parsed.byMonthDay || []).join(', '));
             } else {
                 setIsComplexRule(true); // Valid RRULE but too complex for our UI
             }
@@ -82,14 +103,17 @@ const EventModal: React.FC<EventModalProps> = ({
       } else {
         // New Event
         const start = initialDate ? new Date(initialDate) : new Date();
-        start.setHours(9, 0, 0, 0); 
+        // A picked time range keeps its exact times, a plain date click defaults to 9:00
+        if (!initialEndDate) start.setHours(9, 0, 0, 0); 
         
         initData = {
           title: '',
           description: '',
           startTime: start.toISOString(),
-          userIds: [currentUser.id],
-          isAllDay: false
+          endTime: initialEndDate ? initialEndDate.toISOString() : undefined,
+          userIds: initialUserIds?.length ? [...initialUserIds] : [currentUser.id],
+          isAllDay: false,
+          timeZone: getDefaultTimeZone()
         };
         setShowRecurrence(false);
       }
@@ -100,14 +124,34 @@ const EventModal: React.FC<EventModalProps> = ({
       if (initData.userIds) initData.userIds.sort();
       setInitialState(JSON.stringify(initData));
     }
-  }, [isOpen, event, initialDate, currentUser.id]);
+  }, [isOpen, event, initialDate, initialEndDate, initialUserIds, currentUser.id]);
+
+  // Any edit makes the double-booking warning stale
+  useEffect(() => {
+      setSaveStage(stage => stage === 'CONFLICTS' ? 'IDLE' : stage);
+  }, [formData]);
+
+  // Forecast at the event's place, on the day of the clicked instance (the household one is already on the calendar)
+  useEffect(() => {
+      setPlaceWeather(null);
+      const { locationLat: lat, locationLon: lon, startTime } = formData;
+      if (!isOpen || lat === undefined || lon === undefined || !startTime || settings?.weatherEnabled === false) return;
+      if (settings?.weatherLat && settings?.weatherLon && getDistanceKm(lat, lon, settings.weatherLat, settings.weatherLon) < 25) return;
+
+      const day = toLocalDateString(event?.rrule && initialDate ? initialDate : new Date(startTime));
+      let cancelled = false;
+      fetchPlaceWeather(lat, lon).then(data => {
+          if (!cancelled) setPlaceWeather(data.find(d => d.date === day) || null);
+      });
+      return () => { cancelled = true; };
+  }, [isOpen, formData.locationLat, formData.locationLon, formData.startTime, event, initialDate, settings]);
 
   if (!isOpen) return null;
 
-  const handleSave = (e: React.MouseEvent) => {
-    e.stopPropagation();
+  // Builds the edited event from the form (the series master when editing a recurring event)
+  const buildEvent = (): CalendarEvent | null => {
     if (!formData.title?.trim() || !formData.startTime) {
-        return;
+        return null;
     }
     
     // Generate RRULE
@@ -117,11 +161,7 @@ const EventModal: React.FC<EventModalProps> = ({
             // Preserve existing complex rule if we are just editing Title/Time
             rruleStr = event?.rrule;
         } else if (formData.recurrence?.freq && formData.startTime) {
-            rruleStr = createRRule(
-                formData.recurrence.freq, 
-                new Date(formData.startTime), 
-                formData.recurrence.until ? new Date(formData.recurrence.until) : undefined
-            );
+            rruleStr = createRRule(formData.recurrence, new Date(formData.startTime));
         }
     }
 
@@ -135,20 +175,21 @@ const EventModal: React.FC<EventModalProps> = ({
         // If we moved the start time, we should preserve the DURATION of the event
         const originalDuration = (event && event.endTime && event.startTime) 
             ? new Date(event.endTime).getTime() - new Date(event.startTime).getTime()
-            : 3600000;
+            : (!event && initialDate && initialEndDate) 
+                ? initialEndDate.getTime() - initialDate.getTime() 
+                : 3600000;
             
         finalEnd = new Date(new Date(finalStart).getTime() + originalDuration).toISOString();
     }
 
-    // Standardize All Day events to Midnight Local
+    // Standardize All Day events to Midnight in the household zone (the picked day, see getEventTimeZone)
     if (formData.isAllDay) {
-        const d = new Date(finalStart);
-        d.setHours(0,0,0,0);
-        finalStart = d.toISOString();
-        
-        const e = new Date(finalEnd || finalStart);
-        e.setHours(0,0,0,0);
-        finalEnd = e.toISOString();
+        const toHouseholdMidnight = (iso: string) => {
+            const d = new Date(iso);
+            return zonedTimeToUtc({ year: d.getFullYear(), month: d.getMonth() + 1, day: d.getDate(), hour: 0, minute: 0, second: 0 }, getDefaultTimeZone()).toISOString();
+        };
+        finalStart = toHouseholdMidnight(finalStart);
+        finalEnd = toHouseholdMidnight(finalEnd || finalStart);
     }
 
     const newEvent: CalendarEvent = {
@@ -159,11 +200,33 @@ const EventModal: React.FC<EventModalProps> = ({
       endTime: finalEnd,
       userIds: formData.userIds || [],
       isAllDay: !!formData.isAllDay,
+      // All-day events are plain dates, a zone would only shift them
+      timeZone: formData.isAllDay ? undefined : (formData.timeZone || undefined),
       rrule: rruleStr,
       icalUID: event?.icalUID || uuidv4(), // Generate UID immediately for local deduping
-      exdates: formData.exdates 
+      exdates: formData.exdates,
+      location: formData.location?.trim() || undefined,
+      locationLat: formData.location?.trim() ? formData.locationLat : undefined,
+      locationLon: formData.location?.trim() ? formData.locationLon : undefined,
+      travelMinutes: formData.location?.trim() && !formData.isAllDay ? formData.travelMinutes || undefined : undefined,
+      categories: formData.categories?.length ? formData.categories : undefined,
+      reminders: formData.reminders?.length ? formData.reminders : undefined
     };
 
+    // Overrides keep their link to the master series
+    if (event?.recurringEventId) {
+        newEvent.recurringEventId = event.recurringEventId;
+        newEvent.recurrenceId = event.recurrenceId;
+    }
+
+    return newEvent;
+  };
+
+  const handleSave = (e: React.MouseEvent, ignoreConflicts = false) => {
+    e.stopPropagation();
+    const newEvent = buildEvent();
+    if (!newEvent) return;
+
     // Dirty Check: If the object is identical to the original, skip save to avoid phantom history
     if (event) {
         // Create clean copies for comparison
@@ -176,10 +239,118 @@ const EventModal: React.FC<EventModalProps> = ({
         }
     }
 
+    // Double-booking: list who is already busy elsewhere, saving anyway stays possible
+    if (!ignoreConflicts) {
+        const found = findConflicts(newEvent, events);
+        if (found.length > 0) {
+            setConflicts(found);
+            setSaveStage('CONFLICTS');
+            return;
+        }
+    }
+
+    // Opened from a specific occurrence of a series: ask what the edit applies to
+    if (event?.rrule && initialDate) {
+        setSaveStage('SERIES_CHOICE');
+        return;
+    }
+
     onSave(newEvent);
     onClose();
   };
 
+  // The form shows the SERIES START. Whatever shift the user applied to it (date/time)
+  // is applied to the clicked occurrence as well.
+  const getInstanceShift = (newEvent: CalendarEvent) => {
+      return new Date(newEvent.startTime).getTime() - new Date(event!.startTime).getTime();
+  };
+
+  const handleSaveSeries = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      const newEvent = buildEvent();
+      if (!newEvent) return;
+      onSave(newEvent);
+      onClose();
+  };
+
+  // "Only this occurrence": create an override record (RECURRENCE-ID) linked to the master
+  const handleSaveOccurrence = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      const newEvent = buildEvent();
+      if (!newEvent || !event || !initialDate) return;
+
+      const duration = new Date(newEvent.endTime!).getTime() - new Date(newEvent.startTime).getTime();
+      const start = new Date(initialDate.getTime() + getInstanceShift(newEvent));
+
+      // Everything from the form (reminders, location, zone, categories...), minus the recurrence
+      const override: CalendarEvent = {
+          ...newEvent,
+          id: Date.now().toString(),
+          startTime: start.toISOString(),
+          endTime: new Date(start.getTime() + duration).toISOString(),
+          rrule: undefined,
+          exdates: undefined,
+          recurrence: undefined,
+          icalUID: event.icalUID, // Same UID as the series, as per RFC 5545
+          recurringEventId: event.id,
+          recurrenceId: initialDate.toISOString()
+      };
+
+      onSaveMany([override]);
+      onClose();
+  };
+
+  // "This and following": end the master before this occurrence and fork a new series from here
+  const handleSaveFollowing = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      const newEvent = buildEvent();
+      if (!newEvent || !event || !initialDate) return;
+
+      const duration = new Date(newEvent.endTime!).getTime() - new Date(newEvent.startTime).getTime();
+      const tailStart = new Date(initialDate.getTime() + getInstanceShift(newEvent));
+      const split = splitRRule(event, initialDate, tailStart);
+
+      // Clicked the first occurrence: "this and following" IS the whole series
+      if (!split) {
+          handleSaveSeries(e);
+          return;
+      }
+
+      // Keep the tail's COUNT consistent unless the user changed it in the form
+      let tailRRule = split.tailRRule;
+      if (newEvent.rrule && !isComplexRule && formData.recurrence) {
+          const originalCount = event.rrule ? parseRRule(event.rrule)?.count : undefined;
+          const count = formData.recurrence.count === originalCount ? split.tailCount : formData.recurrence.count;
+          tailRRule = createRRule({ ...formData.recurrence, count }, tailStart);
+      }
+
+      const splitDateStr = getOccurrenceDateKey(event, initialDate);
+      const head: CalendarEvent = {
+          ...event,
+          rrule: split.headRRule,
+          exdates: (event.exdates || []).filter(d => d < splitDateStr)
+      };
+      const tail: CalendarEvent = {
+          ...newEvent,
+          id: Date.now().toString(),
+          icalUID: uuidv4(), // A forked series is a new series
+          startTime: tailStart.toISOString(),
+          endTime: new Date(tailStart.getTime() + duration).toISOString(),
+          rrule: newEvent.rrule ? tailRRule : undefined,
+          exdates: (newEvent.exdates || []).filter(d => d >= splitDateStr)
+      };
+      // Occurrences edited after the split are not lost with the head's shorter rule
+      const movedOverrides = moveOverridesToTail(events, event, initialDate, tail, getInstanceShift(newEvent));
+
+      onSaveMany([head, tail, ...movedOverrides]);
+      onClose();
+  };
+
+  const handleCancelSave = (e: React.MouseEvent) => {
+      e.stopPropagation();
+      setSaveStage('IDLE');
+  };
+
   const handleDeleteClick = (e: React.MouseEvent) => {
       e.stopPropagation();
       e.preventDefault();
@@ -204,7 +375,7 @@ const EventModal: React.FC<EventModalProps> = ({
       // Delete the SPECIFIC INSTANCE that was clicked (initialDate), 
       // even if the form is currently showing the Series Start Date.
       const targetDate = initialDate ? initialDate : new Date(formData.startTime!);
-      const instanceDateStr = toLocalDateString(targetDate);
+      const instanceDateStr = getOccurrenceDateKey(event, targetDate);
       
       const currentExdates = event.exdates || [];
       const updatedExdates = [...currentExdates, instanceDateStr];
@@ -255,6 +426,48 @@ const EventModal: React.FC<EventModalProps> = ({
       return `${d.getHours().toString().padStart(2, '0')}:${d.getMinutes().toString().padStart(2, '0')}`;
   }
 
+  const formatReminder = (minutes: number) => {
+      const { unit, count } = getReminderUnit(minutes);
+      return t(`event_modal.reminder_${unit}`, { count });
+  };
+
+  const toggleReminder = (minutes: number) => {
+      const current = formData.reminders || [];
+      const reminders = current.includes(minutes) ? current.filter(m => m !== minutes) : [...current, minutes].sort((a, b) => a - b);
+      setFormData({ ...formData, reminders });
+  };
+
+  // Tags are matched case-insensitively (imported feeds do not share our casing)
+  const toggleCategory = (name: string) => {
+      const current = formData.categories || [];
+      const has = current.some(tag => tag.toLowerCase() === name.toLowerCase());
+      setFormData({ ...formData, categories: has ? current.filter(tag => tag.toLowerCase() !== name.toLowerCase()) : [...current, name] });
+  };
+
+  // Typing a new place drops the pin of the old one
+  const handleLocationChange = (location: string) => {
+      setPlaceResults(null);
+      setFormData({ ...formData, location, locationLat: undefined, locationLon: undefined });
+  };
+
+  const searchPlace = async () => {
+      if (!formData.location?.trim()) return;
+      setIsSearchingPlace(true);
+      setPlaceResults(await searchCity(formData.location));
+      setIsSearchingPlace(false);
+  };
+
+  const pickPlace = (place: any) => {
+      setPlaceResults(null);
+      setFormData({ ...formData, locationLat: place.lat, locationLon: place.lon });
+  };
+
+  const getLeaveTime = () => {
+      if (!formData.travelMinutes || formData.isAllDay || !formData.startTime) return null;
+      const leave = new Date(new Date(formData.startTime).getTime() - formData.travelMinutes * 60000);
+      return leave.toLocaleTimeString(i18n.language, { hour: '2-digit', minute: '2-digit' });
+  };
+
   const toggleUser = (userId: string) => {
       const currentIds = formData.userIds || [];
       if (currentIds.includes(userId)) {
@@ -267,24 +480,42 @@ const EventModal: React.FC<EventModalProps> = ({
   // --- Recurrence Logic ---
 
   // Suggest a default date based on 3x the frequency period
-  const getSuggestedUntilDate = (freq: RecurrenceFreq, startDateIso: string): string => {
+  const getSuggestedUntilDate = (freq: RecurrenceFreq, startDateIso: string, interval: number = 1): string => {
       const d = new Date(startDateIso);
-      if (freq === 'DAILY') d.setDate(d.getDate() + 3);
-      else if (freq === 'WEEKLY') d.setDate(d.getDate() + 21); // 3 weeks
-      else if (freq === 'MONTHLY') d.setMonth(d.getMonth() + 3);
-      else if (freq === 'YEARLY') d.setFullYear(d.getFullYear() + 3);
+      if (freq === 'DAILY') d.setDate(d.getDate() + 3 * interval);
+      else if (freq === 'WEEKLY') d.setDate(d.getDate() + 21 * interval); // 3 weeks
+      else if (freq === 'MONTHLY') d.setMonth(d.getMonth() + 3 * interval);
+      else if (freq === 'YEARLY') d.setFullYear(d.getFullYear() + 3 * interval);
       return d.toISOString();
   }
 
-  const updateRecurrence = (field: string, val: any) => {
-      const currentRecurrence = formData.recurrence || { freq: 'WEEKLY' };
+  const setRecurrence = (patch: Partial<RecurrenceRule>) => {
+      const currentRecurrence: RecurrenceRule = formData.recurrence || { freq: 'WEEKLY' };
+      setFormData({ 
+          ...formData, 
+          recurrence: { ...currentRecurrence, ...patch }
+      });
+  };
+
+  const updateRecurrence = (field: keyof RecurrenceRule, val: any) => {
+      const currentRecurrence: RecurrenceRule = formData.recurrence || { freq: 'WEEKLY' };
       
-      let newRecurrence = { ...currentRecurrence, [field]: val };
+      let newRecurrence: RecurrenceRule = { ...currentRecurrence, [field]: val };
       
-      // If Frequency changed, auto-update the 'Until' date to a smart default (3x period)
-      if (field === 'freq' && formData.startTime) {
-          const smartUntil = getSuggestedUntilDate(val as RecurrenceFreq, formData.startTime);
-          newRecurrence.until = smartUntil;
+      // If Frequency changed, the BY* parts no longer make sense (e.g. "1MO" in a weekly rule).
+      // Reset them and auto-update the 'Until' date to a smart default (3x period)
+      if (field === 'freq' && val !== currentRecurrence.freq) {
+          newRecurrence = { 
+              freq: val, 
+              interval: currentRecurrence.interval, 
+              count: currentRecurrence.count,
+              until: currentRecurrence.until,
+              weekStart: currentRecurrence.weekStart
+          };
+          setMonthDayText('');
+          if (formData.startTime && !newRecurrence.count) {
+              newRecurrence.until = getSuggestedUntilDate(val as RecurrenceFreq, formData.startTime, newRecurrence.interval);
+          }
       }
 
       setFormData({ 
@@ -295,24 +526,127 @@ const EventModal: React.FC<EventModalProps> = ({
 
   const handleUntilChange = (date: Date | null) => {
       if (!date) {
-          updateRecurrence('until', '');
+          setRecurrence({ until: '', count: undefined });
           return;
       }
       // Ensure until date is end of day or standard midnight? 
       // Using standard local midnight to match logic
       date.setHours(0,0,0,0);
-      updateRecurrence('until', date.toISOString());
+      setRecurrence({ until: date.toISOString(), count: undefined });
   }
 
   const setUntilForever = () => {
-      updateRecurrence('until', undefined);
+      setRecurrence({ until: undefined, count: undefined });
   }
 
   const setUntilToday = () => {
       const today = new Date();
       // Reset to midnight local
       today.setHours(0,0,0,0);
-      updateRecurrence('until', today.toISOString());
+      setRecurrence({ until: today.toISOString(), count: undefined });
+  }
+
+  // COUNT and UNTIL are mutually exclusive, switching modes clears the other
+  const setEndAfterCount = () => {
+      setRecurrence({ count: formData.recurrence?.count || 10, until: undefined });
+  }
+
+  const handleCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const val = parseInt(e.target.value, 10);
+      setRecurrence({ count: isNaN(val) ? 0 : val, until: undefined });
+  }
+
+  const handleIntervalChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const val = parseInt(e.target.value, 10);
+      setRecurrence({ interval: isNaN(val) ? 0 : val });
+  }
+
+  // Weekly: an empty BYDAY means "same weekday as the start date"
+  const startWeekday = getWeekdayCode(new Date(formData.startTime || new Date()));
+
+  const isWeekdaySelected = (code: RecurrenceWeekday): boolean => {
+      const byDay = formData.recurrence?.byDay || [];
+      if (byDay.length === 0) return formData.recurrence?.freq === 'WEEKLY' && code === startWeekday;
+      return byDay.includes(code);
+  }
+
+  const toggleWeekday = (code: RecurrenceWeekday) => {
+      const freq = formData.recurrence?.freq;
+      let current = formData.recurrence?.byDay || [];
+      if (current.length === 0 && freq === 'WEEKLY') current = [startWeekday];
+
+      let next = current.includes(code) ? current.filter(d => d !== code) : [...current, code];
+      // Keep RFC order (MO..SU) so the saved rule is stable for dirty checks
+      next = WEEKDAY_CODES.filter(d => next.includes(d));
+      setRecurrence({ byDay: next.length > 0 ? next : undefined });
+  }
+
+  // Monthly / Yearly: either by day-of-month ("15th") or by ordinal weekday ("first Monday")
+  const monthlyMode: 'DAY' | 'WEEKDAY' = (formData.recurrence?.byDay?.length || 0) > 0 ? 'WEEKDAY' : 'DAY';
+
+  const setMonthlyMode = (mode: 'DAY' | 'WEEKDAY') => {
+      if (mode === monthlyMode) return;
+      const start = new Date(formData.startTime || new Date());
+      setMonthDayText('');
+      if (mode === 'WEEKDAY') {
+          setRecurrence({
+              byDay: [getOrdinalWeekdayToken(start)],
+              byMonthDay: undefined,
+              // Without BYMONTH a yearly "4TH" means the 4th Thursday of the YEAR
+              byMonth: formData.recurrence?.freq === 'YEARLY' 
+                  ? (formData.recurrence?.byMonth || [start.getMonth() + 1]) 
+                  : formData.recurrence?.byMonth
+          });
+      } else {
+          setRecurrence({ byDay: undefined, byMonthDay: undefined, bySetPos: undefined });
+      }
+  }
+
+  const handleMonthDayTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const text = e.target.value;
+      setMonthDayText(text);
+      const days = text.split(/[\s,;]+/).filter(Boolean).map(Number);
+      setRecurrence({ byMonthDay: days.length > 0 ? days : undefined });
+  }
+
+  const addOrdinalWeekday = () => {
+      const token = newOrdinal === 0 ? newWeekday : `${newOrdinal}${newWeekday}`;
+      const current = formData.recurrence?.byDay || [];
+      if (current.includes(token)) return;
+      setRecurrence({ byDay: [...current, token] });
+  }
+
+  const removeOrdinalWeekday = (token: string) => {
+      const current = formData.recurrence?.byDay || [];
+      const next = current.filter(d => d !== token);
+      // Removing the last entry falls back to "same day of month as the start date"
+      setRecurrence({ byDay: next.length > 0 ? next : undefined, bySetPos: next.length > 0 ? formData.recurrence?.bySetPos : undefined });
+  }
+
+  const uiLocale = currentUser.preferences?.language || undefined;
+
+  // 2024-01-01 was a Monday, matching WEEKDAY_CODES order
+  const getWeekdayName = (code: RecurrenceWeekday, style: 'narrow' | 'short' | 'long') => {
+      const idx = WEEKDAY_CODES.indexOf(code);
+      return new Date(2024, 0, 1 + idx).toLocaleDateString(uiLocale, { weekday: style });
+  }
+
+  const getOrdinalLabel = (n?: number) => {
+      if (!n) return t('recurrence.nth_every');
+      if (n === -1) return t('recurrence.nth_last');
+      if (n === -2) return t('recurrence.nth_second_last');
+      if (n >= 1 && n <= 5) return t(`recurrence.nth_${n}`);
+      return `#${n}`;
+  }
+
+  const formatByDayToken = (token: string) => {
+      const parsed = splitByDay(token);
+      if (!parsed) return token;
+      return `${getOrdinalLabel(parsed.n)} ${getWeekdayName(parsed.day, 'long')}`;
+  }
+
+  const getMonthName = (month: number) => {
+      return new Date(2024, month - 1, 1).toLocaleDateString(uiLocale, { month: 'long' });
   }
 
   const handleRecurrenceToggle = () => {
@@ -330,6 +664,7 @@ const EventModal: React.FC<EventModalProps> = ({
                 until: smartUntil
             } 
         });
+        setMonthDayText('');
     }
   };
 
@@ -353,6 +688,14 @@ const EventModal: React.FC<EventModalProps> = ({
   if (showRecurrence && formData.recurrence?.until === '') {
       isRecurrenceValid = false;
   }
+
+  const isCountValid = formData.recurrence?.count === undefined || formData.recurrence.count >= 1;
+  const isIntervalValid = formData.recurrence?.interval === undefined || (formData.recurrence.interval >= 1 && formData.recurrence.interval <= 999);
+  const isMonthDayValid = (formData.recurrence?.byMonthDay || []).every(d => Number.isInteger(d) && d !== 0 && d >= -31 && d <= 31);
+  
+  if (showRecurrence && !isComplexRule && (!isCountValid || !isIntervalValid || !isMonthDayValid)) {
+      isRecurrenceValid = false;
+  }
   
   // Dirty Check
   // We create a temp object matching the structure of initialState to compare
@@ -370,7 +713,16 @@ const EventModal: React.FC<EventModalProps> = ({
   // Display Helpers
   const isRecurring = !!event?.rrule || showRecurrence;
   const displayDateLabel = isRecurring ? t('event_modal.series_start') : t('event_modal.date');
-  
+
+  const selectedTimeZone = formData.timeZone || getDefaultTimeZone();
+  const timeZoneOptions = Array.from(new Set([selectedTimeZone, ...getSupportedTimeZones()]));
+  const zonedTimeHint = (!formData.isAllDay && formData.startTime && selectedTimeZone !== getBrowserTimeZone())
+    ? t('event_modal.time_in_zone', {
+        time: new Date(formData.startTime).toLocaleString(undefined, { timeZone: selectedTimeZone, weekday: 'short', hour: 'numeric', minute: '2-digit' }),
+        zone: selectedTimeZone.replace(/_/g, ' ')
+      })
+    : null;
+
   const instanceDateDisplay = (event && event.rrule && initialDate) 
     ? initialDate.toLocaleDateString(undefined, { weekday: 'short', month: 'long', day: 'numeric' })
     : null;
@@ -405,6 +757,16 @@ const EventModal: React.FC<EventModalProps> = ({
                 </div>
             )}
 
+            {/* Override Banner (edited single occurrence of a series) */}
+            {event && event.recurringEventId && (
+                <div className="bg-blue-50 dark:bg-blue-900/30 px-4 py-2 flex items-start gap-2 border-b border-blue-100 dark:border-blue-800">
+                    <RefreshCw size={14} className="text-blue-600 dark:text-blue-400 mt-0.5 shrink-0" />
+                    <p className="text-[0.65rem] text-blue-800 dark:text-blue-300 leading-tight">
+                        {t('event_modal.override_desc')}
+                    </p>
+                </div>
+            )}
+
             {/* Complex Rule Warning */}
             {isComplexRule && (
                 <div className="bg-amber-50 dark:bg-amber-900/30 px-4 py-2 flex flex-col gap-1 border-b border-amber-100 dark:border-amber-800">
@@ -456,6 +818,8 @@ const EventModal: React.FC<EventModalProps> = ({
                             className="w-full pl-10 pr-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg text-sm font-medium text-gray-800 dark:text-white border-transparent focus:border-blue-500 focus:ring-0 cursor-pointer"
                             portalId="root"
                             locale={currentUser.preferences?.language?.split('-')[0] || 'en'}
+                            calendarStartDay={getWeekStart(currentUser.preferences)}
+                            showWeekNumbers={currentUser.preferences?.showWeekNumbers}
                             showMonthDropdown
                             showYearDropdown
                             dropdownMode="select"
@@ -490,8 +854,32 @@ const EventModal: React.FC<EventModalProps> = ({
                      />
                      <span className="text-sm font-bold text-gray-700 dark:text-gray-200">{t('event_modal.all_day')}</span>
                  </label>
+
+                 {/* Time Zone (timed events only) */}
+                 {!formData.isAllDay && (
+                     <div className="ml-auto flex items-center gap-1.5 min-w-0">
+                         <Globe size={14} className="text-gray-400 shrink-0" />
+                         <select
+                            id="eventTimeZone"
+                            name="eventTimeZone"
+                            title={t('event_modal.time_zone')}
+                            value={formData.timeZone || getDefaultTimeZone()}
+                            onChange={(e) => setFormData({...formData, timeZone: e.target.value})}
+                            className="max-w-[12rem] text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg px-2 py-1 border-transparent outline-none focus:ring-1 focus:ring-blue-500 truncate"
+                         >
+                             {timeZoneOptions.map(tz => <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>)}
+                         </select>
+                     </div>
+                 )}
             </div>
 
+            {/* Times are entered in the device zone: show the event's own wall clock when it differs */}
+            {zonedTimeHint && (
+                <p className="-mt-3 text-[0.625rem] text-gray-400 dark:text-gray-500 flex items-center gap-1">
+                    <Info size={10} /> {zonedTimeHint}
+                </p>
+            )}
+
             {/* Recurrence Options */}
             <div>
                  {!isComplexRule && (
@@ -521,6 +909,126 @@ const EventModal: React.FC<EventModalProps> = ({
                                  </button>
                              ))}
                         </div>
+
+                        {/* Interval: "Every N weeks" */}
+                        <div className="flex items-center gap-2">
+                            <label htmlFor="recurrenceInterval" className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{t('event_modal.every')}</label>
+                            <input
+                                type="number"
+                                id="recurrenceInterval"
+                                name="recurrenceInterval"
+                                min={1}
+                                max={999}
+                                value={formData.recurrence?.interval || (formData.recurrence?.interval === 0 ? '' : 1)}
+                                onChange={handleIntervalChange}
+                                className={`w-14 bg-white dark:bg-gray-800 border rounded px-2 py-1 text-xs dark:text-white outline-none ${!isIntervalValid ? 'border-red-300 ring-1 ring-red-100' : 'border-gray-200 dark:border-gray-600 focus:border-blue-300'}`}
+                            />
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                                {t(`recurrence.unit_${(formData.recurrence?.freq || 'WEEKLY').toLowerCase()}`, { count: formData.recurrence?.interval || 1 })}
+                            </span>
+                        </div>
+
+                        {/* Weekday Picker (BYDAY) */}
+                        {(formData.recurrence?.freq === 'WEEKLY' || formData.recurrence?.freq === 'DAILY') && (
+                            <div className="flex flex-col gap-1">
+                                <label className="text-xs text-gray-500 dark:text-gray-400">{t('event_modal.on_days')}</label>
+                                <div className="flex gap-1">
+                                    {WEEKDAY_CODES.map(code => {
+                                        const isSelected = isWeekdaySelected(code);
+                                        return (
+                                            <button
+                                                key={code}
+                                                type="button"
+                                                onClick={() => toggleWeekday(code)}
+                                                title={getWeekdayName(code, 'long')}
+                                                className={`flex-1 h-7 text-[0.65rem] font-bold rounded-full border transition-colors ${isSelected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-500 dark:text-gray-400 border-gray-200 dark:border-gray-600 hover:border-gray-300'}`}
+                                            >
+                                                {getWeekdayName(code, 'narrow')}
+                                            </button>
+                                        )
+                                    })}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Day of Month vs Nth Weekday (BYMONTHDAY / BYDAY=1MO) */}
+                        {(formData.recurrence?.freq === 'MONTHLY' || formData.recurrence?.freq === 'YEARLY') && (
+                            <div className="flex flex-col gap-2">
+                                <div className="flex gap-2">
+                                    {(['DAY', 'WEEKDAY'] as const).map(mode => (
+                                        <button
+                                            key={mode}
+                                            type="button"
+                                            onClick={() => setMonthlyMode(mode)}
+                                            className={`flex-1 py-1 text-[0.6rem] font-bold rounded border transition-colors ${monthlyMode === mode ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 border-blue-200 dark:border-blue-800' : 'bg-white dark:bg-gray-800 text-gray-500 dark:text-gray-400 border-gray-200 dark:border-gray-600 hover:border-gray-300'}`}
+                                        >
+                                            {mode === 'DAY' ? t('event_modal.by_month_day') : t('event_modal.by_weekday')}
+                                        </button>
+                                    ))}
+                                </div>
+
+                                {monthlyMode === 'DAY' ? (
+                                    <div className="flex flex-col gap-1">
+                                        <input
+                                            type="text"
+                                            name="recurrenceMonthDays"
+                                            id="recurrenceMonthDays"
+                                            value={monthDayText}
+                                            onChange={handleMonthDayTextChange}
+                                            placeholder={new Date(formData.startTime || new Date()).getDate().toString()}
+                                            className={`w-full bg-white dark:bg-gray-800 border rounded px-2 py-1 text-xs dark:text-white outline-none ${!isMonthDayValid ? 'border-red-300 ring-1 ring-red-100' : 'border-gray-200 dark:border-gray-600 focus:border-blue-300'}`}
+                                        />
+                                        <p className="text-[0.6rem] text-gray-400 italic">{t('event_modal.month_days_hint')}</p>
+                                    </div>
+                                ) : (
+                                    <div className="flex flex-col gap-1.5">
+                                        <div className="flex flex-wrap gap-1">
+                                            {(formData.recurrence?.byDay || []).map(token => (
+                                                <span key={token} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 text-[0.65rem] font-bold">
+                                                    {formatByDayToken(token)}
+                                                    <button type="button" onClick={() => removeOrdinalWeekday(token)} className="p-0.5 rounded-full hover:bg-blue-200 dark:hover:bg-blue-800">
+                                                        <X size={10} />
+                                                    </button>
+                                                </span>
+                                            ))}
+                                        </div>
+                                        <div className="flex gap-1">
+                                            <select
+                                                value={newOrdinal}
+                                                onChange={(e) => setNewOrdinal(Number(e.target.value))}
+                                                className="flex-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded px-2 py-1 text-xs dark:text-white outline-none"
+                                            >
+                                                {[1, 2, 3, 4, 5, -1, -2, 0].map(n => (
+                                                    <option key={n} value={n}>{getOrdinalLabel(n)}</option>
+                                                ))}
+                                            </select>
+                                            <select
+                                                value={newWeekday}
+                                                onChange={(e) => setNewWeekday(e.target.value as RecurrenceWeekday)}
+                                                className="flex-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded px-2 py-1 text-xs dark:text-white outline-none"
+                                            >
+                                                {WEEKDAY_CODES.map(code => (
+                                                    <option key={code} value={code}>{getWeekdayName(code, 'long')}</option>
+                                                ))}
+                                            </select>
+                                            <button
+                                                type="button"
+                                                onClick={addOrdinalWeekday}
+                                                className="px-2 border rounded bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:text-blue-600 hover:border-blue-200"
+                                            >
+                                                <Plus size={14} />
+                                            </button>
+                                        </div>
+                                        {formData.recurrence?.freq === 'YEARLY' && formData.recurrence?.byMonth && (
+                                            <p className="text-[0.6rem] text-gray-400 italic">
+                                                {t('event_modal.in_months', { months: formData.recurrence.byMonth.map(getMonthName).join(', ') })}
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
                         <div className="flex flex-col gap-1">
                              <div className="flex justify-between items-baseline">
                                 <label className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{t('event_modal.until')}</label>
@@ -532,6 +1040,21 @@ const EventModal: React.FC<EventModalProps> = ({
                              </div>
                              
                              <div className="flex gap-2 relative">
+                                {formData.recurrence?.count !== undefined ? (
+                                    <div className="flex-1 flex items-center gap-2">
+                                        <input
+                                            type="number"
+                                            name="recurrenceCount"
+                                            id="recurrenceCount"
+                                            min={1}
+                                            value={formData.recurrence.count || ''}
+                                            onChange={handleCountChange}
+                                            className={`w-16 bg-white dark:bg-gray-800 border rounded px-2 py-1 text-xs dark:text-white outline-none ${!isCountValid ? 'border-red-300 ring-1 ring-red-100' : 'border-gray-200 dark:border-gray-600 focus:border-blue-300'}`}
+                                        />
+                                        <span className="text-xs text-gray-500 dark:text-gray-400">{t('event_modal.occurrences')}</span>
+                                    </div>
+                                ) : (
+                                <>
                                 <div className="flex-1 relative">
                                     <DatePicker 
                                         selected={formData.recurrence?.until ? new Date(formData.recurrence.until) : null}
@@ -541,6 +1064,8 @@ const EventModal: React.FC<EventModalProps> = ({
                                         className={`w-full bg-white dark:bg-gray-800 border rounded px-2 py-1 text-xs dark:text-white outline-none cursor-pointer ${!isRecurrenceValid ? 'border-red-300 ring-1 ring-red-100' : 'border-gray-200 dark:border-gray-600 focus:border-blue-300'}`}
                                         portalId="root"
                                         locale={currentUser.preferences?.language?.split('-')[0] || 'en'}
+                                        calendarStartDay={getWeekStart(currentUser.preferences)}
+                                        showWeekNumbers={currentUser.preferences?.showWeekNumbers}
                                         showMonthDropdown
                                         showYearDropdown
                                         dropdownMode="select"
@@ -554,17 +1079,29 @@ const EventModal: React.FC<EventModalProps> = ({
                                 >
                                     {t('event_modal.today')}
                                 </button>
+                                </>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={setEndAfterCount}
+                                    title={t('event_modal.end_after_count')}
+                                    className={`px-2 border rounded transition-colors ${formData.recurrence?.count !== undefined ? 'bg-blue-100 dark:bg-blue-900/30 border-blue-300 dark:border-blue-800 text-blue-600 dark:text-blue-400' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-400 hover:text-gray-600'}`}
+                                >
+                                    <Hash size={14} />
+                                </button>
                                 <button 
                                     type="button"
                                     onClick={setUntilForever}
-                                    title="Repeat Forever"
-                                    className={`px-3 border rounded transition-colors ${!formData.recurrence?.until ? 'bg-blue-100 dark:bg-blue-900/30 border-blue-300 dark:border-blue-800 text-blue-600 dark:text-blue-400' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-400 hover:text-gray-600'}`}
+                                    title={t('event_modal.repeats_forever')}
+                                    className={`px-3 border rounded transition-colors ${!formData.recurrence?.until && formData.recurrence?.count === undefined ? 'bg-blue-100 dark:bg-blue-900/30 border-blue-300 dark:border-blue-800 text-blue-600 dark:text-blue-400' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-400 hover:text-gray-600'}`}
                                 >
                                     <InfinityIcon size={16} />
                                 </button>
                              </div>
                              <p className="text-[0.6rem] text-gray-400 italic text-right">
-                                 {formData.recurrence?.until ? t('event_modal.ends_on') : t('event_modal.repeats_forever')}
+                                 {formData.recurrence?.count !== undefined 
+                                    ? t('event_modal.ends_after', { count: formData.recurrence.count }) 
+                                    : (formData.recurrence?.until ? t('event_modal.ends_on') : t('event_modal.repeats_forever'))}
                              </p>
                         </div>
                      </div>
@@ -600,6 +1137,88 @@ const EventModal: React.FC<EventModalProps> = ({
                  )}
             </div>
 
+            {/* Location */}
+            <div>
+                 <label htmlFor="eventLocation" className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{t('event_modal.location')}</label>
+                 <div className="flex gap-2">
+                     <div className="flex-1 flex items-center gap-2 bg-gray-50 dark:bg-gray-700 rounded-lg px-3 focus-within:ring-2 focus-within:ring-blue-100 dark:focus-within:ring-blue-900">
+                         <MapPin size={14} className={formData.locationLat !== undefined ? 'text-blue-500 shrink-0' : 'text-gray-400 shrink-0'} />
+                         <input
+                            type="text"
+                            name="eventLocation"
+                            id="eventLocation"
+                            value={formData.location || ''}
+                            onChange={(e) => handleLocationChange(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); searchPlace(); } }}
+                            placeholder={t('event_modal.location_placeholder')}
+                            className="flex-1 min-w-0 bg-transparent py-2 text-sm outline-none dark:text-white dark:placeholder-gray-500"
+                         />
+                     </div>
+                     <button
+                        type="button"
+                        onClick={searchPlace}
+                        disabled={!formData.location?.trim() || isSearchingPlace}
+                        title={t('event_modal.find_place')}
+                        className="px-3 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                     >
+                         {isSearchingPlace ? <Loader2 size={14} className="animate-spin" /> : <Search size={14} />}
+                     </button>
+                 </div>
+
+                 {placeResults && (
+                     <div className="mt-1 border border-gray-200 dark:border-gray-600 rounded-lg max-h-40 overflow-y-auto custom-scrollbar bg-white dark:bg-gray-800">
+                         {placeResults.length === 0 ? (
+                             <p className="px-3 py-2 text-xs text-gray-400 italic">{t('event_modal.no_place_found')}</p>
+                         ) : placeResults.map((place, i) => (
+                             <button
+                                key={i}
+                                type="button"
+                                onClick={() => pickPlace(place)}
+                                className="w-full text-left px-3 py-2 text-xs hover:bg-blue-50 dark:hover:bg-gray-700 dark:text-gray-200"
+                             >
+                                 <span className="font-bold">{place.name}</span> <span className="text-gray-400">{[place.admin1, place.country].filter(Boolean).join(', ')}</span>
+                             </button>
+                         ))}
+                     </div>
+                 )}
+
+                 {formData.location?.trim() && (
+                     <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs">
+                         <a
+                            href={getMapUrl(formData.location, formData.locationLat, formData.locationLon) || undefined}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 font-bold text-blue-600 dark:text-blue-400 hover:underline"
+                         >
+                             <ExternalLink size={12} /> {t('event_modal.open_map')}
+                         </a>
+                         {!formData.isAllDay && (
+                             <label className="flex items-center gap-1 text-gray-500 dark:text-gray-400">
+                                 <Car size={12} />
+                                 <select
+                                    value={formData.travelMinutes || 0}
+                                    onChange={(e) => setFormData({ ...formData, travelMinutes: Number(e.target.value) || undefined })}
+                                    aria-label={t('event_modal.travel_time')}
+                                    className="bg-transparent font-bold outline-none dark:bg-gray-800"
+                                 >
+                                     {TRAVEL_PRESETS.map(minutes => (
+                                         <option key={minutes} value={minutes}>{minutes === 0 ? t('event_modal.no_travel') : t('event_modal.travel_minutes', { count: minutes })}</option>
+                                     ))}
+                                 </select>
+                             </label>
+                         )}
+                         {getLeaveTime() && (
+                             <span className="font-bold text-orange-600 dark:text-orange-400">{t('event_modal.leave_at', { time: getLeaveTime() })}</span>
+                         )}
+                         {placeWeather && (
+                             <span className="text-gray-500 dark:text-gray-400" title={t(getWeatherDescriptionKey(placeWeather.weatherCode))}>
+                                 {getWeatherIcon(placeWeather.weatherCode)} {Math.round(placeWeather.maxTemp)}° / {Math.round(placeWeather.minTemp)}° {t('event_modal.at_place')}
+                             </span>
+                         )}
+                     </div>
+                 )}
+            </div>
+
             {/* Description */}
             <div>
                  <label className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{t('event_modal.description')}</label>
@@ -614,6 +1233,64 @@ const EventModal: React.FC<EventModalProps> = ({
                  />
             </div>
 
+            {/* Categories */}
+            {(eventCategories.length > 0 || !!formData.categories?.length) && (
+            <div>
+                 <label className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{t('event_modal.categories')}</label>
+                 <div className="flex flex-wrap items-center gap-2">
+                     {eventCategories.map(category => {
+                         const isSelected = formData.categories?.some(tag => tag.toLowerCase() === category.name.toLowerCase());
+                         return (
+                             <button
+                                key={category.id}
+                                onClick={() => toggleCategory(category.name)}
+                                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-bold transition-all ${isSelected ? 'text-gray-800 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400 opacity-70 hover:opacity-100'}`}
+                                style={{ borderColor: category.color, backgroundColor: isSelected ? `${category.color}33` : undefined }}
+                             >
+                                 <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: category.color }} /> {category.name}
+                                 {isSelected && <Check size={12}/>}
+                             </button>
+                         );
+                     })}
+                     {/* Free tags from imports/feeds, not managed in Settings */}
+                     {(formData.categories || []).filter(tag => !eventCategories.some(c => c.name.toLowerCase() === tag.toLowerCase())).map(tag => (
+                         <span key={tag} className="flex items-center gap-1 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 pl-2 pr-1 py-1 rounded-full text-xs font-bold">
+                             <Tag size={12}/> {tag}
+                             <button onClick={() => toggleCategory(tag)} className="p-0.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600" aria-label={t('event_modal.remove_category')}>
+                                 <X size={12}/>
+                             </button>
+                         </span>
+                     ))}
+                 </div>
+            </div>
+            )}
+
+            {/* Reminders */}
+            <div>
+                 <label htmlFor="eventReminder" className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{t('event_modal.reminders')}</label>
+                 <div className="flex flex-wrap items-center gap-2">
+                     {(formData.reminders || []).map(minutes => (
+                         <span key={minutes} className="flex items-center gap-1 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 pl-2 pr-1 py-1 rounded-full text-xs font-bold">
+                             <Bell size={12}/> {formatReminder(minutes)}
+                             <button onClick={() => toggleReminder(minutes)} className="p-0.5 rounded-full hover:bg-blue-100 dark:hover:bg-blue-800" aria-label={t('event_modal.remove_reminder')}>
+                                 <X size={12}/>
+                             </button>
+                         </span>
+                     ))}
+                     <select
+                        id="eventReminder"
+                        value=""
+                        onChange={(e) => { if (e.target.value !== '') toggleReminder(Number(e.target.value)); }}
+                        className="bg-gray-50 dark:bg-gray-700 rounded-lg px-2 py-1 text-xs font-bold text-gray-600 dark:text-gray-300 outline-none"
+                     >
+                         <option value="">{t('event_modal.add_reminder')}</option>
+                         {REMINDER_PRESETS.filter(m => !formData.reminders?.includes(m)).map(m => (
+                             <option key={m} value={m}>{formatReminder(m)}</option>
+                         ))}
+                     </select>
+                 </div>
+            </div>
+
             {/* User Assignment */}
             <div>
                  <label className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-2 block">{t('event_modal.participants')}</label>
@@ -641,7 +1318,35 @@ const EventModal: React.FC<EventModalProps> = ({
 
             {/* Footer */}
             <div className="p-4 border-t dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 flex justify-between gap-3 sticky bottom-0 z-10 shrink-0">
-                 {deleteStage === 'SERIES_CHOICE' ? (
+                 {saveStage === 'CONFLICTS' ? (
+                    <ConflictWarning
+                        conflicts={conflicts}
+                        users={users}
+                        getUserColor={getUserColor}
+                        locale={i18n.language}
+                        onBack={handleCancelSave}
+                        onSaveAnyway={(e: React.MouseEvent) => handleSave(e, true)}
+                        t={t}
+                    />
+                 ) : saveStage === 'SERIES_CHOICE' ? (
+                    <div className="flex flex-col gap-2 w-full animate-in slide-in-from-left-2">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs font-bold text-gray-500 dark:text-gray-400">{t('event_modal.save_options')}</span>
+                            <button onClick={handleCancelSave} className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">{t('event_modal.cancel')}</button>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={handleSaveOccurrence} className="flex-1 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg text-xs font-bold text-gray-700 dark:text-gray-300 hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:text-blue-600 dark:hover:text-blue-400 hover:border-blue-200 dark:hover:border-blue-800 transition-colors">
+                                {t('event_modal.only_this')}
+                            </button>
+                            <button onClick={handleSaveFollowing} className="flex-1 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg text-xs font-bold text-gray-700 dark:text-gray-300 hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:text-blue-600 dark:hover:text-blue-400 hover:border-blue-200 dark:hover:border-blue-800 transition-colors">
+                                {t('event_modal.this_and_following')}
+                            </button>
+                            <button onClick={handleSaveSeries} className="flex-1 py-2 bg-blue-600 rounded-lg text-xs font-bold text-white hover:bg-blue-700 shadow-sm transition-colors">
+                                {t('event_modal.all_events')}
+                            </button>
+                        </div>
+                    </div>
+                 ) : deleteStage === 'SERIES_CHOICE' ? (
                     <div className="flex flex-col gap-2 w-full animate-in slide-in-from-left-2">
                         <div className="flex items-center justify-between">
                             <span className="text-xs font-bold text-gray-500 dark:text-gray-400">{t('event_modal.delete_options')}</span>
@@ -683,4 +1388,48 @@ const EventModal: React.FC<EventModalProps> = ({
   if (!currentUser) return null; // Safety check since context can be null
 };
 
+// Double-booked members, grouped per person (first few collisions each)
+const ConflictWarning = ({ conflicts, users, getUserColor, locale, onBack, onSaveAnyway, t }: any) => {
+    const byUser = new Map<string, EventConflict[]>();
+    conflicts.forEach((c: EventConflict) => byUser.set(c.userId, [...(byUser.get(c.userId) || []), c]));
+
+    const formatWhen = (iso: string) => new Date(iso).toLocaleString(locale, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+    return (
+        <div className="flex flex-col gap-2 w-full animate-in slide-in-from-left-2">
+            <div className="flex items-center gap-1.5 text-xs font-bold text-orange-600 dark:text-orange-400">
+                <AlertTriangle size={14} /> {t('event_modal.conflicts_title')}
+            </div>
+            <div className="flex flex-col gap-2 max-h-40 overflow-y-auto custom-scrollbar pr-1">
+                {Array.from(byUser.entries()).map(([userId, list]) => {
+                    const user = users.find((u: User) => u.id === userId);
+                    return (
+                        <div key={userId} className="bg-orange-50 dark:bg-orange-900/20 border border-orange-100 dark:border-orange-900 rounded-lg px-2 py-1.5">
+                            <div className="flex items-center gap-1.5 text-xs font-bold text-gray-700 dark:text-gray-200">
+                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: user ? getUserColor(user) : '#9ca3af' }} />
+                                {user?.username || userId}
+                            </div>
+                            {list.slice(0, 3).map((c, i) => (
+                                <div key={i} className="flex justify-between gap-2 text-[0.65rem] text-gray-600 dark:text-gray-400 pl-3.5">
+                                    <span className="truncate font-medium">{c.event.title}</span>
+                                    <span className="whitespace-nowrap tabular-nums">{formatWhen(c.event.startTime)}</span>
+                                </div>
+                            ))}
+                            {list.length > 3 && <div className="text-[0.6rem] text-gray-400 italic pl-3.5">{t('event_modal.conflicts_more', { count: list.length - 3 })}</div>}
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="flex gap-2">
+                <button onClick={onBack} className="flex-1 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg text-xs font-bold text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                    {t('event_modal.conflicts_back')}
+                </button>
+                <button onClick={onSaveAnyway} className="flex-1 py-2 bg-orange-500 rounded-lg text-xs font-bold text-white hover:bg-orange-600 shadow-sm transition-colors">
+                    {t('event_modal.save_anyway')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
 export default EventModal;
\ No newline at end of file
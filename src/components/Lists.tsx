@@ -1,7 +1,10 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { ShoppingItem, TodoItem, ShoppingCategory, PriorityLevel, ShoppingStore, ShoppingLogEntry, ShoppingLogType, User } from '../types';
-import { Check, Trash2, Plus, ShoppingCart, CheckSquare, GripVertical, AlertCircle, ArrowDown, Lock, MoreHorizontal, History, Tag, X, ShoppingBag, Store, Save, User as UserIcon, Eye, CalendarClock } from 'lucide-react';
+import { ShoppingItem, ShoppingList, ShoppingTrip, PurchaseRecord, TodoItem, ShoppingCategory, PriorityLevel, ShoppingStore, ShoppingLogEntry, ShoppingLogType, User } from '../types';
+import { Check, Trash2, Plus, ShoppingCart, CheckSquare, GripVertical, AlertCircle, ArrowDown, Lock, MoreHorizontal, History, Tag, X, ShoppingBag, Store, Save, User as UserIcon, Eye, CalendarClock, Edit2, Archive, ChevronDown, ChevronRight, Flag, BarChart3, Sparkles } from 'lucide-react';
+import { getWeekStart } from '../constants';
+import { storage } from '../services/storage';
+import { parseShoppingInput, formatQuantity, addQuantities, findDuplicateItem, normalizeUnit, normalizeContent, getPurchaseStats, getRunningLowItems, RunningLowItem } from '../services/shopping';
 import { useUser } from '../contexts/UserContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useTranslation } from 'react-i18next';
@@ -9,6 +12,9 @@ import DatePicker from 'react-datepicker';
 
 interface ListsProps {
   shoppingList: ShoppingItem[];
+  shoppingLists: ShoppingList[];
+  purchaseHistory: PurchaseRecord[]; // Shared by the family (realtime): running-low suggestions & autocomplete
+  onUpdateShoppingLists: (lists: ShoppingList[]) => Promise<Record<string, string>>;
   todos: TodoItem[];
   stores: ShoppingStore[];
   categories: ShoppingCategory[];
@@ -27,7 +33,7 @@ const getAutocompleteHistory = (): string[] => {
 };
 
 const Lists: React.FC<ListsProps> = ({ 
-    shoppingList, todos, stores, categories, onUpdateShopping, onUpdateTodos, currentTab, onTabChange, isReadOnly 
+    shoppingList, shoppingLists, purchaseHistory, onUpdateShoppingLists, todos, stores, categories, onUpdateShopping, onUpdateTodos, currentTab, onTabChange, isReadOnly 
 }) => {
   const { users, currentUser } = useUser();
   const { activePalette, getUserColor } = useTheme();
@@ -44,6 +50,18 @@ const Lists: React.FC<ListsProps> = ({
   const [todoFormData, setTodoFormData] = useState<Partial<TodoItem>>({});
 
   const [hideEmpty, setHideEmpty] = useState(false);
+
+  // Named lists: '' = the main list
+  const [activeListId, setActiveListId] = useState<string>(() => localStorage.getItem('fs_shopping_list') || '');
+  const [showArchivedLists, setShowArchivedLists] = useState(false);
+  const [listFormData, setListFormData] = useState<ShoppingList | null>(null);
+
+  // Shopping mode: one store, in aisle order (null = off, '' = picking the store)
+  const [shoppingModeStoreId, setShoppingModeStoreId] = useState<string | null>(null);
+  const [showStats, setShowStats] = useState(false);
+
+  // Server-side failures the user has to know about (nothing was lost locally)
+  const [actionError, setActionError] = useState<string | null>(null);
   
   const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
   const [dragOverTargetId, setDragOverTargetId] = useState<string | null>(null); 
@@ -52,6 +70,11 @@ const Lists: React.FC<ListsProps> = ({
   
   const inputWrapperRef = useRef<HTMLDivElement>(null);
 
+  // Latest items, for updates made after an await (the render's copy may be stale by then)
+  const shoppingListRef = useRef(shoppingList);
+  shoppingListRef.current = shoppingList;
+  const [isClearingCart, setIsClearingCart] = useState(false);
+
   // Helper to detect temporary IDs (optimistic items)
   const isSaving = (id: string) => id.length > 15;
 
@@ -59,6 +82,10 @@ const Lists: React.FC<ListsProps> = ({
       localStorage.setItem('fs_shopping_history', JSON.stringify(historyItems));
   }, [historyItems]);
 
+  useEffect(() => {
+      localStorage.setItem('fs_shopping_list', activeListId);
+  }, [activeListId]);
+
   useEffect(() => {
       const handleClickOutside = (event: MouseEvent) => {
           if (inputWrapperRef.current && !inputWrapperRef.current.contains(event.target as Node)) {
@@ -95,6 +122,25 @@ const Lists: React.FC<ListsProps> = ({
       return users.find(u => u.id === uid)?.username || t('lists.unknown_user');
   };
 
+  // Private lists (and their items) are only for their members
+  const canSeeList = (list: ShoppingList) => list.memberIds.length === 0 || list.memberIds.includes(currentUser.id);
+  const myLists = shoppingLists.filter(canSeeList).sort((a, b) => a.order - b.order);
+  const activeList = myLists.find(l => l.id === activeListId);
+  const currentListId = activeList ? activeList.id : '';
+  const isListSaving = currentListId.length > 0 && currentListId.length < 15; // Temp ID until created
+  const listItems = shoppingList.filter(i => (i.listId || '') === currentListId);
+
+  const runningLow = useMemo(() =>
+      getRunningLowItems(purchaseHistory.filter(r => (r.listId || '') === currentListId), listItems),
+  [purchaseHistory, shoppingList, currentListId]);
+
+  // Typed on this device first, then what the family buys
+  const autocompleteItems = useMemo(() => {
+      const known = new Set(historyItems.map(normalizeContent));
+      return [...historyItems, ...getPurchaseStats(purchaseHistory).map(s => s.content).filter(c => !known.has(normalizeContent(c)))];
+  }, [historyItems, purchaseHistory]);
+  const getListName = (listId?: string) => shoppingLists.find(l => l.id === listId)?.name || t('lists.main_list');
+
   const getMyCategoryId = (item: ShoppingItem): string | undefined => {
       return item.userCategoryIds?.[currentUser.id];
   }
@@ -146,16 +192,9 @@ const Lists: React.FC<ListsProps> = ({
       }
   };
 
-  // --- CHANGED: Removed Regex Parsing ----
-  const parseInput = (text: string) => {
-      // Logic barrier removed. Input is now always raw text.
-      // Users can set Priority or Privacy via the Edit Modal after creation.
-      return { 
-          content: text.trim(), 
-          priority: 'NORMAL' as PriorityLevel, 
-          isPrivate: false 
-      };
-  };
+  // "2 kg", "3 packs"... (metric symbols are the same in every language)
+  const formatItemQuantity = (quantity?: number, unit?: string) =>
+      formatQuantity(quantity, unit ? t(`units.${unit}`, { count: quantity, defaultValue: unit }) : undefined);
 
   const getSuggestedCategory = (itemName: string) => {
       const match = shoppingList.find(i => i.content.toLowerCase() === itemName.toLowerCase() && i.creatorCategoryId);
@@ -166,26 +205,50 @@ const Lists: React.FC<ListsProps> = ({
       const raw = overrideText || newItemText;
       if (!raw.trim()) return;
 
-      const { content, priority, isPrivate } = parseInput(raw);
+      const parsed = parseShoppingInput(raw);
+      const { content, quantity, unit } = parsed;
       
       if (!historyItems.includes(content)) {
           setHistoryItems(prev => [content, ...prev].slice(0, 50));
       }
 
+      // Already on the list: bump its quantity instead of adding it twice
+      const existing = findDuplicateItem(listItems, content, currentUser.id);
+      const total = existing ? addQuantities(existing, parsed) : null;
+      if (existing && total) {
+          const logEntry = createLog('UPDATE', JSON.stringify({
+              key: 'log.quantity_bumped',
+              params: { from: formatItemQuantity(existing.quantity || 1, existing.unit) || '1', to: formatItemQuantity(total.quantity, total.unit) }
+          }));
+          onUpdateShopping(shoppingList.map(i => i.id === existing.id ? {
+              ...i,
+              quantity: total.quantity,
+              unit: total.unit,
+              seenByUserIds: [currentUser.id], // Shows up as new for the others
+              logs: [logEntry, ...(i.logs || [])]
+          } : i));
+          setNewItemText('');
+          setShowHistory(false);
+          return;
+      }
+
       const smartCatId = getSuggestedCategory(content);
 
       const item: ShoppingItem = {
           id: Date.now().toString() + Math.random(),
+          listId: currentListId || undefined,
           content,
+          quantity,
+          unit,
           isInCart: false,
           addedByUserId: currentUser.id,
           addedAt: new Date().toISOString(),
-          isPrivate,
+          isPrivate: false, // Priority and privacy are set in the edit modal
           note: '',
           
           userCategoryIds: smartCatId ? { [currentUser.id]: smartCatId } : {},
-          priority: priority,
-          order: shoppingList.length, // Append to end by default
+          priority: 'NORMAL',
+          order: listItems.length, // Append to end by default
           seenByUserIds: [currentUser.id], 
           creatorCategoryId: smartCatId,
           logs: [createLog('CREATE', JSON.stringify({ key: 'log.added_item', params: { item: content } }))]
@@ -266,6 +329,22 @@ const Lists: React.FC<ListsProps> = ({
                   })));
               }
 
+              if ((i.listId || '') !== (editFormData.listId || '')) {
+                  newLogs.unshift(createLog('UPDATE', JSON.stringify({ 
+                      key: 'log.moved_list', 
+                      params: { list: getListName(editFormData.listId) } 
+                  })));
+              }
+
+              const quantity = editFormData.quantity && editFormData.quantity > 0 ? editFormData.quantity : undefined;
+              const unit = quantity ? normalizeUnit(editFormData.unit) : undefined;
+              if ((i.quantity || 1) !== (quantity || 1) || (i.unit || '') !== (unit || '')) {
+                  newLogs.unshift(createLog('UPDATE', JSON.stringify({ 
+                      key: 'log.quantity_changed', 
+                      params: { quantity: formatItemQuantity(quantity || 1, unit) || '1' } 
+                  })));
+              }
+
               const oldPrio = i.priority || 'NORMAL';
               const newPrio = (editFormData as any).priority || oldPrio;
               if (oldPrio !== newPrio) {
@@ -277,8 +356,11 @@ const Lists: React.FC<ListsProps> = ({
 
               return {
                   ...i,
+                  listId: editFormData.listId || undefined,
                   content: editFormData.content,
                   note: editFormData.note,
+                  quantity,
+                  unit,
                   isPrivate: editFormData.isPrivate,
                   priority: newPrio,
                   logs: newLogs
@@ -291,8 +373,90 @@ const Lists: React.FC<ListsProps> = ({
       setSelectedItem(null);
   };
 
-  const clearCart = () => {
-    onUpdateShopping(shoppingList.filter(i => !i.isInCart));
+  // Bought items leave the list for the purchase history (linked to the trip when there is one)
+  // Removed once archived (or queued when offline): if the server refuses, they stay in the cart (false)
+  const clearCart = async (trip?: ShoppingTrip, bought = listItems.filter(i => i.isInCart)): Promise<boolean> => {
+    setIsClearingCart(true);
+    try {
+        await storage.archivePurchases(bought, trip);
+    } catch (e: any) {
+        // Offline: archived from the queue on reconnect, like the other writes
+        if (e?.status === 0) {
+            storage.addToQueue({ type: 'ARCHIVE', collection: 'shopping', payload: { items: bought, trip } });
+        } else {
+            console.error(e);
+            setActionError(t('lists.archive_failed'));
+            return false;
+        }
+    } finally {
+        setIsClearingCart(false);
+    }
+    const boughtIds = new Set(bought.map(i => i.id));
+    onUpdateShopping(shoppingListRef.current.filter(i => !boughtIds.has(i.id)));
+    return true;
+  };
+
+  const saveListForm = () => {
+      if (!listFormData || !listFormData.name.trim()) return;
+      // A private list always includes whoever sets it up
+      const memberIds = listFormData.memberIds.length > 0 && !listFormData.memberIds.includes(currentUser.id)
+          ? [...listFormData.memberIds, currentUser.id]
+          : listFormData.memberIds;
+      const list = { ...listFormData, name: listFormData.name.trim(), memberIds };
+      const isNew = !shoppingLists.some(l => l.id === list.id);
+
+      onUpdateShoppingLists(isNew ? [...shoppingLists, list] : shoppingLists.map(l => l.id === list.id ? list : l))
+          .then(idMap => { if (isNew && idMap[list.id]) setActiveListId(idMap[list.id]); });
+      if (isNew) setActiveListId(list.id);
+      setListFormData(null);
+  };
+
+  // Shopping mode's scope: what I can see, in that store's aisles or not sorted yet
+  const getTripItems = (storeId: string) => {
+      const storeCategoryIds = categories.filter(c => c.storeId === storeId).map(c => c.id);
+      return listItems.filter(i => {
+          const categoryId = getMyCategoryId(i);
+          return (!i.isPrivate || i.addedByUserId === currentUser.id) && (!categoryId || storeCategoryIds.includes(categoryId));
+      });
+  };
+
+  // Ends a shopping mode run: the trip is recorded and the store's cart cleared (null when that failed)
+  const finishTrip = async (storeId: string, startedAt: string): Promise<ShoppingTrip | null> => {
+      const bought = getTripItems(storeId).filter(i => i.isInCart);
+      const trip: ShoppingTrip = {
+          id: storage.newRecordId(),
+          storeId,
+          listId: currentListId || undefined,
+          userId: currentUser.id,
+          startedAt,
+          finishedAt: new Date().toISOString(),
+          itemCount: bought.length,
+          items: bought.map(i => {
+              const quantity = formatItemQuantity(i.quantity, i.unit);
+              return quantity ? `${i.content} (${quantity})` : i.content;
+          })
+      };
+      if (bought.length > 0 && !(await clearCart(trip, bought))) return null;
+      return trip;
+  };
+
+  // Deleted by ID on the server; its items go with the cascade (realtime removes them everywhere)
+  const deleteList = async (list: ShoppingList) => {
+      if (!window.confirm(t('lists.delete_list_confirm', { name: list.name }))) return;
+      if (list.id.length < 15) { // Never reached the server
+          onUpdateShopping(shoppingList.filter(i => i.listId !== list.id));
+      } else {
+          try {
+              await storage.deleteShoppingList(list.id);
+          } catch (e) {
+              console.error(e);
+              setActionError(t('lists.delete_list_failed'));
+              return;
+          }
+      }
+      onUpdateShoppingLists(shoppingLists.filter(l => l.id !== list.id));
+      setActiveListId('');
+      setListFormData(null);
   };
 
   const handleDragStart = (e: React.DragEvent, id: string) => {
@@ -378,7 +542,7 @@ const Lists: React.FC<ListsProps> = ({
       // REORDER LOGIC: Only if in same category
       if (getMyCategoryId(draggedItem) === targetCatId) {
           // Get all relevant items sorted by current order
-          const visibleItemsInCat = shoppingList
+          const visibleItemsInCat = listItems
               .filter(i => getMyCategoryId(i) === targetCatId && !i.isInCart)
               .sort((a, b) => (a.order || 0) - (b.order || 0));
           
@@ -434,7 +598,7 @@ const Lists: React.FC<ListsProps> = ({
   const sortedCategories = useMemo(() => [...categories].sort((a,b) => a.order - b.order), [categories]);
 
   const renderGroups = useMemo(() => {
-      const visibleItems = shoppingList.filter(i => !i.isPrivate || i.addedByUserId === currentUser.id);
+      const visibleItems = listItems.filter(i => !i.isPrivate || i.addedByUserId === currentUser.id);
       const itemsByCategory: { [catId: string]: ShoppingItem[] } = {};
       const uncategorizedItems: ShoppingItem[] = [];
 
@@ -487,7 +651,7 @@ const Lists: React.FC<ListsProps> = ({
       }
 
       return tree;
-  }, [shoppingList, sortedStores, sortedCategories, currentUser.id, hideEmpty]);
+  }, [shoppingList, currentListId, sortedStores, sortedCategories, currentUser.id, hideEmpty]);
 
   const myTodos = useMemo(() => {
     const mine = todos.filter(t => t.userId === currentUser.id);
@@ -526,14 +690,14 @@ const Lists: React.FC<ListsProps> = ({
   
   const addTodo = () => {
       if(isReadOnly || !newItemText.trim()) return;
-      const { content, priority, isPrivate } = parseInput(newItemText);
+      // Priority and privacy are set in the edit modal
       onUpdateTodos([...todos, { 
           id: Date.now().toString(), 
-          content, 
+          content: newItemText.trim(), 
           isCompleted: false, 
           userId: currentUser.id, 
-          priority, 
-          isPrivate 
+          priority: 'NORMAL', 
+          isPrivate: false 
       }]);
       setNewItemText('');
   };
@@ -606,6 +770,53 @@ const Lists: React.FC<ListsProps> = ({
                           />
                       </div>
 
+                      {/* List */}
+                      {myLists.length > 0 && (
+                      <div>
+                          <label className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{t('item_modal.list')}</label>
+                          <select
+                              name="editShopItemList"
+                              value={editFormData.listId || ''}
+                              onChange={(e) => setEditFormData({ ...editFormData, listId: e.target.value || undefined })}
+                              className="w-full bg-gray-50 dark:bg-gray-700 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-100 dark:focus:ring-blue-800 dark:text-white"
+                          >
+                              <option value="">🛒 {t('lists.main_list')}</option>
+                              {myLists.filter(l => !l.isArchived || l.id === editFormData.listId).map(l => (
+                                  <option key={l.id} value={l.id}>{l.icon || '📝'} {l.name}</option>
+                              ))}
+                          </select>
+                      </div>
+                      )}
+
+                      {/* Quantity */}
+                      <div>
+                          <label className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{t('item_modal.quantity')}</label>
+                          <div className="flex gap-2">
+                              <input 
+                                  type="number" 
+                                  name="editShopItemQuantity"
+                                  min={0}
+                                  step="any"
+                                  placeholder="1"
+                                  value={editFormData.quantity ?? ''}
+                                  onChange={(e) => setEditFormData({ ...editFormData, quantity: e.target.value ? parseFloat(e.target.value) : undefined })}
+                                  className="w-24 bg-gray-50 dark:bg-gray-700 rounded-lg px-3 py-2 text-sm font-bold outline-none focus:ring-2 focus:ring-blue-100 dark:focus:ring-blue-800 dark:text-white"
+                              />
+                              <input 
+                                  type="text" 
+                                  name="editShopItemUnit"
+                                  list="shopItemUnits"
+                                  placeholder={t('item_modal.unit')}
+                                  value={editFormData.unit || ''}
+                                  onChange={(e) => setEditFormData({ ...editFormData, unit: e.target.value || undefined })}
+                                  className="flex-1 min-w-0 bg-gray-50 dark:bg-gray-700 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-100 dark:focus:ring-blue-800 dark:text-white dark:placeholder-gray-500"
+                              />
+                              <datalist id="shopItemUnits">
+                                  {['g', 'kg', 'ml', 'cl', 'l', 'pack', 'box', 'bottle', 'can', 'jar', 'bag', 'bunch', 'dozen'].map(u => <option key={u} value={u} />)}
+                              </datalist>
+                          </div>
+                      </div>
+
                       {/* Note */}
                       <div>
                           <label className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{t('item_modal.note')}</label>
@@ -726,6 +937,8 @@ const Lists: React.FC<ListsProps> = ({
                                    className="w-full pl-10 pr-8 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg text-sm font-medium text-gray-800 dark:text-white border-transparent focus:border-blue-500 focus:ring-0 cursor-pointer"
                                    portalId="root"
                                    locale={currentUser.preferences?.language?.split('-')[0] || 'en'}
+                                   calendarStartDay={getWeekStart(currentUser.preferences)}
+                                   showWeekNumbers={currentUser.preferences?.showWeekNumbers}
                                    showMonthDropdown
                                    showYearDropdown
                                    dropdownMode="select"
@@ -787,6 +1000,151 @@ const Lists: React.FC<ListsProps> = ({
           document.body
       )}
 
+      {/* Shopping List Modal (new / edit) */}
+      {listFormData && createPortal(
+          <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => setListFormData(null)}>
+              <div 
+                  className="bg-white dark:bg-gray-800 w-full max-w-sm rounded-2xl shadow-2xl relative overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col sm:max-h-[90vh]" 
+                  onClick={e => e.stopPropagation()}
+              >
+                  <div className="flex justify-between items-center p-4 border-b dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 shrink-0">
+                      <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 uppercase tracking-wide">
+                          {shoppingLists.some(l => l.id === listFormData.id) ? t('lists.edit_list') : t('lists.new_list')}
+                      </h3>
+                      <button onClick={() => setListFormData(null)} className="p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full text-gray-500 dark:text-gray-400"><X size={20}/></button>
+                  </div>
+
+                  <div className="p-5 flex flex-col gap-5 overflow-y-auto custom-scrollbar flex-1">
+                      {/* Icon + Name */}
+                      <div className="flex gap-2 items-end">
+                          <input 
+                              type="text" 
+                              name="shoppingListIcon"
+                              aria-label={t('lists.list_icon')}
+                              value={listFormData.icon || ''}
+                              maxLength={4}
+                              onChange={(e) => setListFormData({ ...listFormData, icon: e.target.value || undefined })}
+                              className="w-12 text-2xl text-center border-b-2 border-gray-100 dark:border-gray-700 focus:border-blue-500 outline-none py-2 bg-transparent"
+                          />
+                          <input 
+                              type="text" 
+                              name="shoppingListName"
+                              autoFocus
+                              placeholder={t('lists.list_name')}
+                              value={listFormData.name}
+                              onChange={(e) => setListFormData({ ...listFormData, name: e.target.value })}
+                              onKeyDown={(e) => e.key === 'Enter' && saveListForm()}
+                              className="flex-1 min-w-0 text-xl font-bold border-b-2 border-gray-100 dark:border-gray-700 focus:border-blue-500 outline-none py-2 text-gray-800 dark:text-gray-100 bg-transparent placeholder-gray-300 dark:placeholder-gray-600"
+                          />
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                          {['🛍️', '🛒', '🎉', '🎂', '🏕️', '🎄', '🏠', '🧺'].map(icon => (
+                              <button key={icon} onClick={() => setListFormData({ ...listFormData, icon })} className={`w-8 h-8 rounded-lg text-lg ${listFormData.icon === icon ? 'bg-blue-100 dark:bg-blue-900/40' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}>{icon}</button>
+                          ))}
+                      </div>
+
+                      {/* Members (privacy) */}
+                      <div>
+                          <label className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{t('lists.list_members')}</label>
+                          <div className="flex flex-wrap gap-2">
+                              {users.map((u: User) => {
+                                  const isMember = listFormData.memberIds.includes(u.id);
+                                  return (
+                                      <button
+                                          key={u.id}
+                                          onClick={() => setListFormData({ ...listFormData, memberIds: isMember ? listFormData.memberIds.filter(id => id !== u.id) : [...listFormData.memberIds, u.id] })}
+                                          className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-bold transition-all ${isMember ? 'text-white border-transparent' : 'bg-white dark:bg-gray-800 text-gray-500 dark:text-gray-400 border-gray-200 dark:border-gray-600'}`}
+                                          style={isMember ? { backgroundColor: getUserColor(u) } : undefined}
+                                      >
+                                          <span>{u.avatar}</span> {u.username}
+                                      </button>
+                                  );
+                              })}
+                          </div>
+                          <p className="text-[0.65rem] text-gray-400 mt-1 flex items-center gap-1">
+                              {listFormData.memberIds.length > 0 && <Lock size={10} />}
+                              {listFormData.memberIds.length > 0 ? t('lists.list_members_private') : t('lists.list_members_everyone')}
+                          </p>
+                      </div>
+
+                      {/* Archive */}
+                      {shoppingLists.some(l => l.id === listFormData.id) && (
+                          <label className="flex items-center gap-2 text-xs font-bold text-gray-500 dark:text-gray-400 cursor-pointer">
+                              <input type="checkbox" checked={!!listFormData.isArchived} onChange={(e) => setListFormData({ ...listFormData, isArchived: e.target.checked || undefined })} className="rounded text-blue-600 focus:ring-0 w-4 h-4 border-gray-300 dark:border-gray-600 dark:bg-gray-700" />
+                              <Archive size={14} /> {t('lists.archive_list')}
+                          </label>
+                      )}
+                  </div>
+
+                  <div className="p-4 border-t dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 flex gap-3 shrink-0">
+                      {shoppingLists.some(l => l.id === listFormData.id) && (
+                          <button onClick={() => deleteList(listFormData)} title={t('lists.delete_list')} className="p-3 text-red-500 dark:text-red-400 font-bold bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20"><Trash2 size={20} /></button>
+                      )}
+                      <button 
+                        onClick={saveListForm} 
+                        disabled={!listFormData.name.trim()}
+                        className="flex-1 py-3 text-white font-bold bg-blue-600 rounded-xl hover:bg-blue-700 shadow-lg flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Save size={18} /> {t('item_modal.save_changes')}
+                      </button>
+                  </div>
+              </div>
+          </div>,
+          document.body
+      )}
+
+      {/* Shopping Mode: store picker, then the full-screen checkout view */}
+      {shoppingModeStoreId === '' && createPortal(
+          <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => setShoppingModeStoreId(null)}>
+              <div className="bg-white dark:bg-gray-800 w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+                  <div className="flex justify-between items-center p-4 border-b dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+                      <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 uppercase tracking-wide">{t('lists.pick_store')}</h3>
+                      <button onClick={() => setShoppingModeStoreId(null)} className="p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full text-gray-500 dark:text-gray-400"><X size={20}/></button>
+                  </div>
+                  <div className="p-3 space-y-2 max-h-[60vh] overflow-y-auto custom-scrollbar">
+                      {sortedStores.map(store => {
+                          const storeCatIds = categories.filter(c => c.storeId === store.id).map(c => c.id);
+                          const count = listItems.filter(i => !i.isInCart && storeCatIds.includes(getMyCategoryId(i) || '')).length;
+                          return (
+                              <button key={store.id} onClick={() => setShoppingModeStoreId(store.id)} className="w-full flex items-center gap-3 p-4 rounded-xl border border-gray-200 dark:border-gray-700 hover:bg-blue-50 dark:hover:bg-blue-900/20 text-left">
+                                  <Store size={20} className="text-gray-500 dark:text-gray-400 shrink-0" />
+                                  <span className="flex-1 font-bold text-gray-800 dark:text-gray-100">{store.name}</span>
+                                  <span className="text-xs font-bold text-gray-400">{t('lists.items_remaining', { count })}</span>
+                              </button>
+                          );
+                      })}
+                  </div>
+              </div>
+          </div>,
+          document.body
+      )}
+      {shoppingModeStoreId && createPortal(
+          <ShoppingMode
+              store={stores.find(s => s.id === shoppingModeStoreId)}
+              listName={activeList ? `${activeList.icon || '📝'} ${activeList.name}` : t('lists.main_list')}
+              categories={sortedCategories.filter(c => c.storeId === shoppingModeStoreId)}
+              items={getTripItems(shoppingModeStoreId)}
+              getCategoryId={getMyCategoryId}
+              formatItemQuantity={formatItemQuantity}
+              toggleShopItem={toggleShopItem}
+              onFinish={(startedAt: string) => finishTrip(shoppingModeStoreId, startedAt)}
+              onClose={() => setShoppingModeStoreId(null)}
+              t={t}
+          />,
+          document.body
+      )}
+
+      {showStats && createPortal(
+          <PurchaseStats
+              users={users}
+              stores={stores}
+              getUserColor={getUserColor}
+              onClose={() => setShowStats(false)}
+              t={t}
+          />,
+          document.body
+      )}
+
       {/* Tabs */}
       <div className="flex bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 shrink-0">
         <button onClick={() => onTabChange('shopping')} className={`flex-1 py-3 text-xs sm:text-sm font-bold uppercase tracking-wider flex items-center justify-center gap-2 ${currentTab === 'shopping' ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-600 dark:border-blue-400' : 'text-gray-400 dark:text-gray-500'}`}>
@@ -797,12 +1155,72 @@ const Lists: React.FC<ListsProps> = ({
         </button>
       </div>
 
+      {/* List Switcher */}
+      {currentTab === 'shopping' && (
+          <div className="bg-white dark:bg-gray-800 px-3 pt-3 flex gap-2 overflow-x-auto no-scrollbar shrink-0">
+              <ListChip
+                  icon="🛒"
+                  name={t('lists.main_list')}
+                  count={shoppingList.filter(i => !i.listId && !i.isInCart).length}
+                  isActive={!currentListId}
+                  onClick={() => setActiveListId('')}
+              />
+              {myLists.filter(l => !l.isArchived || showArchivedLists || l.id === currentListId).map(list => (
+                  <ListChip
+                      key={list.id}
+                      icon={list.icon || '📝'}
+                      name={list.name}
+                      count={shoppingList.filter(i => i.listId === list.id && !i.isInCart).length}
+                      isActive={list.id === currentListId}
+                      isPrivate={list.memberIds.length > 0}
+                      isArchived={list.isArchived}
+                      onClick={() => setActiveListId(list.id)}
+                      onEdit={list.id === currentListId && !isReadOnly ? () => setListFormData({ ...list }) : undefined}
+                      t={t}
+                  />
+              ))}
+              {myLists.some(l => l.isArchived) && (
+                  <button
+                      onClick={() => setShowArchivedLists(!showArchivedLists)}
+                      title={t('lists.show_archived')}
+                      className={`p-1.5 rounded-full shrink-0 transition-colors ${showArchivedLists ? 'bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200' : 'text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                  >
+                      <Archive size={14} />
+                  </button>
+              )}
+              {!isReadOnly && (
+                  <button
+                      onClick={() => setListFormData({ id: Date.now().toString(), name: '', icon: '🛍️', memberIds: [], order: shoppingLists.length })}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-full border border-dashed border-gray-300 dark:border-gray-600 text-xs font-bold text-gray-500 dark:text-gray-400 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 whitespace-nowrap shrink-0"
+                  >
+                      <Plus size={12} /> {t('lists.new_list')}
+                  </button>
+              )}
+          </div>
+      )}
+
       {/* Controls */}
       {currentTab === 'shopping' && (
           <div className="bg-white dark:bg-gray-800 p-3 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center shrink-0">
               <div className="text-xs font-bold text-gray-500 dark:text-gray-400">
-                  {t('lists.items_remaining', {count: shoppingList.filter(i => !i.isInCart).length})}
+                  {t('lists.items_remaining', {count: listItems.filter(i => !i.isInCart).length})}
               </div>
+              <div className="flex items-center gap-2">
+              <button 
+                onClick={() => setShowStats(true)}
+                title={t('lists.stats')}
+                className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                  <BarChart3 size={16} />
+              </button>
+              {!isReadOnly && stores.length > 0 && (
+                  <button 
+                    onClick={() => setShoppingModeStoreId(sortedStores.length === 1 ? sortedStores[0].id : '')}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-bold bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 hover:bg-green-200 dark:hover:bg-green-900/50 transition-all"
+                  >
+                      <ShoppingCart size={14} /> {t('lists.shopping_mode')}
+                  </button>
+              )}
               <button 
                 onClick={() => setHideEmpty(!hideEmpty)} 
                 className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-bold transition-all ${hideEmpty ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400' : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}
@@ -810,6 +1228,7 @@ const Lists: React.FC<ListsProps> = ({
                   {hideEmpty ? <Eye size={14} /> : <Eye size={14} className="text-gray-400" />}
                   {hideEmpty ? t('lists.show_all') : t('lists.hide_empty')}
               </button>
+              </div>
           </div>
       )}
 
@@ -824,15 +1243,16 @@ const Lists: React.FC<ListsProps> = ({
             onChange={(e) => { setNewItemText(e.target.value); setShowHistory(true); }}
             onFocus={() => setShowHistory(true)}
             onKeyDown={(e) => e.key === 'Enter' && (currentTab === 'shopping' ? addShoppingItem() : addTodo())}
-            placeholder={currentTab === 'shopping' ? t('lists.add_item') : t('lists.add_task')}
+            disabled={currentTab === 'shopping' && isListSaving}
+            placeholder={currentTab === 'shopping' ? (activeList ? t('lists.add_item_to', { list: activeList.name }) : t('lists.add_item')) : t('lists.add_task')}
             className="flex-1 bg-gray-100 dark:bg-gray-700 border-0 rounded-lg px-4 text-sm focus:ring-2 focus:ring-blue-500 dark:text-white"
           />
           <button onClick={() => currentTab === 'shopping' ? addShoppingItem() : addTodo()} className="bg-blue-600 text-white px-3 sm:px-4 rounded-lg hover:bg-blue-700 active:scale-95 transition-transform"><Plus size={20} /></button>
           
           {/* History Dropdown */}
-          {currentTab === 'shopping' && showHistory && (newItemText || historyItems.length > 0) && (
+          {currentTab === 'shopping' && showHistory && (newItemText || autocompleteItems.length > 0) && (
               <div className="absolute top-full left-0 right-12 mt-1 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-100 dark:border-gray-700 max-h-48 overflow-y-auto z-50">
-                  {historyItems.filter(h => h.toLowerCase().includes(newItemText.toLowerCase())).map(h => (
+                  {autocompleteItems.filter(h => h.toLowerCase().includes(newItemText.toLowerCase())).map(h => (
                       <button key={h} onClick={() => addShoppingItem(h)} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center justify-between group text-gray-700 dark:text-gray-200">
                           <span className="font-medium">{h}</span>
                           <History size={12} className="text-gray-300 group-hover:text-blue-400"/>
@@ -844,10 +1264,22 @@ const Lists: React.FC<ListsProps> = ({
       </div>
       )}
 
+      {actionError && (
+          <div className="mx-3 mt-3 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800/50 text-sm text-red-700 dark:text-red-400 flex items-center gap-2 shrink-0">
+              <AlertCircle size={16} className="shrink-0" />
+              <span className="flex-1">{actionError}</span>
+              <button onClick={() => setActionError(null)} className="p-1 rounded-full hover:bg-red-100 dark:hover:bg-red-900/40"><X size={14} /></button>
+          </div>
+      )}
+
       {/* List Content */}
       <div className="flex-1 overflow-y-auto p-2 sm:p-4 space-y-6 pb-20 custom-scrollbar relative">
         {currentTab === 'shopping' && (
             <>
+                {!isReadOnly && runningLow.length > 0 && (
+                    <RunningLowStrip items={runningLow} onAdd={addShoppingItem} disabled={isListSaving} t={t} />
+                )}
+
                 {renderGroups.map((node, idx) => {
                     if (node.type === 'STORE') {
                         return (
@@ -908,7 +1340,7 @@ const Lists: React.FC<ListsProps> = ({
                     return null;
                 })}
                 
-                {shoppingList.length === 0 && (
+                {listItems.length === 0 && (
                     <div className="text-center text-gray-400 dark:text-gray-600 mt-10 flex flex-col items-center">
                         <ShoppingBag size={48} className="opacity-20 mb-2"/>
                         <p>{t('lists.empty_shopping')}</p>
@@ -970,10 +1402,10 @@ const Lists: React.FC<ListsProps> = ({
         )}
       </div>
       
-      {currentTab === 'shopping' && shoppingList.some(i => i.isInCart) && (
+      {currentTab === 'shopping' && listItems.some(i => i.isInCart) && (
           <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 animate-in slide-in-from-bottom-5 w-auto">
-              <button onClick={clearCart} className="px-6 py-3 text-sm font-bold text-white bg-red-600 rounded-xl hover:bg-red-700 flex items-center justify-center gap-2 shadow-xl shadow-red-200 dark:shadow-red-900/20 active:scale-95 transition-all whitespace-nowrap">
-                  <Trash2 size={16} /> {t('lists.clear_checked')}
+              <button onClick={() => clearCart()} disabled={isClearingCart} className="px-6 py-3 text-sm font-bold text-white bg-red-600 rounded-xl hover:bg-red-700 flex items-center justify-center gap-2 shadow-xl shadow-red-200 dark:shadow-red-900/20 active:scale-95 transition-all whitespace-nowrap disabled:opacity-60">
+                  {isClearingCart ? <div className="w-4 h-4 border-2 border-white/40 border-t-white rounded-full animate-spin" /> : <Trash2 size={16} />} {t('lists.clear_checked')}
               </button>
           </div>
       )}
@@ -990,6 +1422,298 @@ const Lists: React.FC<ListsProps> = ({
 };
 
 // Sub-Components
+// "Probably running low": regular purchases due again, one tap to add
+const RunningLowStrip = ({ items, onAdd, disabled, t }: any) => (
+    <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800/50 rounded-xl p-3">
+        <div className="flex items-center gap-1.5 mb-2 text-xs font-bold text-amber-700 dark:text-amber-400 uppercase tracking-wide">
+            <Sparkles size={14} /> {t('lists.running_low')}
+        </div>
+        <div className="flex gap-2 overflow-x-auto no-scrollbar pb-0.5">
+            {items.map((item: RunningLowItem) => (
+                <button
+                    key={item.content}
+                    onClick={() => onAdd(item.content)}
+                    disabled={disabled}
+                    title={t('lists.running_low_hint', { count: item.daysSince, interval: item.intervalDays })}
+                    className="shrink-0 flex items-center gap-1.5 pl-2 pr-3 py-1.5 rounded-full bg-white dark:bg-gray-800 border border-amber-200 dark:border-amber-800 text-sm font-medium text-gray-700 dark:text-gray-200 hover:border-amber-400 active:scale-95 transition-all disabled:opacity-50"
+                >
+                    <Plus size={14} className="text-amber-600 dark:text-amber-400" />
+                    {item.content}
+                    <span className="text-[0.625rem] text-gray-400">{t('lists.running_low_every', { count: item.intervalDays })}</span>
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
+// Purchase analytics: most bought items, how often, and who does the shopping
+const PurchaseStats = ({ users, stores, getUserColor, onClose, t }: any) => {
+    const [history, setHistory] = useState<PurchaseRecord[] | null>(null);
+    const [trips, setTrips] = useState<ShoppingTrip[]>([]);
+
+    useEffect(() => {
+        Promise.all([storage.getShoppingHistory(), storage.getShoppingTrips()]).then(([h, tr]) => {
+            setHistory(h);
+            setTrips(tr);
+        });
+    }, []);
+
+    const stats = useMemo(() => getPurchaseStats(history || []).slice(0, 15), [history]);
+    const monthAgo = new Date(Date.now() - 30 * 86400000).toISOString();
+    const recentTrips = trips.filter(tr => tr.finishedAt >= monthAgo);
+    const avgMinutes = trips.length ? Math.round(trips.reduce((sum, tr) => sum + (new Date(tr.finishedAt).getTime() - new Date(tr.startedAt).getTime()), 0) / trips.length / 60000) : null;
+    const shoppers = users
+        .map((u: User) => ({
+            user: u,
+            items: (history || []).filter(r => r.boughtByUserId === u.id).length,
+            trips: trips.filter(tr => tr.userId === u.id).length
+        }))
+        .filter((s: any) => s.items > 0 || s.trips > 0)
+        .sort((a: any, b: any) => b.items - a.items);
+    const topCount = stats[0]?.count || 1;
+    const topShopper = shoppers[0]?.items || 1;
+    const favoriteStore = (userId: string) => {
+        const counts: Record<string, number> = {};
+        trips.filter(tr => tr.userId === userId && tr.storeId).forEach(tr => { counts[tr.storeId!] = (counts[tr.storeId!] || 0) + 1; });
+        const best = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+        return best ? stores.find((s: ShoppingStore) => s.id === best[0])?.name : undefined;
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 w-full max-w-md rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col h-full sm:h-auto sm:max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center p-4 border-b dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 shrink-0">
+                    <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 uppercase tracking-wide flex items-center gap-2"><BarChart3 size={20} /> {t('lists.stats')}</h3>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full text-gray-500 dark:text-gray-400"><X size={20}/></button>
+                </div>
+
+                <div className="p-5 flex flex-col gap-6 overflow-y-auto custom-scrollbar flex-1">
+                    {history === null && <div className="flex justify-center py-10"><div className="w-6 h-6 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin" /></div>}
+                    {history !== null && history.length === 0 && (
+                        <div className="text-center text-gray-400 dark:text-gray-600 py-10 flex flex-col items-center gap-2">
+                            <BarChart3 size={48} className="opacity-20" />
+                            <p className="text-sm">{t('lists.stats_empty')}</p>
+                        </div>
+                    )}
+                    {history !== null && history.length > 0 && (
+                        <>
+                            <div className="grid grid-cols-3 gap-2 text-center">
+                                <div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-3">
+                                    <div className="text-2xl font-bold text-gray-800 dark:text-gray-100">{recentTrips.length}</div>
+                                    <div className="text-[0.6rem] font-bold text-gray-400 uppercase">{t('lists.stats_trips_month')}</div>
+                                </div>
+                                <div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-3">
+                                    <div className="text-2xl font-bold text-gray-800 dark:text-gray-100">{history.filter(r => r.boughtAt >= monthAgo).length}</div>
+                                    <div className="text-[0.6rem] font-bold text-gray-400 uppercase">{t('lists.stats_items_month')}</div>
+                                </div>
+                                <div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-3">
+                                    <div className="text-2xl font-bold text-gray-800 dark:text-gray-100">{avgMinutes !== null ? `${avgMinutes}′` : '–'}</div>
+                                    <div className="text-[0.6rem] font-bold text-gray-400 uppercase">{t('lists.stats_trip_length')}</div>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-2 block">{t('lists.stats_top_items')}</label>
+                                <div className="space-y-2">
+                                    {stats.map(stat => (
+                                        <div key={stat.content}>
+                                            <div className="flex items-baseline justify-between gap-2 text-sm">
+                                                <span className="font-bold text-gray-800 dark:text-gray-100 truncate">{stat.content}</span>
+                                                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                                                    {t('lists.stats_times', { count: stat.count })}
+                                                    {stat.intervalDays !== undefined && ` · ${t('lists.stats_every', { count: stat.intervalDays })}`}
+                                                </span>
+                                            </div>
+                                            <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full mt-1 overflow-hidden">
+                                                <div className="h-full bg-blue-500 rounded-full" style={{ width: `${(stat.count / topCount) * 100}%` }} />
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="text-[0.625rem] font-bold text-gray-400 uppercase tracking-wider mb-2 block">{t('lists.stats_shoppers')}</label>
+                                <div className="space-y-2">
+                                    {shoppers.map((s: any) => (
+                                        <div key={s.user.id}>
+                                            <div className="flex items-baseline justify-between gap-2 text-sm">
+                                                <span className="font-bold text-gray-800 dark:text-gray-100 truncate">{s.user.avatar} {s.user.username}</span>
+                                                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                                                    {t('lists.stats_items', { count: s.items })} · {t('lists.stats_trip_count', { count: s.trips })}
+                                                    {favoriteStore(s.user.id) && ` · ${favoriteStore(s.user.id)}`}
+                                                </span>
+                                            </div>
+                                            <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full mt-1 overflow-hidden">
+                                                <div className="h-full rounded-full" style={{ width: `${(s.items / topShopper) * 100}%`, backgroundColor: getUserColor(s.user) }} />
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// In-store checkout: big tap targets in aisle (category) order, the screen kept awake
+const ShoppingMode = ({ store, listName, categories, items, getCategoryId, formatItemQuantity, toggleShopItem, onFinish, onClose, t }: any) => {
+    const [startedAt] = useState(() => new Date().toISOString());
+    const [showCart, setShowCart] = useState(false);
+    const [summary, setSummary] = useState<ShoppingTrip | null>(null);
+    const [isFinishing, setIsFinishing] = useState(false);
+    const [finishFailed, setFinishFailed] = useState(false);
+
+    // Wake Lock: released by the browser when the tab is hidden, so taken again on return.
+    // A request resolving after a newer one or after unmount is released right away.
+    useEffect(() => {
+        let active = true;
+        let lock: WakeLockSentinel | null = null;
+        const acquire = async () => {
+            if (!('wakeLock' in navigator) || document.visibilityState !== 'visible') return;
+            lock?.release().catch(() => {});
+            lock = null;
+            try {
+                const sentinel = await navigator.wakeLock.request('screen');
+                if (!active) { sentinel.release().catch(() => {}); return; }
+                lock?.release().catch(() => {});
+                lock = sentinel;
+            } catch { /* Not supported or denied (battery saver): the mode still works */ }
+        };
+        acquire();
+        document.addEventListener('visibilitychange', acquire);
+        return () => {
+            active = false;
+            document.removeEventListener('visibilitychange', acquire);
+            lock?.release().catch(() => {});
+        };
+    }, []);
+
+    const toBuy = items.filter((i: ShoppingItem) => !i.isInCart);
+    const sections = [
+        ...categories.map((c: ShoppingCategory) => ({ id: c.id, name: c.name, items: toBuy.filter((i: ShoppingItem) => getCategoryId(i) === c.id) })),
+        { id: 'other', name: t('lists.uncategorized'), items: toBuy.filter((i: ShoppingItem) => !getCategoryId(i)) }
+    ].filter(s => s.items.length > 0);
+    const inCart = items.filter((i: ShoppingItem) => i.isInCart);
+    const total = items.length;
+
+    const finish = async () => {
+        setIsFinishing(true);
+        setFinishFailed(false);
+        const trip = await onFinish(startedAt);
+        setIsFinishing(false);
+        if (trip) setSummary(trip);
+        else setFinishFailed(true);
+    };
+
+    const renderItem = (item: ShoppingItem) => {
+        const quantity = formatItemQuantity(item.quantity, item.unit);
+        return (
+            <button
+                key={item.id}
+                onClick={() => toggleShopItem(item.id)}
+                className={`w-full flex items-center gap-4 px-4 py-4 text-left rounded-xl border transition-colors active:scale-[0.99] ${item.isInCart ? 'bg-gray-50 dark:bg-gray-800/50 border-gray-100 dark:border-gray-800 text-gray-400' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-100'}`}
+            >
+                <span className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shrink-0 ${item.isInCart ? 'bg-green-500 border-green-500 text-white' : 'border-gray-300 dark:border-gray-600 text-transparent'}`}>
+                    <Check size={18} strokeWidth={3} />
+                </span>
+                <span className={`flex-1 min-w-0 ${item.isInCart ? 'line-through' : ''}`}>
+                    <span className="block text-lg font-bold truncate">{item.content}</span>
+                    {item.note && <span className="block text-xs text-gray-400 truncate">{item.note}</span>}
+                </span>
+                {quantity && <span className="text-sm font-bold text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 px-2 py-1 rounded-lg shrink-0">{quantity}</span>}
+            </button>
+        );
+    };
+
+    if (summary) {
+        const minutes = Math.max(1, Math.round((new Date(summary.finishedAt).getTime() - new Date(summary.startedAt).getTime()) / 60000));
+        return (
+            <div className="fixed inset-0 z-[100] bg-white dark:bg-gray-900 flex flex-col items-center justify-center p-6 text-center gap-4">
+                <Flag size={48} className="text-green-500" />
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">{t('lists.trip_done')}</h2>
+                <p className="text-gray-500 dark:text-gray-400">{t('lists.trip_summary', { count: summary.items.length, store: store?.name, minutes })}</p>
+                {summary.items.length > 0 && (
+                    <ul className="text-sm text-gray-600 dark:text-gray-300 max-h-[40vh] overflow-y-auto custom-scrollbar w-full max-w-sm text-left bg-gray-50 dark:bg-gray-800 rounded-xl p-3 space-y-1">
+                        {summary.items.map((content, i) => <li key={i} className="flex items-center gap-2"><Check size={12} className="text-green-500 shrink-0" /> {content}</li>)}
+                    </ul>
+                )}
+                <button onClick={onClose} className="mt-2 px-8 py-3 text-white font-bold bg-blue-600 rounded-xl hover:bg-blue-700 shadow-lg">{t('lists.trip_close')}</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-gray-50 dark:bg-gray-900 flex flex-col">
+            <div className="flex items-center gap-3 p-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 shrink-0">
+                <Store size={22} className="text-green-600 dark:text-green-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                    <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100 truncate">{store?.name}</h2>
+                    <p className="text-xs text-gray-400 truncate">{listName} · {t('lists.trip_progress', { done: inCart.length, total })}</p>
+                </div>
+                <button onClick={onClose} title={t('lists.exit_shopping_mode')} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full text-gray-500 dark:text-gray-400"><X size={24}/></button>
+            </div>
+            <div className="h-1 bg-gray-200 dark:bg-gray-700 shrink-0">
+                <div className="h-full bg-green-500 transition-all" style={{ width: `${total ? (inCart.length / total) * 100 : 0}%` }} />
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-5">
+                {sections.map(section => (
+                    <div key={section.id} className="space-y-2">
+                        <h3 className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider px-1">{section.name}</h3>
+                        {section.items.sort((a: ShoppingItem, b: ShoppingItem) => (a.order || 0) - (b.order || 0)).map(renderItem)}
+                    </div>
+                ))}
+                {sections.length === 0 && (
+                    <div className="text-center text-gray-400 dark:text-gray-600 pt-10 flex flex-col items-center gap-2">
+                        <ShoppingBag size={48} className="opacity-20"/>
+                        <p>{t('lists.trip_nothing_left')}</p>
+                    </div>
+                )}
+
+                {inCart.length > 0 && (
+                    <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                        <button onClick={() => setShowCart(!showCart)} className="flex items-center gap-1 text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider px-1">
+                            {showCart ? <ChevronDown size={14} /> : <ChevronRight size={14} />} {t('lists.in_cart', { count: inCart.length })}
+                        </button>
+                        {showCart && inCart.map(renderItem)}
+                    </div>
+                )}
+            </div>
+
+            <div className="p-4 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 shrink-0">
+                {finishFailed && <p className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400 mb-3"><AlertCircle size={16} className="shrink-0" /> {t('lists.archive_failed')}</p>}
+                <button
+                    onClick={finish}
+                    disabled={isFinishing}
+                    className="w-full py-4 text-white text-lg font-bold bg-green-600 rounded-xl hover:bg-green-700 shadow-lg flex items-center justify-center gap-2 active:scale-95 transition-transform disabled:opacity-60"
+                >
+                    <Flag size={20} /> {t('lists.finish_trip')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const ListChip = ({ icon, name, count, isActive, isPrivate, isArchived, onClick, onEdit, t }: any) => (
+    <div className={`flex items-center rounded-full border text-xs font-bold whitespace-nowrap shrink-0 transition-all ${isActive ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300'} ${isArchived ? 'opacity-60' : ''}`}>
+        <button onClick={onClick} className="flex items-center gap-1.5 pl-3 pr-2 py-1.5">
+            <span>{icon}</span>
+            <span className={isArchived ? 'line-through' : ''}>{name}</span>
+            {isPrivate && <Lock size={10} />}
+            {count > 0 && <span className={`px-1.5 rounded-full text-[0.6rem] ${isActive ? 'bg-white/25' : 'bg-gray-100 dark:bg-gray-700'}`}>{count}</span>}
+        </button>
+        {onEdit && (
+            <button onClick={onEdit} title={t('lists.edit_list')} className="pr-2.5 pl-0.5 py-1.5 opacity-80 hover:opacity-100">
+                <Edit2 size={12} />
+            </button>
+        )}
+    </div>
+);
+
 const CategoryBlock = ({ category, items, handleDragOver, handleDropOnCategory, handleCatDragEnter, dragOverCatId, ...props }: any) => {
     const { t } = useTranslation();
     const isDragTarget = dragOverCatId === category.id;
@@ -1041,6 +1765,7 @@ const ShoppingItemRow = ({
 
     // Check if saving (temp ID)
     const saving = item.id.length > 15;
+    const quantityLabel = formatQuantity(item.quantity, item.unit ? t(`units.${item.unit}`, { count: item.quantity, defaultValue: item.unit }) : undefined);
 
     return (
         <div 
@@ -1084,6 +1809,9 @@ const ShoppingItemRow = ({
                         <span className={`text-sm font-bold truncate leading-tight ${item.isInCart ? 'line-through text-gray-500 dark:text-gray-500' : 'text-gray-800 dark:text-gray-100'} ${saving ? 'italic text-gray-400' : ''}`}>
                             {item.content} {saving && t('lists.saving')}
                         </span>
+                        {quantityLabel && (
+                            <span className="text-[0.65rem] font-bold text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 px-1.5 py-0.5 rounded shrink-0">{quantityLabel}</span>
+                        )}
                     </div>
                     {suggestionText && (
                         <button 
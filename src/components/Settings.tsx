@@ -1,10 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { User, CalendarEvent, ShoppingItem, TodoItem, SystemSettings, ShoppingStore, ShoppingCategory } from '../types';
-import { PALETTES, PaletteKey } from '../constants';
-import { Shield, UserPlus, Trash2, AlertTriangle, Edit2, Check, X, Palette, Download, Upload, Database, CloudSun, Search, MapPin, Store, GripVertical, Image as ImageIcon, Smile, Calendar, Lock, Key, CheckCircle, Type, Plus, HelpCircle, FileDown, FileUp, WifiOff, Clock } from 'lucide-react';
+import { User, CalendarEvent, ShoppingItem, TodoItem, SystemSettings, ShoppingStore, ShoppingCategory, CalendarSubscription, IcalFeed, EventCategory, Birthday } from '../types';
+import { PALETTES, PaletteKey, BIRTHDAY_REMINDER_DAYS, getWeekStart } from '../constants';
+import { Shield, UserPlus, Trash2, AlertTriangle, Edit2, Check, X, Palette, Download, Upload, Database, CloudSun, Search, MapPin, Store, GripVertical, Image as ImageIcon, Smile, Calendar, Lock, Key, CheckCircle, Type, Plus, HelpCircle, FileDown, FileUp, WifiOff, Clock, Globe, Rss, RefreshCw, Copy, Link, Repeat, Bell, Moon, Tag, Cake } from 'lucide-react';
 import { fetchAvailableCountries, getUniqueSubdivisions, CountryInfo, searchCity } from '../services/integrations';
 import { storage } from '../services/storage';
+import { getNextBirthday, getBirthdayAge } from '../services/birthdays';
 import { generateICS, parseICS } from '../services/ical';
+import { mergeEventChanges } from '../services/recurrence';
+import { v4 as uuidv4 } from 'uuid';
+import { PushStatus, getPushStatus, enablePush, disablePush } from '../services/push';
+import { getBrowserTimeZone, getSupportedTimeZones } from '../services/timezone';
 import { saveAs } from 'file-saver';
 import { useUser } from '../contexts/UserContext';
 import { useTheme } from '../contexts/ThemeContext';
@@ -26,16 +31,36 @@ interface SettingsProps {
   onUpdateStores: (stores: ShoppingStore[]) => void;
   categories: ShoppingCategory[];
   onUpdateCategories: (categories: ShoppingCategory[]) => void;
+  eventCategories: EventCategory[];
+  onUpdateEventCategories: (categories: EventCategory[]) => void;
+  birthdays: Birthday[];
+  onUpdateBirthdays: (birthdays: Birthday[]) => void;
+  subscriptions: CalendarSubscription[];
+  onSubscriptionsChange: () => Promise<void>; // Reload subscriptions + their events after a change
   isReadOnly?: boolean;
   isServerLive?: boolean;
 }
 
+// .ics import wizard: what to do with each parsed event
+type ImportAction = 'import' | 'skip' | 'update' | 'duplicate';
+
+interface ImportRow {
+  event: Partial<CalendarEvent>;
+  match?: CalendarEvent; // Existing event it duplicates
+  action: ImportAction;
+}
+
+// Fields the file actually sets: parseICS leaves the others undefined/empty, an update keeps ours for those
+const definedFields = (event: Partial<CalendarEvent>): Partial<CalendarEvent> =>
+    Object.fromEntries(Object.entries(event).filter(([, value]) =>
+        value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)));
+
 const EMOJI_LIST = ['👨', '👩', '👦', '👧', '👶', '👴', '👵', '🙂', '😎', '🤓', '🤠', '👽', '🤖', '👻', '🐶', '🐱', '🦊', '🐻', '🐼', '🐨'];
 
 const Settings: React.FC<SettingsProps> = ({ 
   events, onUpdateEvents, shopping, onUpdateShopping, todos, onUpdateTodos,
   settings, onUpdateSettings, stores, onUpdateStores, categories, onUpdateCategories,
-  isReadOnly, isServerLive = true
+  eventCategories, onUpdateEventCategories, birthdays, onUpdateBirthdays, subscriptions, onSubscriptionsChange, isReadOnly, isServerLive = true
 }) => {
   // CONTEXT HOOKS
   const { t, i18n } = useTranslation();
@@ -55,6 +80,22 @@ const Settings: React.FC<SettingsProps> = ({
   const [passSuccess, setPassSuccess] = useState(''); 
   
   const [cityQuery, setCityQuery] = useState('');
+
+  // Calendar Subscriptions (ICS feeds)
+  const [newSubName, setNewSubName] = useState('');
+  const [newSubUrl, setNewSubUrl] = useState('');
+  const [newSubColor, setNewSubColor] = useState('#10b981');
+  const [syncingSubId, setSyncingSubId] = useState<string | null>(null);
+  const [subStatus, setSubStatus] = useState<{type: 'success'|'error', msg: string} | null>(null);
+
+  // Private iCal Feeds (per user)
+  const [icalFeeds, setIcalFeeds] = useState<IcalFeed[]>([]);
+  const [newFeedParticipant, setNewFeedParticipant] = useState('');
+  const [copiedFeedId, setCopiedFeedId] = useState<string | null>(null);
+
+  // Reminders on this device (Web Push)
+  const [pushStatus, setPushStatus] = useState<PushStatus>('off');
+  const [pushError, setPushError] = useState(false);
   const [cityResults, setCityResults] = useState<any[]>([]);
   const [isSearchingCity, setIsSearchingCity] = useState(false);
 
@@ -67,6 +108,7 @@ const Settings: React.FC<SettingsProps> = ({
   const [pruneStatus, setPruneStatus] = useState<{type: 'success'|'error', msg: string} | null>(null);
   const [backupStatus, setBackupStatus] = useState<{type: 'success'|'error', msg: string} | null>(null);
   const [importStatus, setImportStatus] = useState<{type: 'success'|'error', msg: string} | null>(null);
+  const [importPreview, setImportPreview] = useState<Partial<CalendarEvent>[] | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const icalInputRef = useRef<HTMLInputElement>(null);
@@ -83,6 +125,13 @@ const Settings: React.FC<SettingsProps> = ({
   const [editCatName, setEditCatName] = useState('');
   const [editCatStoreId, setEditCatStoreId] = useState<string>('');
 
+  const [newEventCatName, setNewEventCatName] = useState('');
+  const [newEventCatColor, setNewEventCatColor] = useState('#4E79A7');
+  const [editingEventCatId, setEditingEventCatId] = useState<string | null>(null);
+  const [editEventCatName, setEditEventCatName] = useState('');
+
+  const [newBirthday, setNewBirthday] = useState<{ name: string, kind: Birthday['kind'], month: number, day: string, year: string }>({ name: '', kind: 'birthday', month: 1, day: '', year: '' });
+
   const [validationError, setValidationError] = useState<{id: string, msg: string} | null>(null);
 
   const [draggedStoreId, setDraggedStoreId] = useState<string | null>(null);
@@ -106,6 +155,14 @@ const Settings: React.FC<SettingsProps> = ({
       loadCountries();
   }, []);
 
+  useEffect(() => {
+      if (isServerLive) storage.getIcalFeeds().then(setIcalFeeds);
+  }, [isServerLive, currentUser?.id]);
+
+  useEffect(() => {
+      getPushStatus().then(setPushStatus).catch(() => setPushStatus('unsupported'));
+  }, []);
+
   useEffect(() => {
     // Auto-select first store if none selected OR if selected ID no longer exists (ID Swap)
     if (stores.length > 0) {
@@ -199,12 +256,19 @@ const addUser = async () => {
       ), true);
   };
 
-  const updatePreference = (key: 'showWeather' | 'showMoonPhases' | 'showHolidays', val: boolean) => {
+  const updatePreference = (key: 'showWeather' | 'showMoonPhases' | 'showHolidays' | 'showWeekNumbers', val: boolean) => {
       onUpdateUsers(users.map(u => 
           u.id === currentUser.id ? { ...u, preferences: { ...u.preferences!, [key]: val } } : u
       ), true);
   };
   
+  // Both or none: half a range means nothing
+  const updateQuietHours = (start: string, end: string) => {
+      onUpdateUsers(users.map(u => 
+          u.id === currentUser.id ? { ...u, preferences: { ...u.preferences!, quietHoursStart: start || undefined, quietHoursEnd: end || undefined } } : u
+      ), true);
+  };
+  
   const toggleTheme = () => {
       const currentTheme = currentUser.preferences?.theme || 'LIGHT';
       const newTheme = currentTheme === 'LIGHT' ? 'DARK' : 'LIGHT';
@@ -296,6 +360,86 @@ const addUser = async () => {
       setIsSearchingCity(false);
   }
 
+  // --- Calendar Subscriptions ---
+  const syncSubscription = async (id: string) => {
+      setSyncingSubId(id);
+      setSubStatus(null);
+      try {
+          await storage.syncSubscription(id);
+          setSubStatus({ type: 'success', msg: t('settings.subscription_synced') });
+      } catch (e: any) {
+          setSubStatus({ type: 'error', msg: t('settings.subscription_sync_failed', { error: e?.message || '' }) });
+      }
+      setSyncingSubId(null);
+      await onSubscriptionsChange();
+  };
+
+  const addSubscription = async () => {
+      const url = newSubUrl.trim();
+      if (!newSubName.trim() || !/^(https?|webcal):\/\//i.test(url)) {
+          setSubStatus({ type: 'error', msg: t('settings.subscription_invalid') });
+          return;
+      }
+      try {
+          const created = await storage.createSubscription({ name: newSubName.trim(), url, color: newSubColor, enabled: true });
+          setNewSubName('');
+          setNewSubUrl('');
+          await syncSubscription(created.id);
+      } catch (e) {
+          console.error(e);
+          setSubStatus({ type: 'error', msg: t('settings.subscription_invalid') });
+      }
+  };
+
+  const updateSubscription = async (sub: CalendarSubscription) => {
+      try {
+          await storage.updateSubscription(sub);
+          await onSubscriptionsChange();
+      } catch (e) { console.error(e); }
+  };
+
+  const deleteSubscription = async (id: string) => {
+      try {
+          await storage.deleteSubscription(id);
+          await onSubscriptionsChange();
+      } catch (e) { console.error(e); }
+  };
+
+  // --- Reminders (Web Push) ---
+  const togglePush = async () => {
+      setPushError(false);
+      try {
+          setPushStatus(pushStatus === 'on' ? await disablePush() : await enablePush());
+      } catch (e) {
+          console.error(e);
+          setPushError(true);
+      }
+  };
+
+  // --- Private iCal Feeds ---
+  const createIcalFeed = async () => {
+      try {
+          const feed = await storage.createIcalFeed(newFeedParticipant || undefined);
+          setIcalFeeds(prev => [...prev, feed]);
+      } catch (e) { console.error(e); }
+  };
+
+  const revokeIcalFeed = async (id: string) => {
+      if (!window.confirm(t('settings.ical_feed_revoke_confirm'))) return;
+      try {
+          await storage.deleteIcalFeed(id);
+          setIcalFeeds(prev => prev.filter(f => f.id !== id));
+      } catch (e) { console.error(e); }
+  };
+
+  const copyIcalFeed = async (feed: IcalFeed) => {
+      try {
+          await navigator.clipboard.writeText(storage.getIcalFeedUrl(feed));
+          setCopiedFeedId(feed.id);
+          setTimeout(() => setCopiedFeedId(null), 2000);
+      } catch (e) { console.error(e); }
+  };
+
   const selectCity = (city: any) => {
       onUpdateSettings({
           ...settings,
@@ -343,6 +487,88 @@ const addUser = async () => {
       setEditingStoreId(null);
   };
 
+  // --- Event categories (CATEGORIES tags, matched by name) ---
+  const isEventCatNameTaken = (name: string, excludeId?: string) => {
+      return eventCategories.some(c => c.name.toLowerCase() === name.toLowerCase() && c.id !== excludeId);
+  };
+
+  // Tags live on the events themselves: renaming/deleting a category rewrites them
+  const retagEvents = (oldName: string, newName: string | null) => {
+      const key = oldName.toLowerCase();
+      const touched = events.filter(e => e.categories?.some(tag => tag.toLowerCase() === key));
+      if (touched.length === 0) return;
+      onUpdateEvents(events.map(e => {
+          if (!touched.includes(e)) return e;
+          const rest = e.categories!.filter(tag => tag.toLowerCase() !== key);
+          const next = newName ? [...rest, newName] : rest;
+          return { ...e, categories: next.length ? next : undefined };
+      }));
+  };
+
+  const addEventCategory = () => {
+      if (!newEventCatName.trim()) return;
+      if (isEventCatNameTaken(newEventCatName.trim())) {
+          triggerValidationError('new-event-cat', t('messages.name_taken'));
+          return;
+      }
+      onUpdateEventCategories([...eventCategories, {
+          id: Date.now().toString(),
+          name: newEventCatName.trim(),
+          color: newEventCatColor,
+          order: eventCategories.length
+      }]);
+      setNewEventCatName('');
+  };
+
+  const deleteEventCategory = (category: EventCategory) => {
+      onUpdateEventCategories(eventCategories.filter(c => c.id !== category.id));
+      retagEvents(category.name, null);
+  };
+
+  const saveEventCategoryName = (category: EventCategory) => {
+      const name = editEventCatName.trim();
+      if (!name) return;
+      if (isEventCatNameTaken(name, category.id)) {
+          triggerValidationError(category.id, t('messages.name_taken'));
+          return;
+      }
+      onUpdateEventCategories(eventCategories.map(c => c.id === category.id ? { ...c, name } : c));
+      if (name !== category.name) retagEvents(category.name, name);
+      setEditingEventCatId(null);
+  };
+
+  // --- Birthdays & anniversaries ---
+  const addBirthday = () => {
+      const name = newBirthday.name.trim();
+      const day = parseInt(newBirthday.day, 10);
+      const year = parseInt(newBirthday.year, 10);
+      if (!name) return;
+      // Day must exist in that month (29 Feb allowed, celebrated on the 28th in other years)
+      if (!day || day < 1 || day > new Date(2000, newBirthday.month, 0).getDate()) {
+          triggerValidationError('new-birthday-day', t('settings.birthday_invalid_date'));
+          return;
+      }
+      if (newBirthday.year && (!year || year < 1900 || year > new Date().getFullYear())) {
+          triggerValidationError('new-birthday-year', t('settings.birthday_invalid_year'));
+          return;
+      }
+      onUpdateBirthdays([...birthdays, {
+          id: Date.now().toString(),
+          name,
+          kind: newBirthday.kind,
+          month: newBirthday.month,
+          day,
+          year: year || undefined,
+          reminderDays: 1
+      }]);
+      setNewBirthday({ ...newBirthday, name: '', day: '', year: '' });
+  };
+
+  const formatBirthdayReminder = (days?: number) => {
+      if (days === undefined) return t('settings.birthday_no_reminder');
+      return days === 0 ? t('settings.birthday_reminder_same_day') : t('settings.birthday_reminder_days', { count: days });
+  };
+
   const handleStoreDragStart = (e: React.DragEvent, id: string) => {
       setDraggedStoreId(id);
       e.dataTransfer.effectAllowed = 'move';
@@ -490,13 +716,14 @@ const addUser = async () => {
   const handleExportIcal = () => {
       // Filter events where current user is a participant
       const myEvents = events.filter(e => e.userIds.includes(currentUser.id));
-      const icalString = generateICS(myEvents);
+      const icalString = generateICS(myEvents, users);
       const blob = new Blob([icalString], { type: 'text/calendar;charset=utf-8' });
       saveAs(blob, `familysync_${currentUser.username}.ics`);
   };
 
   const handleImportIcal = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
+      e.target.value = ''; // Allow picking the same file again
       if (!file) return;
       
       // Reset status
@@ -506,28 +733,15 @@ const addUser = async () => {
       reader.onload = async (ev) => {
           try {
               const content = ev.target?.result as string;
-              const parsedEvents = await parseICS(content);
+              const parsedEvents = await parseICS(content, users);
               
               if (parsedEvents.length === 0) {
                   setImportStatus({ type: 'error', msg: t('settings.no_events_in_file') });
                   return;
               }
 
-              // Import Logic
-              // 1. Assign Current User
-              // 2. Preserve icalUID for future sync potential
-              const newEvents = parsedEvents.map(e => ({
-                  ...e,
-                  id: Date.now().toString() + Math.random(), // Temp ID
-                  userIds: [currentUser.id]
-              }));
-
-              onUpdateEvents([...events, ...newEvents as CalendarEvent[]]);
-              setImportStatus({ type: 'success', msg: t('settings.import_success', { count: newEvents.length }) });
-              
-              // Clear success message after 3 seconds
-              setTimeout(() => setImportStatus(null), 3000);
-
+              // Nothing is saved until the user confirms the preview
+              setImportPreview(parsedEvents);
           } catch (err) {
               console.error(err);
               setImportStatus({ type: 'error', msg: t('settings.import_error') });
@@ -536,6 +750,59 @@ const addUser = async () => {
       reader.readAsText(file);
   };
 
+  const applyIcalImport = (rows: ImportRow[], participantIds: string[], useAttendees: boolean) => {
+      const updated: CalendarEvent[] = [];
+      const created: CalendarEvent[] = [];
+      const uidRemap = new Map<string, string>(); // Duplicated series get a new UID (their overrides follow)
+
+      rows.forEach(({ event, match, action }) => {
+          if (action === 'skip') return;
+          // 1. Family members from ATTENDEE, else the bulk selection
+          const userIds = useAttendees && event.userIds?.length ? event.userIds : participantIds;
+
+          if (action === 'update' && match) {
+              updated.push({ ...match, ...definedFields(event), id: match.id, icalUID: match.icalUID || event.icalUID, recurringEventId: match.recurringEventId, userIds } as CalendarEvent);
+              return;
+          }
+
+          // 2. Preserve icalUID for future sync potential (a duplicated series becomes a new one)
+          let icalUID = event.icalUID;
+          if (action === 'duplicate' && icalUID) {
+              if (!event.recurrenceId) uidRemap.set(icalUID, uuidv4());
+              icalUID = uidRemap.get(icalUID) || icalUID;
+          }
+
+          created.push({
+              ...event,
+              id: Date.now().toString() + Math.random(), // Temp ID
+              icalUID,
+              userIds
+          } as CalendarEvent);
+      });
+
+      // 3. Link overrides (RECURRENCE-ID) to their series, from this file or already in the calendar
+      const mastersByUID = new Map<string, string>();
+      [...created, ...updated, ...events].forEach(e => {
+          if (e.icalUID && !e.recurrenceId && !mastersByUID.has(e.icalUID)) mastersByUID.set(e.icalUID, e.id);
+      });
+      created.forEach(e => {
+          if (!e.recurrenceId || !e.icalUID) return;
+          e.icalUID = uidRemap.get(e.icalUID) || e.icalUID;
+          e.recurringEventId = mastersByUID.get(e.icalUID);
+      });
+
+      // 4. Like an edit in the app: overrides follow a moved series start or rule, new masters are saved first
+      onUpdateEvents(mergeEventChanges(events, [...updated, ...created]));
+      setImportPreview(null);
+      setImportStatus({
+          type: 'success',
+          msg: t('settings.import_summary', { added: created.length, updated: updated.length, skipped: rows.length - created.length - updated.length })
+      });
+      
+      // Clear success message after 3 seconds
+      setTimeout(() => setImportStatus(null), 3000);
+  };
+
   const handleClickPrune = () => {
       // Clear previous status
       setPruneStatus(null);
@@ -622,6 +889,18 @@ const addUser = async () => {
           </div>
       )}
 
+      {importPreview && (
+          <IcalImportWizard
+              parsed={importPreview}
+              events={events}
+              users={users}
+              currentUser={currentUser}
+              getColor={getColor}
+              onCancel={() => setImportPreview(null)}
+              onConfirm={applyIcalImport}
+          />
+      )}
+
       {editingUser && (
         <div className="absolute inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-sm overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
@@ -792,6 +1071,28 @@ const addUser = async () => {
                             <Clock size={14}/>
                         </div>
                     </button>
+                    <button 
+                        onClick={() => {
+                            const next = getWeekStart(currentUser.preferences) === 1 ? 0 : 1;
+                            onUpdateUsers(users.map(u => 
+                                u.id === currentUser.id ? { ...u, preferences: { ...u.preferences!, weekStart: next } } : u
+                            ), true);
+                        }}
+                        className="flex items-center justify-between p-2 rounded border text-xs font-bold border-gray-200 bg-white text-gray-500 dark:bg-gray-700 dark:border-gray-600"
+                    >
+                        <span>{t('settings.week_start')}</span>
+                        <div className="flex items-center gap-2">
+                            <span>{getWeekStart(currentUser.preferences) === 1 ? t('settings.monday') : t('settings.sunday')}</span>
+                            <Calendar size={14}/>
+                        </div>
+                    </button>
+                    <button 
+                        onClick={() => updatePreference('showWeekNumbers', !currentUser.preferences?.showWeekNumbers)}
+                        className={`flex items-center justify-between p-2 rounded border text-xs font-bold ${currentUser.preferences?.showWeekNumbers ? 'border-teal-200 bg-teal-50 text-teal-700 dark:bg-teal-900/20 dark:border-teal-800 dark:text-teal-400' : 'border-gray-200 bg-white text-gray-400 dark:bg-gray-700 dark:border-gray-600'}`}
+                    >
+                        <span>{t('settings.week_numbers')}</span>
+                        {currentUser.preferences?.showWeekNumbers ? <Check size={14}/> : <X size={14}/>}
+                    </button>
                 </div>
 
                 <div>
@@ -815,9 +1116,119 @@ const addUser = async () => {
                         })}
                     </div>
                 </div>
+
+                <div>
+                    <div className="flex items-center gap-2 mb-2">
+                        <Moon size={16} className="text-gray-400"/>
+                        <span className="text-xs font-bold text-gray-400 uppercase tracking-wide">{t('settings.quiet_hours')}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="time"
+                            name="quietHoursStart"
+                            aria-label={t('settings.quiet_hours_start')}
+                            value={currentUser.preferences?.quietHoursStart || ''}
+                            onChange={(e) => updateQuietHours(e.target.value, currentUser.preferences?.quietHoursEnd || (e.target.value ? '07:00' : ''))}
+                            className="flex-1 min-w-0 bg-gray-100 dark:bg-gray-700 rounded-lg px-3 py-2 text-xs font-bold text-gray-700 dark:text-gray-200 outline-none"
+                        />
+                        <span className="text-gray-400">-</span>
+                        <input
+                            type="time"
+                            name="quietHoursEnd"
+                            aria-label={t('settings.quiet_hours_end')}
+                            value={currentUser.preferences?.quietHoursEnd || ''}
+                            onChange={(e) => updateQuietHours(currentUser.preferences?.quietHoursStart || (e.target.value ? '21:00' : ''), e.target.value)}
+                            className="flex-1 min-w-0 bg-gray-100 dark:bg-gray-700 rounded-lg px-3 py-2 text-xs font-bold text-gray-700 dark:text-gray-200 outline-none"
+                        />
+                        {currentUser.preferences?.quietHoursStart && (
+                            <button onClick={() => updateQuietHours('', '')} title={t('settings.quiet_hours_clear')} className="p-2 text-gray-400 hover:text-red-500 rounded-lg">
+                                <X size={14}/>
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-[0.65rem] text-gray-400 mt-1">{t('settings.quiet_hours_desc')}</p>
+                </div>
             </div>
         </div>
 
+        {!isReadOnly && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-700/50 flex items-center gap-2">
+                    <Bell size={16} className="text-gray-500 dark:text-gray-400"/>
+                    <h3 className="font-bold text-gray-700 dark:text-gray-300 text-sm uppercase tracking-wide">{t('settings.reminders')}</h3>
+                </div>
+                <div className="p-4 space-y-3">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.reminders_desc')}</p>
+                    {pushStatus === 'unsupported' || pushStatus === 'denied' ? (
+                        <p className="text-xs font-bold text-orange-600 dark:text-orange-400 flex items-center gap-1">
+                            <AlertTriangle size={12}/> {t(`settings.push_${pushStatus}`)}
+                        </p>
+                    ) : (
+                        <label className="flex items-center justify-between gap-2 cursor-pointer">
+                            <span className="text-sm font-bold text-gray-700 dark:text-gray-200">{t('settings.push_this_device')}</span>
+                            <input type="checkbox" checked={pushStatus === 'on'} onChange={togglePush} disabled={!isServerLive} className="w-4 h-4"/>
+                        </label>
+                    )}
+                    {pushError && <p className="text-xs text-red-500">{t('settings.push_error')}</p>}
+                </div>
+            </div>
+        )}
+
+        {!isReadOnly && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-700/50 flex items-center gap-2">
+                    <Link size={16} className="text-gray-500 dark:text-gray-400"/>
+                    <h3 className="font-bold text-gray-700 dark:text-gray-300 text-sm uppercase tracking-wide">{t('settings.ical_feeds')}</h3>
+                </div>
+                <div className="p-4 space-y-3">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.ical_feeds_desc')}</p>
+                    <p className="text-[0.6rem] text-gray-400">
+                        {t('settings.caldav_hint')} <span className="font-mono select-all text-gray-600 dark:text-gray-300">{storage.getCaldavUrl()}</span>
+                    </p>
+
+                    {icalFeeds.map(feed => {
+                        const member = users.find(u => u.id === feed.participantId);
+                        const url = storage.getIcalFeedUrl(feed);
+                        return (
+                            <div key={feed.id} className="flex items-center gap-2 p-2 rounded-lg border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-bold text-gray-800 dark:text-gray-100 truncate">
+                                        {member ? t('settings.ical_feed_member', { name: member.username }) : t('settings.ical_feed_family')}
+                                    </div>
+                                    <a href={storage.getIcalFeedUrl(feed, true)} className="text-[0.6rem] text-blue-500 hover:underline truncate block" title={url}>{url}</a>
+                                </div>
+                                <button onClick={() => copyIcalFeed(feed)} title={t('settings.ical_feed_copy')} className={`p-1.5 rounded ${copiedFeedId === feed.id ? 'text-green-500' : 'text-gray-400 hover:text-blue-500'}`}>
+                                    {copiedFeedId === feed.id ? <Check size={14}/> : <Copy size={14}/>}
+                                </button>
+                                <button onClick={() => revokeIcalFeed(feed.id)} title={t('settings.ical_feed_revoke')} className="p-1.5 rounded text-gray-400 hover:text-red-500"><Trash2 size={14}/></button>
+                            </div>
+                        );
+                    })}
+
+                    <div className="flex gap-2 pt-1">
+                        <select
+                            name="icalFeedParticipant"
+                            value={newFeedParticipant}
+                            onChange={(e) => setNewFeedParticipant(e.target.value)}
+                            className="flex-1 min-w-0 text-xs p-2 rounded border dark:border-gray-600 outline-none focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-white"
+                        >
+                            <option value="">{t('settings.ical_feed_family')}</option>
+                            {users.map(u => (
+                                <option key={u.id} value={u.id}>{t('settings.ical_feed_member', { name: u.username })}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={createIcalFeed}
+                            disabled={!isServerLive}
+                            className="bg-blue-600 text-white px-3 rounded hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1 text-xs font-bold"
+                        >
+                            <Plus size={14} /> {t('settings.ical_feed_create')}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
         {currentUser.isAdmin && (
              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
                 <div className="p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-700/50 flex items-center gap-2">
@@ -1072,7 +1483,7 @@ const addUser = async () => {
                             </div>
                         ) : (
                             <p className="text-[0.6rem] text-blue-600/70 dark:text-blue-400/70 mt-2 text-center">
-                                Imports will be converted to your local time and assigned to you.
+                                Imports keep their time zone and are assigned to you.
                             </p>
                         )}
                     </div>
@@ -1113,6 +1524,26 @@ const addUser = async () => {
                         </div>
                     </div>
 
+                    <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg border border-gray-100 dark:border-gray-700">
+                        <div className="flex items-center gap-2 mb-3">
+                            <Globe size={16} className="text-blue-500"/>
+                            <label htmlFor="householdTimeZone" className="text-xs font-bold text-gray-400 uppercase">{t('settings.time_zone')}</label>
+                        </div>
+                        <select
+                            id="householdTimeZone"
+                            name="householdTimeZone"
+                            className="w-full text-sm border-gray-300 dark:border-gray-600 rounded-md p-2 bg-white dark:bg-gray-700 dark:text-white border outline-none focus:ring-1 focus:ring-blue-500"
+                            value={settings.timeZone || ''}
+                            onChange={(e) => onUpdateSettings({...settings, timeZone: e.target.value})}
+                        >
+                            <option value="">{t('settings.time_zone_device', { zone: getBrowserTimeZone().replace(/_/g, ' ') })}</option>
+                            {getSupportedTimeZones().map(tz => (
+                                <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>
+                            ))}
+                        </select>
+                        <p className="text-[0.6rem] text-gray-400 mt-2">{t('settings.time_zone_desc')}</p>
+                    </div>
+
                     <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-lg border border-gray-100 dark:border-gray-700">
                         <div className="flex items-center justify-between mb-3">
                              <div className="flex items-center gap-2">
@@ -1171,6 +1602,285 @@ const addUser = async () => {
             </div>
         )}
 
+        {currentUser.isAdmin && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-700/50 flex items-center gap-2">
+                    <Tag size={16} className="text-gray-500 dark:text-gray-400"/>
+                    <h3 className="font-bold text-gray-700 dark:text-gray-300 text-sm uppercase tracking-wide">{t('settings.event_categories')}</h3>
+                </div>
+                <div className="p-4 space-y-3">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.event_categories_desc')}</p>
+
+                    <div className="space-y-1">
+                        {[...eventCategories].sort((a, b) => a.order - b.order).map(c => {
+                            const isEditing = editingEventCatId === c.id;
+                            const isError = validationError?.id === c.id;
+                            return (
+                                <div key={c.id} className="flex items-center gap-2 text-sm bg-gray-50 dark:bg-gray-700/50 p-2 rounded border border-gray-100 dark:border-gray-700 relative">
+                                    <input
+                                        type="color"
+                                        value={c.color}
+                                        onChange={(e) => onUpdateEventCategories(eventCategories.map(x => x.id === c.id ? { ...x, color: e.target.value } : x))}
+                                        className="w-7 h-7 rounded cursor-pointer border-0 bg-transparent p-0 shrink-0"
+                                        title={t('settings.event_category_color')}
+                                    />
+                                    {isEditing ? (
+                                        <>
+                                            <input
+                                                name="editEventCategoryName"
+                                                autoFocus
+                                                onFocus={(e) => e.target.select()}
+                                                value={editEventCatName}
+                                                onChange={e => setEditEventCatName(e.target.value)}
+                                                onKeyDown={e => e.key === 'Enter' && saveEventCategoryName(c)}
+                                                className={`flex-1 min-w-0 bg-white dark:bg-gray-700 border rounded px-1 py-0.5 outline-none dark:text-white ${isError ? 'border-red-500 animate-shake' : 'border-blue-300'}`}
+                                            />
+                                            <button onClick={() => saveEventCategoryName(c)} className="text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20 p-1 rounded"><Check size={14}/></button>
+                                            <button onClick={() => setEditingEventCatId(null)} className="text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 p-1 rounded"><X size={14}/></button>
+                                            {isError && (
+                                                <div className="absolute bottom-full left-0 mb-1 text-[0.6rem] text-white bg-red-500 font-bold px-2 py-0.5 rounded shadow-sm z-10">
+                                                   {validationError.msg}
+                                                </div>
+                                            )}
+                                        </>
+                                    ) : (
+                                        <>
+                                            <span className="font-bold text-gray-700 dark:text-gray-200 flex-1 truncate">{c.name}</span>
+                                            <span className="text-[0.6rem] text-gray-400">{t('settings.event_category_count', { count: events.filter(e => e.categories?.some(tag => tag.toLowerCase() === c.name.toLowerCase())).length })}</span>
+                                            <button onClick={() => { setEditingEventCatId(c.id); setEditEventCatName(c.name); }} className="text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"><Edit2 size={12}/></button>
+                                            <button onClick={() => deleteEventCategory(c)} className="text-gray-400 hover:text-red-500 ml-2"><Trash2 size={14}/></button>
+                                        </>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <div className="flex gap-2 relative">
+                        <input
+                            type="text"
+                            name="newEventCategoryName"
+                            placeholder={t('settings.new_event_category')}
+                            value={newEventCatName}
+                            onChange={(e) => setNewEventCatName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && addEventCategory()}
+                            className={`flex-1 min-w-0 text-xs p-2 rounded border dark:border-gray-600 outline-none focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-white ${validationError?.id === 'new-event-cat' ? 'border-red-500 animate-shake' : ''}`}
+                        />
+                        <input
+                            type="color"
+                            value={newEventCatColor}
+                            onChange={(e) => setNewEventCatColor(e.target.value)}
+                            className="w-9 h-9 rounded cursor-pointer border-0 bg-transparent p-0 shrink-0"
+                            title={t('settings.event_category_color')}
+                        />
+                        <button onClick={addEventCategory} disabled={!newEventCatName.trim()} className="bg-blue-600 text-white px-3 rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"><Plus size={14}/></button>
+                        {validationError?.id === 'new-event-cat' && (
+                            <div className="absolute top-full left-0 mt-1 text-[0.6rem] text-red-500 font-bold flex items-center gap-1 bg-red-50 px-2 py-0.5 rounded shadow-sm z-10">
+                                <AlertTriangle size={8} /> {validationError.msg}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {currentUser.isAdmin && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-700/50 flex items-center gap-2">
+                    <Cake size={16} className="text-gray-500 dark:text-gray-400"/>
+                    <h3 className="font-bold text-gray-700 dark:text-gray-300 text-sm uppercase tracking-wide">{t('settings.birthdays')}</h3>
+                </div>
+                <div className="p-4 space-y-3">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.birthdays_desc')}</p>
+
+                    {/* Soonest first */}
+                    <div className="space-y-1">
+                        {[...birthdays].sort((a, b) => getNextBirthday(a).getTime() - getNextBirthday(b).getTime()).map(b => {
+                            const next = getNextBirthday(b);
+                            const age = getBirthdayAge(b, next.getFullYear());
+                            return (
+                                <div key={b.id} className="flex items-center gap-2 text-sm bg-gray-50 dark:bg-gray-700/50 p-2 rounded border border-gray-100 dark:border-gray-700">
+                                    <span className="text-lg shrink-0">{b.kind === 'anniversary' ? '💍' : '🎂'}</span>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-bold text-gray-700 dark:text-gray-200 truncate">{b.name}</div>
+                                        <div className="text-[0.6rem] text-gray-400">
+                                            {new Date(2000, b.month - 1, b.day).toLocaleDateString(i18n.language, { day: 'numeric', month: 'long' })}{b.year ? ` ${b.year}` : ''}
+                                            {' · '}
+                                            {t('settings.birthday_next', { date: next.toLocaleDateString(i18n.language, { day: 'numeric', month: 'short', year: 'numeric' }) })}
+                                            {age !== null && ` (${age})`}
+                                        </div>
+                                    </div>
+                                    <select
+                                        aria-label={t('settings.birthday_reminder')}
+                                        value={b.reminderDays ?? ''}
+                                        onChange={(e) => onUpdateBirthdays(birthdays.map(x => x.id === b.id ? { ...x, reminderDays: e.target.value === '' ? undefined : Number(e.target.value) } : x))}
+                                        className="text-[0.65rem] font-bold border dark:border-gray-600 rounded px-1 py-1 bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 outline-none"
+                                    >
+                                        <option value="">{formatBirthdayReminder(undefined)}</option>
+                                        {BIRTHDAY_REMINDER_DAYS.map(days => <option key={days} value={days}>{formatBirthdayReminder(days)}</option>)}
+                                    </select>
+                                    <button onClick={() => onUpdateBirthdays(birthdays.filter(x => x.id !== b.id))} className="p-1.5 rounded text-gray-400 hover:text-red-500"><Trash2 size={14}/></button>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <div className="flex flex-col gap-2 pt-1">
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                name="birthdayName"
+                                placeholder={t('settings.birthday_name')}
+                                value={newBirthday.name}
+                                onChange={(e) => setNewBirthday({ ...newBirthday, name: e.target.value })}
+                                className="flex-1 min-w-0 text-xs p-2 rounded border dark:border-gray-600 outline-none focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-white"
+                            />
+                            <select
+                                name="birthdayKind"
+                                value={newBirthday.kind}
+                                onChange={(e) => setNewBirthday({ ...newBirthday, kind: e.target.value as Birthday['kind'] })}
+                                className="text-xs p-2 rounded border dark:border-gray-600 outline-none bg-white dark:bg-gray-700 dark:text-white"
+                            >
+                                <option value="birthday">{t('settings.birthday_kind_birthday')}</option>
+                                <option value="anniversary">{t('settings.birthday_kind_anniversary')}</option>
+                            </select>
+                        </div>
+                        <div className="flex gap-2 relative">
+                            <input
+                                type="number"
+                                name="birthdayDay"
+                                min={1}
+                                max={31}
+                                placeholder={t('settings.birthday_day')}
+                                value={newBirthday.day}
+                                onChange={(e) => setNewBirthday({ ...newBirthday, day: e.target.value })}
+                                className={`w-16 text-xs p-2 rounded border dark:border-gray-600 outline-none focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-white ${validationError?.id === 'new-birthday-day' ? 'border-red-500 animate-shake' : ''}`}
+                            />
+                            <select
+                                name="birthdayMonth"
+                                value={newBirthday.month}
+                                onChange={(e) => setNewBirthday({ ...newBirthday, month: Number(e.target.value) })}
+                                className="flex-1 min-w-0 text-xs p-2 rounded border dark:border-gray-600 outline-none bg-white dark:bg-gray-700 dark:text-white"
+                            >
+                                {Array.from({ length: 12 }, (_, i) => (
+                                    <option key={i} value={i + 1}>{new Date(2000, i, 1).toLocaleDateString(i18n.language, { month: 'long' })}</option>
+                                ))}
+                            </select>
+                            <input
+                                type="number"
+                                name="birthdayYear"
+                                placeholder={t('settings.birthday_year')}
+                                value={newBirthday.year}
+                                onChange={(e) => setNewBirthday({ ...newBirthday, year: e.target.value })}
+                                onKeyDown={(e) => e.key === 'Enter' && addBirthday()}
+                                className={`w-24 text-xs p-2 rounded border dark:border-gray-600 outline-none focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-white ${validationError?.id === 'new-birthday-year' ? 'border-red-500 animate-shake' : ''}`}
+                            />
+                            <button
+                                onClick={addBirthday}
+                                disabled={!newBirthday.name.trim() || !newBirthday.day}
+                                className="bg-blue-600 text-white px-3 rounded hover:bg-blue-700 disabled:opacity-50 flex items-center"
+                            >
+                                <Plus size={14} />
+                            </button>
+                            {(validationError?.id === 'new-birthday-day' || validationError?.id === 'new-birthday-year') && (
+                                <div className="absolute top-full left-0 mt-1 text-[0.6rem] text-red-500 font-bold flex items-center gap-1 bg-red-50 px-2 py-0.5 rounded shadow-sm z-10">
+                                    <AlertTriangle size={8} /> {validationError.msg}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {currentUser.isAdmin && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+                <div className="p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-700/50 flex items-center gap-2">
+                    <Rss size={16} className="text-gray-500 dark:text-gray-400"/>
+                    <h3 className="font-bold text-gray-700 dark:text-gray-300 text-sm uppercase tracking-wide">{t('settings.subscriptions')}</h3>
+                </div>
+                <div className="p-4 space-y-3">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.subscriptions_desc')}</p>
+
+                    {subscriptions.map(sub => (
+                        <div key={sub.id} className="flex items-center gap-2 p-2 rounded-lg border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+                            <input
+                                type="color"
+                                value={sub.color}
+                                onChange={(e) => updateSubscription({ ...sub, color: e.target.value })}
+                                className="w-7 h-7 rounded cursor-pointer border-0 bg-transparent p-0 shrink-0"
+                                title={t('settings.subscription_color')}
+                            />
+                            <div className="flex-1 min-w-0">
+                                <div className={`text-sm font-bold truncate ${sub.enabled ? 'text-gray-800 dark:text-gray-100' : 'text-gray-400 line-through'}`}>{sub.name}</div>
+                                <div className="text-[0.6rem] text-gray-400 truncate" title={sub.url}>{sub.url}</div>
+                                {sub.lastError ? (
+                                    <div className="text-[0.6rem] font-bold text-red-500 truncate flex items-center gap-1" title={sub.lastError}><AlertTriangle size={10}/> {sub.lastError}</div>
+                                ) : sub.lastSync && (
+                                    <div className="text-[0.6rem] text-gray-400">{t('settings.subscription_last_sync', { date: new Date(sub.lastSync).toLocaleString() })}</div>
+                                )}
+                            </div>
+                            <button
+                                onClick={() => updateSubscription({ ...sub, enabled: !sub.enabled })}
+                                className={`text-[0.6rem] font-bold uppercase px-2 py-1 rounded ${sub.enabled ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' : 'bg-gray-200 text-gray-500 dark:bg-gray-600 dark:text-gray-300'}`}
+                            >
+                                {sub.enabled ? t('settings.active') : t('settings.paused')}
+                            </button>
+                            <button onClick={() => syncSubscription(sub.id)} disabled={syncingSubId !== null || !sub.enabled} title={t('settings.subscription_sync_now')} className="p-1.5 rounded text-gray-400 hover:text-blue-500 disabled:opacity-30">
+                                <RefreshCw size={14} className={syncingSubId === sub.id ? 'animate-spin' : ''}/>
+                            </button>
+                            <button onClick={() => deleteSubscription(sub.id)} className="p-1.5 rounded text-gray-400 hover:text-red-500"><Trash2 size={14}/></button>
+                        </div>
+                    ))}
+
+                    <div className="flex flex-col gap-2 pt-1">
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                name="subscriptionName"
+                                placeholder={t('settings.subscription_name')}
+                                value={newSubName}
+                                onChange={(e) => setNewSubName(e.target.value)}
+                                className="flex-1 min-w-0 text-xs p-2 rounded border dark:border-gray-600 outline-none focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-white"
+                            />
+                            <input
+                                type="color"
+                                value={newSubColor}
+                                onChange={(e) => setNewSubColor(e.target.value)}
+                                className="w-9 h-9 rounded cursor-pointer border-0 bg-transparent p-0 shrink-0"
+                                title={t('settings.subscription_color')}
+                            />
+                        </div>
+                        <div className="flex gap-2">
+                            <input
+                                type="url"
+                                name="subscriptionUrl"
+                                placeholder="https://… .ics / webcal://…"
+                                value={newSubUrl}
+                                onChange={(e) => setNewSubUrl(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && addSubscription()}
+                                className="flex-1 min-w-0 text-xs p-2 rounded border dark:border-gray-600 outline-none focus:ring-1 focus:ring-blue-500 bg-white dark:bg-gray-700 dark:text-white"
+                            />
+                            <button
+                                onClick={addSubscription}
+                                disabled={!newSubName.trim() || !newSubUrl.trim() || syncingSubId !== null}
+                                className="bg-blue-600 text-white px-3 rounded hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1 text-xs font-bold"
+                            >
+                                <Plus size={14} /> {t('settings.subscription_add')}
+                            </button>
+                        </div>
+                    </div>
+
+                    {subStatus && (
+                        <div className={`text-xs font-bold flex items-center justify-center gap-2 px-2 py-1.5 rounded ${subStatus.type === 'success' ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'}`}>
+                            {subStatus.type === 'success' ? <CheckCircle size={14}/> : <AlertTriangle size={14}/>}
+                            {subStatus.msg}
+                        </div>
+                    )}
+                </div>
+            </div>
+        )}
+
         {currentUser.isAdmin && (
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
                 <div className="p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50/50 dark:bg-gray-700/50 flex items-center gap-2 justify-between">
@@ -1248,6 +1958,8 @@ const addUser = async () => {
                                     className="w-full border dark:border-gray-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-gray-700 dark:text-white flex items-center h-10 border-transparent focus:border-blue-300 dark:focus:border-blue-700 outline-none cursor-pointer"
                                     portalId="root"
                                     locale={currentUser.preferences?.language?.split('-')[0] || 'en'}
+                                    calendarStartDay={getWeekStart(currentUser.preferences)}
+                                    showWeekNumbers={currentUser.preferences?.showWeekNumbers}
                                     showMonthDropdown
                                     showYearDropdown
                                     dropdownMode="select"
@@ -1270,4 +1982,198 @@ const addUser = async () => {
   );
 };
 
+// --- SUB-COMPONENTS ---
+
+// Existing event an imported one would duplicate: same UID (and occurrence, for overrides), else same title + start
+const findImportMatch = (event: Partial<CalendarEvent>, events: CalendarEvent[]): CalendarEvent | undefined => {
+    const sameTime = (a?: string, b?: string) => (!a && !b) || (!!a && !!b && new Date(a).getTime() === new Date(b).getTime());
+    const title = (event.title || '').trim().toLowerCase();
+    return events.find(e => e.icalUID && e.icalUID === event.icalUID && sameTime(e.recurrenceId, event.recurrenceId))
+        || events.find(e => e.title.trim().toLowerCase() === title && sameTime(e.startTime, event.startTime));
+};
+
+const IcalImportWizard = ({ parsed, events, users, currentUser, getColor, onCancel, onConfirm }: any) => {
+    const { t, i18n } = useTranslation();
+    const [rows, setRows] = useState<ImportRow[]>(() => parsed.map((event: Partial<CalendarEvent>) => {
+        const match = findImportMatch(event, events);
+        return { event, match, action: match ? 'skip' : 'import' };
+    }));
+    const [participantIds, setParticipantIds] = useState<string[]>([currentUser.id]);
+    const [useAttendees, setUseAttendees] = useState(true);
+    const [windowStart, setWindowStart] = useState('');
+    const [windowEnd, setWindowEnd] = useState('');
+
+    // Recurring series only need to start before the window ends
+    const isInWindow = (e: Partial<CalendarEvent>) => {
+        const start = new Date(e.startTime!);
+        const end = new Date(e.endTime || e.startTime!);
+        if (windowEnd && start > new Date(`${windowEnd}T23:59:59`)) return false;
+        if (windowStart && !e.rrule && end < new Date(`${windowStart}T00:00:00`)) return false;
+        return true;
+    };
+
+    const setAction = (index: number, action: ImportAction) => {
+        setRows(prev => prev.map((r, i) => i === index ? { ...r, action } : r));
+    };
+
+    const toggleParticipant = (id: string) => {
+        setParticipantIds(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+    };
+
+    const visibleRows = rows.filter(r => isInWindow(r.event));
+    const outsideCount = rows.length - visibleRows.length;
+    const duplicateCount = rows.filter(r => r.match).length;
+    const toImport = visibleRows.filter(r => r.action !== 'skip').length;
+    const allNewSelected = visibleRows.filter(r => !r.match).every(r => r.action === 'import');
+
+    const formatWhen = (e: Partial<CalendarEvent>) => {
+        const options: Intl.DateTimeFormatOptions = e.isAllDay ? { dateStyle: 'medium' } : { dateStyle: 'medium', timeStyle: 'short' };
+        return new Date(e.startTime!).toLocaleString(i18n.language, options);
+    };
+
+    const confirm = () => {
+        // Rows outside the window are skipped
+        onConfirm(rows.map(r => isInWindow(r.event) ? r : { ...r, action: 'skip' }), participantIds, useAttendees);
+    };
+
+    return (
+        <div className="absolute inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+                <div className="bg-gray-50 dark:bg-gray-700 border-b dark:border-gray-600 p-4 flex justify-between items-center shrink-0">
+                    <div>
+                        <h3 className="font-bold text-gray-800 dark:text-white">{t('settings.import_preview_title')}</h3>
+                        <p className="text-[0.6rem] text-gray-500 dark:text-gray-400">
+                            {t('settings.import_preview_stats', { count: rows.length, duplicates: duplicateCount })}
+                        </p>
+                    </div>
+                    <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"><X size={20} /></button>
+                </div>
+
+                <div className="p-4 space-y-3 border-b dark:border-gray-700 shrink-0">
+                    {/* Bulk participants */}
+                    <div>
+                        <label className="block text-[0.6rem] font-bold text-gray-400 uppercase mb-1">{t('settings.import_participants')}</label>
+                        <div className="flex flex-wrap items-center gap-2">
+                            {users.map((u: User) => {
+                                const selected = participantIds.includes(u.id);
+                                return (
+                                    <button
+                                        key={u.id}
+                                        type="button"
+                                        onClick={() => toggleParticipant(u.id)}
+                                        className={`flex items-center gap-1 px-2 py-1 rounded-full border text-xs font-bold transition-colors ${selected ? 'text-white border-transparent' : 'bg-white dark:bg-gray-700 text-gray-500 dark:text-gray-300 border-gray-200 dark:border-gray-600'}`}
+                                        style={selected ? { backgroundColor: getColor(u.colorIndex) } : undefined}
+                                    >
+                                        <span>{u.avatar}</span> {u.username}
+                                    </button>
+                                );
+                            })}
+                            <label className="flex items-center gap-1 text-[0.65rem] text-gray-500 dark:text-gray-400 cursor-pointer ml-auto">
+                                <input type="checkbox" checked={useAttendees} onChange={(e) => setUseAttendees(e.target.checked)} />
+                                {t('settings.import_use_attendees')}
+                            </label>
+                        </div>
+                    </div>
+
+                    {/* Date window */}
+                    <div className="flex flex-wrap items-end gap-2">
+                        <div>
+                            <label htmlFor="importWindowStart" className="block text-[0.6rem] font-bold text-gray-400 uppercase mb-1">{t('settings.import_from')}</label>
+                            <input type="date" id="importWindowStart" value={windowStart} onChange={(e) => setWindowStart(e.target.value)} className="border dark:border-gray-600 rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-white"/>
+                        </div>
+                        <div>
+                            <label htmlFor="importWindowEnd" className="block text-[0.6rem] font-bold text-gray-400 uppercase mb-1">{t('settings.import_to')}</label>
+                            <input type="date" id="importWindowEnd" value={windowEnd} onChange={(e) => setWindowEnd(e.target.value)} className="border dark:border-gray-600 rounded px-2 py-1 text-xs dark:bg-gray-700 dark:text-white"/>
+                        </div>
+                        {outsideCount > 0 && (
+                            <span className="text-[0.65rem] text-orange-600 dark:text-orange-400 font-bold pb-1.5">{t('settings.import_outside_window', { count: outsideCount })}</span>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => setRows(prev => prev.map(r => r.match ? r : { ...r, action: allNewSelected ? 'skip' : 'import' }))}
+                            className="ml-auto text-xs font-bold text-blue-600 dark:text-blue-400 hover:underline pb-1.5"
+                        >
+                            {allNewSelected ? t('settings.import_select_none') : t('settings.import_select_all')}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar">
+                    <table className="w-full text-xs">
+                        <thead className="sticky top-0 bg-gray-50 dark:bg-gray-700 text-[0.6rem] uppercase text-gray-400">
+                            <tr>
+                                <th className="p-2 text-left w-8"></th>
+                                <th className="p-2 text-left">{t('settings.import_col_event')}</th>
+                                <th className="p-2 text-left">{t('settings.import_col_date')}</th>
+                                <th className="p-2 text-left">{t('settings.import_col_action')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((row, index) => {
+                                if (!isInWindow(row.event)) return null;
+                                const e = row.event;
+                                return (
+                                    <tr key={index} className={`border-t border-gray-100 dark:border-gray-700 ${row.action === 'skip' ? 'opacity-50' : ''}`}>
+                                        <td className="p-2 align-top">
+                                            {!row.match && (
+                                                <input
+                                                    type="checkbox"
+                                                    checked={row.action === 'import'}
+                                                    onChange={(ev) => setAction(index, ev.target.checked ? 'import' : 'skip')}
+                                                    aria-label={e.title}
+                                                />
+                                            )}
+                                        </td>
+                                        <td className="p-2 align-top">
+                                            <div className="font-bold text-gray-800 dark:text-gray-100 flex items-center gap-1">
+                                                {e.rrule && <Repeat size={10} className="text-gray-400 shrink-0"/>}
+                                                <span className="truncate">{e.title}</span>
+                                            </div>
+                                            {e.recurrenceId && <div className="text-[0.6rem] italic text-gray-400">{t('settings.import_occurrence')}</div>}
+                                            {row.match && (
+                                                <div className="text-[0.6rem] font-bold text-orange-600 dark:text-orange-400 flex items-center gap-1">
+                                                    <AlertTriangle size={10}/> {t('settings.import_duplicate_of', { title: row.match.title })}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="p-2 align-top whitespace-nowrap text-gray-500 dark:text-gray-400">{formatWhen(e)}</td>
+                                        <td className="p-2 align-top">
+                                            {row.match ? (
+                                                <select
+                                                    value={row.action}
+                                                    onChange={(ev) => setAction(index, ev.target.value as ImportAction)}
+                                                    className="text-xs border dark:border-gray-600 rounded px-1 py-0.5 dark:bg-gray-700 dark:text-white"
+                                                >
+                                                    <option value="skip">{t('settings.import_action_skip')}</option>
+                                                    <option value="update">{t('settings.import_action_update')}</option>
+                                                    <option value="duplicate">{t('settings.import_action_duplicate')}</option>
+                                                </select>
+                                            ) : (
+                                                <span className={`text-[0.6rem] font-bold uppercase px-2 py-0.5 rounded ${row.action === 'import' ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' : 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400'}`}>
+                                                    {row.action === 'import' ? t('settings.import_status_new') : t('settings.import_action_skip')}
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="p-4 border-t dark:border-gray-600 flex justify-end gap-2 shrink-0">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-lg text-xs font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">{t('settings.import_cancel')}</button>
+                    <button
+                        onClick={confirm}
+                        disabled={toImport === 0 || (participantIds.length === 0 && !useAttendees)}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-lg text-xs font-bold hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        {t('settings.import_confirm', { count: toImport })}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 export default Settings;
\ No newline at end of file
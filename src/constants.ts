@@ -1,6 +1,6 @@
 
 
-import { User, SystemSettings, ShoppingItem, ShoppingCategory, ShoppingStore, TodoItem, CalendarEvent, UserPreferences } from './types';
+import { User, SystemSettings, ShoppingItem, ShoppingCategory, ShoppingStore, TodoItem, CalendarEvent, EventCategory, UserPreferences } from './types';
 
 // Helper for consistent Date String generation (YYYY-MM-DD) based on Local Time
 export const toLocalDateString = (date: Date): string => {
@@ -10,6 +10,50 @@ export const toLocalDateString = (date: Date): string => {
     return `${y}-${m}-${d}`;
 };
 
+// First day of the week (0 = Sunday, 1 = Monday): the user's choice, else Monday for French speakers
+export const getWeekStart = (preferences?: UserPreferences): 0 | 1 =>
+    preferences?.weekStart ?? (preferences?.language?.startsWith('fr') ? 1 : 0);
+
+// Position of `date` in its week (0 = first column)
+export const getWeekdayIndex = (date: Date, weekStart: number): number => (date.getDay() - weekStart + 7) % 7;
+
+// ISO 8601 week number: weeks start on Monday, week 1 holds the year's first Thursday
+export const getISOWeek = (date: Date): number => {
+    const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 3 - (date.getDay() + 6) % 7);
+    const jan1 = new Date(thursday.getFullYear(), 0, 1);
+    return Math.floor(Math.round((thursday.getTime() - jan1.getTime()) / 86400000) / 7) + 1;
+};
+
+// Reminder presets, in minutes before the start (CalendarEvent.reminders)
+export const REMINDER_PRESETS = [0, 5, 15, 30, 60, 120, 1440, 2880, 10080];
+
+// Largest whole unit for display: 120 -> 2 hours, 90 -> 90 minutes (translation key suffix + count)
+export const getReminderUnit = (minutes: number): { unit: 'at_start' | 'minutes' | 'hours' | 'days' | 'weeks', count: number } => {
+    if (minutes === 0) return { unit: 'at_start', count: 0 };
+    if (minutes % 10080 === 0) return { unit: 'weeks', count: minutes / 10080 };
+    if (minutes % 1440 === 0) return { unit: 'days', count: minutes / 1440 };
+    if (minutes % 60 === 0) return { unit: 'hours', count: minutes / 60 };
+    return { unit: 'minutes', count: minutes };
+};
+
+// Managed category of an event: its first tag that has one (names match case-insensitively)
+export const getEventCategory = (event: CalendarEvent, eventCategories: EventCategory[]): EventCategory | undefined => {
+    for (const tag of event.categories || []) {
+        const match = eventCategories.find(c => c.name.toLowerCase() === tag.toLowerCase());
+        if (match) return match;
+    }
+    return undefined;
+};
+
+// Computed read-only entries (public holidays, birthdays): not editable, no participants
+export const isHolidayEvent = (event: CalendarEvent): boolean => event.id.startsWith('holiday-') || event.id.startsWith('birthday-');
+
+// Birthday reminder presets, in days before (Birthday.reminderDays)
+export const BIRTHDAY_REMINDER_DAYS = [0, 1, 2, 3, 7, 14];
+
+// Travel time presets, in minutes blocked before the start (CalendarEvent.travelMinutes)
+export const TRAVEL_PRESETS = [0, 10, 15, 20, 30, 45, 60, 90, 120];
+
 // Tableau 10
 export const PALETTE_STANDARD = [
   '#4E79A7', '#F28E2B', '#E15759', '#76B7B2', '#59A14F', 
@@ -169,6 +213,7 @@ export const DEFAULT_SETTINGS: SystemSettings = {
   holidaysEnabled: true,
   holidayCountryCode: 'US',
   holidaySubdivisionCode: '',
+  timeZone: '',
   lastHolidayFetch: undefined,
   lastHolidayParams: ''
 };
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Birthday, CalendarEvent } from '../types';
+
+// --- Birthdays & Anniversaries ---
+// Computed all-day entries ("birthday-<id>-<year>"), shown like public holidays: read-only, no participants.
+
+const isLeapYear = (year: number) => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+// Date of the birthday in `year` (29 Feb is celebrated on the 28th in other years)
+export const getBirthdayDate = (birthday: Birthday, year: number): Date => {
+    const day = birthday.month === 2 && birthday.day === 29 && !isLeapYear(year) ? 28 : birthday.day;
+    return new Date(year, birthday.month - 1, day);
+};
+
+// Age (or years married) reached in `year`, null when the year is unknown or not reached yet
+export const getBirthdayAge = (birthday: Birthday, year: number): number | null => {
+    if (!birthday.year || year < birthday.year) return null;
+    return year - birthday.year;
+};
+
+// Next date on or after `from` (today by default)
+export const getNextBirthday = (birthday: Birthday, from: Date = new Date()): Date => {
+    const today = new Date(from); today.setHours(0, 0, 0, 0);
+    const date = getBirthdayDate(birthday, today.getFullYear());
+    return date < today ? getBirthdayDate(birthday, today.getFullYear() + 1) : date;
+};
+
+export const getBirthdayEvents = (
+    birthdays: Birthday[],
+    fromYear: number,
+    toYear: number,
+    formatTitle: (birthday: Birthday, age: number | null) => string
+): CalendarEvent[] => {
+    const events: CalendarEvent[] = [];
+    birthdays.forEach(birthday => {
+        for (let year = Math.max(fromYear, birthday.year || fromYear); year <= toYear; year++) {
+            const date = getBirthdayDate(birthday, year).toISOString();
+            events.push({
+                id: `birthday-${birthday.id}-${year}`,
+                title: formatTitle(birthday, getBirthdayAge(birthday, year)),
+                startTime: date,
+                endTime: date,
+                isAllDay: true,
+                userIds: []
+            });
+        }
+    });
+    return events;
+};
@@ -0,0 +1,88 @@
+import { CalendarEvent } from '../types';
+import { expandEvents, expandRRule, getEventEnd } from './recurrence';
+
+// --- Double-Booking Detection ---
+// A member is double-booked when two of their timed events overlap, travel time included
+// (two kids needing a ride at 17:00). All-day events and read-only layers never conflict.
+
+export interface EventConflict {
+    userId: string;
+    event: CalendarEvent; // Occurrence of the other event
+    at: string; // Start of the occurrence of the checked event it collides with
+}
+
+const SERIES_HORIZON_DAYS = 90; // Recurring events are checked this far ahead
+
+// Instances ("id_time") and overrides belong to their master series
+const getSeriesId = (event: CalendarEvent) => event.recurringEventId || event.id.split('_')[0];
+
+const canConflict = (event: CalendarEvent) =>
+    !event.isAllDay && event.userIds.length > 0 && !event.subscriptionId && !event.id.startsWith('holiday-');
+
+// Busy window [start, end[ in ms: the travel time comes first, zero-length events still take an instant
+const getBusyRange = (event: CalendarEvent): [number, number] => {
+    const start = new Date(event.startTime).getTime();
+    return [start - (event.travelMinutes || 0) * 60000, Math.max(getEventEnd(event).getTime(), start + 1)];
+};
+
+const rangesOverlap = (a: [number, number], b: [number, number]) => a[0] < b[1] && b[0] < a[1];
+
+// Members of `event` already busy elsewhere, before saving it (`events` = the stored events, the edited one included)
+export const findConflicts = (event: CalendarEvent, events: CalendarEvent[]): EventConflict[] => {
+    if (!canConflict(event)) return [];
+
+    const seriesId = getSeriesId(event);
+    const others = events.filter(e => getSeriesId(e) !== seriesId);
+
+    // Occurrences to check: the event itself, or its series from today (or its start) on
+    let occurrences = [event];
+    if (event.rrule) {
+        const from = new Date(Math.max(Date.now(), new Date(event.startTime).getTime()));
+        const to = new Date(from.getTime() + SERIES_HORIZON_DAYS * 86400000);
+        occurrences = expandRRule(event, from, to, events.filter(e => e.recurringEventId === event.id));
+    }
+    if (occurrences.length === 0) return [];
+
+    // Other events around those occurrences (a day of margin for travel times)
+    const busy = occurrences.map(getBusyRange);
+    const rangeStart = new Date(Math.min(...busy.map(b => b[0])) - 86400000);
+    const rangeEnd = new Date(Math.max(...busy.map(b => b[1])) + 86400000);
+    const candidates = expandEvents(rangeStart, rangeEnd, others).filter(canConflict);
+
+    const conflicts: EventConflict[] = [];
+    occurrences.forEach((occurrence, i) => {
+        candidates.forEach(other => {
+            if (!rangesOverlap(busy[i], getBusyRange(other))) return;
+            occurrence.userIds.filter(id => other.userIds.includes(id)).forEach(userId => {
+                conflicts.push({ userId, event: other, at: occurrence.startTime });
+            });
+        });
+    });
+    return conflicts.sort((a, b) => a.at.localeCompare(b.at) || a.event.startTime.localeCompare(b.event.startTime));
+};
+
+// Already expanded occurrences (one week of the calendar) that collide with another one: id -> the others
+export const findOverlappingInstances = (instances: CalendarEvent[]): Map<string, CalendarEvent[]> => {
+    const timed = instances
+        .filter(canConflict)
+        .map(event => ({ event, busy: getBusyRange(event) }))
+        .sort((a, b) => a.busy[0] - b.busy[0]);
+
+    const overlaps = new Map<string, CalendarEvent[]>();
+    const link = (a: CalendarEvent, b: CalendarEvent) => {
+        const list = overlaps.get(a.id) || [];
+        if (!list.some(e => e.id === b.id)) list.push(b);
+        overlaps.set(a.id, list);
+    };
+
+    // Sorted by start: only the following ones that start before this one ends can overlap it
+    timed.forEach((a, i) => {
+        for (let j = i + 1; j < timed.length && timed[j].busy[0] < a.busy[1]; j++) {
+            const b = timed[j];
+            if (a.event.id === b.event.id || !a.event.userIds.some(id => b.event.userIds.includes(id))) continue;
+            link(a.event, b.event);
+            link(b.event, a.event);
+        }
+    });
+    return overlaps;
+};
@@ -1,33 +1,174 @@
 import ICAL from 'ical.js';
-import { CalendarEvent } from '../types';
-import { createRRule } from './recurrence';
+import { CalendarEvent, User } from '../types';
+import { getOrdinalWeekdayToken } from './recurrence';
+import { getDefaultTimeZone, getEventTimeZone, getTimeZoneOffset, getZonedParts, isValidTimeZone, zonedTimeToUtc, formatUtcOffset, toZonedDateString, ZonedParts } from './timezone';
 import { v4 as uuidv4 } from 'uuid';
 
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const partsToIcalString = (p: ZonedParts): string => {
+    return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+};
+
 // --- HELPER: Date to iCal String (YYYYMMDDTHHmmSS) ---
-const dateToIcalString = (dateStr: string, isAllDay: boolean): string => {
+// Timed values are the wall clock in `tz` (paired with a TZID parameter, or "Z" for UTC)
+const dateToIcalString = (dateStr: string, isAllDay: boolean, tz: string = 'UTC'): string => {
     const d = new Date(dateStr);
     
-    // For All Day, we just need YYYYMMDD
-    if (isAllDay) {
-        const y = d.getFullYear();
-        const m = (d.getMonth() + 1).toString().padStart(2, '0');
-        const day = d.getDate().toString().padStart(2, '0');
-        return `${y}${m}${day}`;
+    // For All Day, we just need YYYYMMDD (household calendar, see getEventTimeZone)
+    if (isAllDay) return toZonedDateString(d, getDefaultTimeZone()).replace(/-/g, '');
+
+    return partsToIcalString(getZonedParts(d, tz));
+};
+
+// --- HELPER: VTIMEZONE from the runtime's tz database ---
+// Finds the DST transitions of `year` and describes them as yearly rules (e.g. 2nd Sunday of March),
+// which is how every major calendar client publishes zones.
+const findTransitions = (tz: string, year: number): { at: Date, from: number, to: number }[] => {
+    const transitions: { at: Date, from: number, to: number }[] = [];
+    const DAY = 86400000;
+    let cursor = Date.UTC(year, 0, 1);
+    let offset = getTimeZoneOffset(new Date(cursor), tz);
+
+    for (let i = 0; i < 366; i++) {
+        const next = cursor + DAY;
+        const nextOffset = getTimeZoneOffset(new Date(next), tz);
+        if (nextOffset !== offset) {
+            // Narrow down to the minute
+            let lo = cursor, hi = next;
+            while (hi - lo > 60000) {
+                const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+                if (getTimeZoneOffset(new Date(mid), tz) === offset) lo = mid; else hi = mid;
+            }
+            transitions.push({ at: new Date(hi), from: offset, to: nextOffset });
+            offset = nextOffset;
+        }
+        cursor = next;
+    }
+    return transitions;
+};
+
+const buildVTimezone = (tz: string, year: number): string[] => {
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${tz}`];
+    const transitions = findTransitions(tz, year);
+
+    if (transitions.length === 0) {
+        const offset = formatUtcOffset(getTimeZoneOffset(new Date(Date.UTC(year, 0, 1)), tz));
+        lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+    } else {
+        transitions.forEach(tr => {
+            const kind = tr.to > tr.from ? 'DAYLIGHT' : 'STANDARD';
+            // DTSTART is the local wall clock just before the change, in the old offset
+            const local = new Date(tr.at.getTime() + tr.from * 60000);
+            const localParts: ZonedParts = {
+                year: local.getUTCFullYear(), month: local.getUTCMonth() + 1, day: local.getUTCDate(),
+                hour: local.getUTCHours(), minute: local.getUTCMinutes(), second: 0
+            };
+            const byDay = getOrdinalWeekdayToken(new Date(localParts.year, localParts.month - 1, localParts.day));
+            lines.push(
+                `BEGIN:${kind}`,
+                `DTSTART:${partsToIcalString(localParts)}`,
+                `RRULE:FREQ=YEARLY;BYMONTH=${localParts.month};BYDAY=${byDay}`,
+                `TZOFFSETFROM:${formatUtcOffset(tr.from)}`,
+                `TZOFFSETTO:${formatUtcOffset(tr.to)}`,
+                `END:${kind}`
+            );
+        });
+    }
+
+    lines.push('END:VTIMEZONE');
+    return lines;
+};
+
+// --- HELPER: DTSTART / DTEND values (everything after the property name, e.g. ";TZID=America/Toronto:20250303T090000") ---
+// Also stored on each event record, so the server-side feed (pb_hooks) emits exactly the same times.
+export const getIcalTimeProps = (e: CalendarEvent): { dtStart: string, dtEnd?: string } => {
+    // Timed events carry their zone (TZID) so other clients keep "9:00 Toronto" across DST
+    const tz = e.isAllDay ? undefined : getEventTimeZone(e);
+    const timeParam = e.isAllDay ? ';VALUE=DATE' : (tz !== 'UTC' ? `;TZID=${tz}` : '');
+    const timeSuffix = tz === 'UTC' ? 'Z' : '';
+
+    const dtStart = `${timeParam}:${dateToIcalString(e.startTime, !!e.isAllDay, tz)}${timeSuffix}`;
+    if (!e.endTime) return { dtStart };
+
+    let endDate = new Date(e.endTime);
+    
+    // FIX: For All-Day events, if Start == End, add 1 day to End (Exclusive)
+    if (e.isAllDay) {
+        const startDate = new Date(e.startTime);
+        if (startDate.toDateString() === endDate.toDateString()) {
+            endDate.setDate(endDate.getDate() + 1);
+        }
     }
 
-    // For specific time, we format Local Time but attach no timezone (Floating Time)
-    // This ensures "9:00 AM" stays "9:00 AM" regardless of where it is opened.
-    const y = d.getFullYear();
-    const m = (d.getMonth() + 1).toString().padStart(2, '0');
-    const day = d.getDate().toString().padStart(2, '0');
-    const h = d.getHours().toString().padStart(2, '0');
-    const min = d.getMinutes().toString().padStart(2, '0');
-    const s = d.getSeconds().toString().padStart(2, '0');
-    return `${y}${m}${day}T${h}${min}${s}`;
+    return { dtStart, dtEnd: `${timeParam}:${dateToIcalString(endDate.toISOString(), !!e.isAllDay, tz)}${timeSuffix}` };
+};
+
+// --- HELPER: TEXT values (RFC 5545 3.3.11) ---
+export const escapeIcalText = (text: string): string => {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+// Parameter values (e.g. CN) can't be escaped, only quoted
+const quoteParam = (value: string): string => {
+    const clean = value.replace(/"/g, "'");
+    return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+// --- HELPER: Line folding (RFC 5545 3.1) ---
+// Max 75 octets per line; continuation lines start with a space. Never splits a UTF-8 character.
+const encoder = new TextEncoder();
+export const foldIcalLine = (line: string): string => {
+    if (encoder.encode(line).length <= 75) return line;
+
+    const chunks: string[] = [];
+    let current = '';
+    let size = 0;
+    for (const ch of line) {
+        const chSize = encoder.encode(ch).length;
+        const limit = chunks.length === 0 ? 75 : 74; // Leading space counts
+        if (size + chSize > limit) {
+            chunks.push(current);
+            current = '';
+            size = 0;
+        }
+        current += ch;
+        size += chSize;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+};
+
+// Family members as ATTENDEE (matched back by this URI, or by name)
+const ATTENDEE_URI = 'urn:familysync:user:';
+
+// --- HELPER: RECURRENCE-ID / EXDATE values, in the same form as the master DTSTART ---
+const formatSeriesTime = (master: CalendarEvent, date: Date): string => {
+    if (master.isAllDay) return `;VALUE=DATE:${dateToIcalString(date.toISOString(), true)}`;
+    const tz = getEventTimeZone(master);
+    if (tz === 'UTC') return `:${dateToIcalString(date.toISOString(), false)}Z`;
+    return `;TZID=${tz}:${dateToIcalString(date.toISOString(), false, tz)}`;
+};
+
+// Exdates are "YYYY-MM-DD" keys (see getOccurrenceDateKey): rebuild the skipped occurrence start
+const exdateToDate = (master: CalendarEvent, key: string): Date => {
+    const [year, month, day] = key.split('-').map(Number);
+    const tz = getEventTimeZone(master);
+    const startParts = getZonedParts(new Date(master.startTime), tz);
+    return zonedTimeToUtc({ ...startParts, year, month, day }, tz);
+};
+
+// Reminder offset (minutes before the start) -> VALARM TRIGGER duration
+const toIcalTrigger = (minutes: number): string => {
+    if (minutes === 0) return 'PT0S';
+    if (minutes % 10080 === 0) return `-P${minutes / 10080}W`;
+    if (minutes % 1440 === 0) return `-P${minutes / 1440}D`;
+    if (minutes % 60 === 0) return `-PT${minutes / 60}H`;
+    return `-PT${minutes}M`;
 };
 
 // --- EXPORT LOGIC ---
-export const generateICS = (events: CalendarEvent[]): string => {
+export const generateICS = (events: CalendarEvent[], users: User[] = []): string => {
     const lines = [
         'BEGIN:VCALENDAR',
         'VERSION:2.0',
@@ -36,37 +177,47 @@ export const generateICS = (events: CalendarEvent[]): string => {
         'METHOD:PUBLISH'
     ];
 
+    // One VTIMEZONE per zone used by timed events, described from the earliest year it is needed
+    const zoneYears = new Map<string, number>();
+    events.filter(e => !e.isAllDay).forEach(e => {
+        const tz = getEventTimeZone(e);
+        if (tz === 'UTC') return;
+        const year = new Date(e.startTime).getUTCFullYear();
+        zoneYears.set(tz, Math.min(year, zoneYears.get(tz) ?? year));
+    });
+    zoneYears.forEach((year, tz) => lines.push(...buildVTimezone(tz, year)));
+
+    const byId = new Map(events.map(e => [e.id, e]));
+
     events.forEach(e => {
+        // Overrides share the UID of their series and point to the replaced occurrence
+        const master = e.recurringEventId && e.recurrenceId ? byId.get(e.recurringEventId) : undefined;
+        const series = master || e;
+
         lines.push('BEGIN:VEVENT');
-        lines.push(`UID:${e.icalUID || e.id}`); // Prefer external UID, fallback to DB ID
+        lines.push(`UID:${series.icalUID || series.id}`); // Prefer external UID, fallback to DB ID
         lines.push(`DTSTAMP:${dateToIcalString(new Date().toISOString(), false)}Z`); // Created Now (UTC)
         
         // Date/Time Logic
-        const dtStartVal = dateToIcalString(e.startTime, !!e.isAllDay);
-        const dtStartParam = e.isAllDay ? ';VALUE=DATE' : '';
-        lines.push(`DTSTART${dtStartParam}:${dtStartVal}`);
+        const { dtStart, dtEnd } = getIcalTimeProps(e);
+        lines.push(`DTSTART${dtStart}`);
+        if (dtEnd) lines.push(`DTEND${dtEnd}`);
+        if (master) lines.push(`RECURRENCE-ID${formatSeriesTime(master, new Date(e.recurrenceId!))}`);
 
-        if (e.endTime) {
-            let endDate = new Date(e.endTime);
-            
-            // FIX: For All-Day events, if Start == End, add 1 day to End (Exclusive)
-            if (e.isAllDay) {
-                const startDate = new Date(e.startTime);
-                if (startDate.toDateString() === endDate.toDateString()) {
-                    endDate.setDate(endDate.getDate() + 1);
-                }
-            }
-
-            const dtEndVal = dateToIcalString(endDate.toISOString(), !!e.isAllDay);
-            const dtEndParam = e.isAllDay ? ';VALUE=DATE' : '';
-            lines.push(`DTEND${dtEndParam}:${dtEndVal}`);
-        }
+        lines.push(`SUMMARY:${escapeIcalText(e.title)}`);
+        if (e.description) lines.push(`DESCRIPTION:${escapeIcalText(e.description)}`);
+        if (e.location) lines.push(`LOCATION:${escapeIcalText(e.location)}`);
+        if (e.locationLat !== undefined && e.locationLon !== undefined) lines.push(`GEO:${e.locationLat};${e.locationLon}`);
+        if (e.travelMinutes) lines.push(`X-APPLE-TRAVEL-DURATION;VALUE=DURATION:PT${e.travelMinutes}M`);
+        if (e.categories?.length) lines.push(`CATEGORIES:${e.categories.map(escapeIcalText).join(',')}`);
 
-        lines.push(`SUMMARY:${e.title}`);
-        if (e.description) lines.push(`DESCRIPTION:${e.description.replace(/\n/g, '\\n')}`);
+        e.userIds.forEach(id => {
+            const user = users.find(u => u.id === id);
+            if (user) lines.push(`ATTENDEE;CN=${quoteParam(user.username)};CUTYPE=INDIVIDUAL;PARTSTAT=ACCEPTED:${ATTENDEE_URI}${user.id}`);
+        });
         
         // Recurrence
-        if (e.rrule) {
+        if (e.rrule && !master) {
             // FIX: rrule.js .toString() often outputs multiple lines:
             // DTSTART:2025...
             // RRULE:FREQ=...
@@ -81,22 +232,58 @@ export const generateICS = (events: CalendarEvent[]): string => {
                 // Fallback for simple strings
                 lines.push(`RRULE:${e.rrule}`);
             }
+
+            (e.exdates || []).forEach(key => lines.push(`EXDATE${formatSeriesTime(e, exdateToDate(e, key))}`));
         }
 
+        // Reminders
+        (e.reminders || []).forEach(minutes => {
+            lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeIcalText(e.title)}`, `TRIGGER:${toIcalTrigger(minutes)}`, 'END:VALARM');
+        });
+
         lines.push('END:VEVENT');
     });
 
     lines.push('END:VCALENDAR');
-    return lines.join('\r\n');
+    return lines.map(foldIcalLine).join('\r\n');
+};
+
+// --- IMPORT HELPER: iCal time -> absolute Date (+ IANA zone when known) ---
+// - UTC ("Z"): already absolute
+// - TZID with an IANA name: resolved with the runtime's tz database (most reliable)
+// - TZID with a custom/Windows name: resolved through the file's VTIMEZONE by ical.js
+// - Floating (no zone): interpreted in the household zone
+const resolveIcalTime = (time: InstanceType<typeof ICAL.Time>, tzid?: string): { date: Date, timeZone?: string } => {
+    if (time.isDate) return { date: zonedTimeToUtc({ year: time.year, month: time.month, day: time.day, hour: 0, minute: 0, second: 0 }, getDefaultTimeZone()) };
+    if (time.zone === ICAL.Timezone.utcTimezone) return { date: time.toJSDate() };
+
+    const parts: ZonedParts = { year: time.year, month: time.month, day: time.day, hour: time.hour, minute: time.minute, second: time.second };
+
+    if (tzid && isValidTimeZone(tzid)) {
+        return { date: zonedTimeToUtc(parts, tzid), timeZone: tzid };
+    }
+    if (tzid && ICAL.TimezoneService.has(tzid)) {
+        return { date: time.toJSDate() };
+    }
+    return { date: zonedTimeToUtc(parts, getDefaultTimeZone()) };
 };
 
 // --- IMPORT LOGIC ---
-export const parseICS = async (fileText: string): Promise<Partial<CalendarEvent>[]> => {
+// One result per VEVENT, in file order. Overrides (RECURRENCE-ID) come back with `recurrenceId` and the
+// UID of their series: callers link them to the master (recurringEventId) once IDs are known.
+// `userIds` is only set when ATTENDEEs match family members (by URI or name).
+export const parseICS = async (fileText: string, users: User[] = []): Promise<Partial<CalendarEvent>[]> => {
     try {
         const jcalData = ICAL.parse(fileText);
         const comp = new ICAL.Component(jcalData);
         const vevents = comp.getAllSubcomponents('vevent');
 
+        // Make the file's own zone definitions available for TZIDs that aren't IANA names
+        comp.getAllSubcomponents('vtimezone').forEach(vtz => {
+            const tzid = vtz.getFirstPropertyValue('tzid');
+            if (tzid && !ICAL.TimezoneService.has(String(tzid))) ICAL.TimezoneService.register(vtz);
+        });
+
         return vevents.map(vevent => {
             const event = new ICAL.Event(vevent);
             
@@ -105,11 +292,15 @@ export const parseICS = async (fileText: string): Promise<Partial<CalendarEvent>
             const description = event.description || '';
             const uid = event.uid || uuidv4();
 
-            // 2. Time Handling (Convert to Local JS Date)
-            // .toJSDate() converts to browser local time automatically
-            const start = event.startDate.toJSDate(); 
-            const end = event.endDate ? event.endDate.toJSDate() : new Date(start.getTime() + 3600000);
+            // 2. Time Handling (Absolute instants, keeping the source zone)
+            const startTzid = vevent.getFirstProperty('dtstart')?.getParameter('tzid') as string | undefined;
+            const endTzid = vevent.getFirstProperty('dtend')?.getParameter('tzid') as string | undefined;
+            const startResolved = resolveIcalTime(event.startDate, startTzid);
+            const start = startResolved.date;
+            const end = event.endDate ? resolveIcalTime(event.endDate, endTzid || startTzid).date : new Date(start.getTime() + 3600000);
             
+            const zone = getEventTimeZone({ isAllDay: event.startDate.isDate, timeZone: startResolved.timeZone } as CalendarEvent);
+
             // 3. Recurrence (RRULE)
             let rruleStr: string | undefined = undefined;
             if (event.component.hasProperty('rrule')) {
@@ -121,15 +312,78 @@ export const parseICS = async (fileText: string): Promise<Partial<CalendarEvent>
                 }
             }
 
+            // 4. Skipped occurrences -> "YYYY-MM-DD" keys in the event zone (see getOccurrenceDateKey)
+            const exdates: string[] = [];
+            vevent.getAllProperties('exdate').forEach(prop => {
+                const tzid = (prop.getParameter('tzid') as string | undefined) || startTzid;
+                prop.getValues().forEach(value => {
+                    const time = value as InstanceType<typeof ICAL.Time>;
+                    const key = time.isDate
+                        ? `${time.year}-${pad(time.month)}-${pad(time.day)}`
+                        : toZonedDateString(resolveIcalTime(time, tzid).date, zone);
+                    if (!exdates.includes(key)) exdates.push(key);
+                });
+            });
+
+            // 5. Override of one occurrence
+            const recurrenceProp = vevent.getFirstProperty('recurrence-id');
+            const recurrenceId = recurrenceProp
+                ? resolveIcalTime(recurrenceProp.getFirstValue() as InstanceType<typeof ICAL.Time>, (recurrenceProp.getParameter('tzid') as string | undefined) || startTzid).date.toISOString()
+                : undefined;
+
+            // 6. Location (+ GEO pin, travel time), categories, family members
+            const location = vevent.getFirstPropertyValue('location');
+            const geo = vevent.getFirstPropertyValue('geo') as unknown as number[] | null;
+            const hasGeo = Array.isArray(geo) && geo.length === 2 && geo.every(n => Number.isFinite(Number(n)));
+            const travelValue = vevent.getFirstPropertyValue('x-apple-travel-duration');
+            const travelSeconds = travelValue instanceof ICAL.Duration
+                ? travelValue.toSeconds()
+                : travelValue ? ICAL.Duration.fromString(String(travelValue)).toSeconds() : 0;
+            const categories = vevent.getAllProperties('categories').flatMap(prop => prop.getValues().map(String)).filter(Boolean);
+
+            const userIds: string[] = [];
+            vevent.getAllProperties('attendee').forEach(prop => {
+                const uri = String(prop.getFirstValue() || '');
+                const name = String(prop.getParameter('cn') || '').trim().toLowerCase();
+                const user = users.find(u => uri === `${ATTENDEE_URI}${u.id}` || (name && u.username.toLowerCase() === name));
+                if (user && !userIds.includes(user.id)) userIds.push(user.id);
+            });
+
+            // 7. Reminders (VALARM) -> minutes before the start. Alarms after the start are dropped.
+            const reminders: number[] = [];
+            vevent.getAllSubcomponents('valarm').forEach(valarm => {
+                const trigger = valarm.getFirstProperty('trigger');
+                const value = trigger?.getFirstValue();
+                if (!trigger || !value) return;
+                let before: number;
+                if (value instanceof ICAL.Duration) {
+                    const anchor = trigger.getParameter('related') === 'END' ? end : start;
+                    before = start.getTime() - (anchor.getTime() + value.toSeconds() * 1000);
+                } else {
+                    before = start.getTime() - resolveIcalTime(value as InstanceType<typeof ICAL.Time>).date.getTime(); // Absolute trigger
+                }
+                const minutes = Math.round(before / 60000);
+                if (minutes >= 0 && !reminders.includes(minutes)) reminders.push(minutes);
+            });
+
             return {
                 title,
                 description,
                 startTime: start.toISOString(),
                 endTime: end.toISOString(),
                 isAllDay: event.startDate.isDate, // True if just Date (no Time)
-                rrule: rruleStr,
+                timeZone: startResolved.timeZone,
+                rrule: recurrenceId ? undefined : rruleStr,
                 icalUID: uid,
-                exdates: [] // Complex exdate logic skipped for MVP import
+                exdates: recurrenceId ? [] : exdates,
+                recurrenceId,
+                location: location ? String(location) : undefined,
+                locationLat: hasGeo ? Number(geo[0]) : undefined,
+                locationLon: hasGeo ? Number(geo[1]) : undefined,
+                travelMinutes: travelSeconds > 0 ? Math.round(travelSeconds / 60) : undefined,
+                categories: categories.length ? categories : undefined,
+                userIds: userIds.length ? userIds : undefined,
+                reminders: reminders.length ? reminders.sort((a, b) => a - b) : undefined
             };
         });
     } catch (e) {
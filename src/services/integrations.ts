@@ -115,6 +115,39 @@ export const fetchWeather = async (lat: number, lon: number): Promise<WeatherDat
     }
 };
 
+// Forecast for an event's place: the same few coordinates come back often (modal reopened, recurring events)
+const placeWeatherCache = new Map<string, { fetchedAt: number, data: WeatherData[] }>();
+
+export const fetchPlaceWeather = async (lat: number, lon: number): Promise<WeatherData[]> => {
+    const key = `${lat.toFixed(2)},${lon.toFixed(2)}`;
+    const cached = placeWeatherCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < 3600000) return cached.data;
+
+    const data = await fetchWeather(lat, lon);
+    if (data.length > 0) placeWeatherCache.set(key, { fetchedAt: Date.now(), data });
+    return data;
+};
+
+// Great-circle distance (Haversine), to tell whether a place has its own weather
+export const getDistanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+    const rad = (deg: number) => deg * Math.PI / 180;
+    const a = Math.sin(rad(lat2 - lat1) / 2) ** 2 +
+        Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(rad(lon2 - lon1) / 2) ** 2;
+    return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// --- Maps (OpenStreetMap) ---
+// Pin when the place was geocoded, otherwise a search for the free text
+export const getMapUrl = (location?: string, lat?: number, lon?: number): string | null => {
+    if (lat !== undefined && lon !== undefined) {
+        return `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lon}#map=15/${lat}/${lon}`;
+    }
+    if (location?.trim()) {
+        return `https://www.openstreetmap.org/search?query=${encodeURIComponent(location.trim())}`;
+    }
+    return null;
+};
+
 // --- Geocoding (Open-Meteo) ---
 
 const PROVINCE_ABBREVIATIONS: { [key: string]: string } = {
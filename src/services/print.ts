@@ -0,0 +1,309 @@
+import { CalendarEvent, ShoppingItem, User } from '../types';
+import { isHolidayEvent } from '../constants';
+
+// --- Printable Calendar (PDF) ---
+// Drawn with jsPDF's standard fonts (Latin-1 only): emojis are dropped and moon phases drawn as shapes.
+// The days come ready from the calendar (same layers, holidays and grid as on screen).
+
+export type PrintLayout = 'MONTH' | 'WEEK';
+
+export interface PrintDay {
+    date: Date | null; // null = padding cell of the month grid
+    events: CalendarEvent[]; // Instances of that day, holidays first
+    moon?: string | null; // getMoonPhase() label ("moon.full_moon")
+}
+
+export interface PrintOptions {
+    layout: PrintLayout;
+    title: string;
+    days: PrintDay[];
+    weekdayNames: string[]; // Column headers, in grid order
+    users: User[];
+    getUserColor: (user: User) => string;
+    formatTime: (iso: string) => string;
+    formatDay: (date: Date) => string; // Week layout section headers
+    shopping?: ShoppingItem[]; // Second page when set
+    formatQuantity?: (item: ShoppingItem) => string; // "2 kg", after the item name
+    labels: {
+        allDay: string;
+        more: (count: number) => string;
+        shopping: string;
+        printed: string;
+    };
+}
+
+const PAGE_MARGIN = 10; // mm
+const GRID_LINE = '#d1d5db';
+const MUTED = '#6b7280';
+
+// Standard PDF fonts are WinAnsi: keep Latin-1, swap the usual typographic characters
+const toPdfText = (text: string) => text
+    .replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/[–—]/g, '-').replace(/…/g, '...').replace(/[\u2009\u202F]/g, ' ')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const truncate = (doc: any, text: string, width: number) => {
+    if (doc.getTextWidth(text) <= width) return text;
+    let cut = text;
+    while (cut.length > 1 && doc.getTextWidth(cut + '...') > width) cut = cut.slice(0, -1);
+    return cut + '...';
+};
+
+// 🌑 🌓 🌕 🌗 as a small disc: dark part filled, outline on top
+const drawMoon = (doc: any, phase: string, x: number, y: number, r: number, background: string) => {
+    doc.setDrawColor('#374151');
+    doc.setLineWidth(0.2);
+    if (phase === 'moon.new_moon') {
+        doc.setFillColor('#374151');
+        doc.circle(x, y, r, 'F');
+    } else if (phase === 'moon.first_quarter' || phase === 'moon.last_quarter') {
+        doc.setFillColor('#374151');
+        doc.circle(x, y, r, 'F');
+        // Lit half: right for the first quarter, left for the last one
+        doc.setFillColor(background);
+        doc.rect(phase === 'moon.first_quarter' ? x : x - r - 0.1, y - r - 0.1, r + 0.1, 2 * r + 0.2, 'F');
+    }
+    doc.circle(x, y, r, 'S');
+};
+
+const getEventUsers = (event: CalendarEvent, users: User[]) => users.filter(u => event.userIds.includes(u.id));
+
+// Participant colors as small squares (family events: one grey square)
+const drawUserSwatches = (doc: any, event: CalendarEvent, options: PrintOptions, x: number, y: number, size: number): number => {
+    const eventUsers = getEventUsers(event, options.users);
+    const colors = eventUsers.length ? eventUsers.map(options.getUserColor) : ['#9ca3af'];
+    colors.slice(0, 3).forEach((color, i) => {
+        doc.setFillColor(color);
+        doc.rect(x + i * (size + 0.4), y - size, size, size, 'F');
+    });
+    return Math.min(colors.length, 3) * (size + 0.4);
+};
+
+const getEventLabel = (event: CalendarEvent, options: PrintOptions) => {
+    const title = toPdfText(event.title) || '-';
+    return event.isAllDay || isHolidayEvent(event) ? title : toPdfText(`${options.formatTime(event.startTime)} ${title}`);
+};
+
+const drawHeader = (doc: any, options: PrintOptions, width: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.setTextColor('#111827');
+    doc.text(toPdfText(options.title), PAGE_MARGIN, PAGE_MARGIN + 5);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(MUTED);
+    doc.text(toPdfText(options.labels.printed), width - PAGE_MARGIN, PAGE_MARGIN + 5, { align: 'right' });
+};
+
+// Participant color legend along the bottom of the page
+const drawLegend = (doc: any, options: PrintOptions, y: number) => {
+    let x = PAGE_MARGIN;
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    options.users.forEach(user => {
+        doc.setFillColor(options.getUserColor(user));
+        doc.rect(x, y - 2.6, 3, 3, 'F');
+        doc.setTextColor('#111827');
+        const name = toPdfText(user.username);
+        doc.text(name, x + 4, y);
+        x += 4 + doc.getTextWidth(name) + 6;
+    });
+};
+
+const drawMonth = (doc: any, options: PrintOptions) => {
+    const width = doc.internal.pageSize.getWidth();
+    const height = doc.internal.pageSize.getHeight();
+    drawHeader(doc, options, width);
+
+    const top = PAGE_MARGIN + 10;
+    const headerHeight = 6;
+    const bottom = height - PAGE_MARGIN - 6; // Room for the legend
+    const colWidth = (width - 2 * PAGE_MARGIN) / 7;
+    const rows = Math.ceil(options.days.length / 7);
+    const rowHeight = (bottom - top - headerHeight) / rows;
+    const lineHeight = 3.4;
+
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(MUTED);
+    options.weekdayNames.forEach((name, i) => {
+        doc.text(toPdfText(name).toUpperCase(), PAGE_MARGIN + i * colWidth + colWidth / 2, top + 4, { align: 'center' });
+    });
+
+    options.days.forEach((day, index) => {
+        const x = PAGE_MARGIN + (index % 7) * colWidth;
+        const y = top + headerHeight + Math.floor(index / 7) * rowHeight;
+        const background = day.date ? '#ffffff' : '#f3f4f6';
+
+        doc.setFillColor(background);
+        doc.setDrawColor(GRID_LINE);
+        doc.setLineWidth(0.2);
+        doc.rect(x, y, colWidth, rowHeight, 'FD');
+        if (!day.date) return;
+
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(9);
+        doc.setTextColor('#111827');
+        doc.text(String(day.date.getDate()), x + 1.5, y + 4);
+        if (day.moon) drawMoon(doc, day.moon, x + colWidth - 3.5, y + 2.8, 1.4, background);
+
+        // As many lines as fit, then "+N"
+        const maxLines = Math.floor((rowHeight - 6) / lineHeight);
+        const shown = day.events.length > maxLines ? day.events.slice(0, Math.max(0, maxLines - 1)) : day.events;
+        doc.setFontSize(6.5);
+        shown.forEach((event, i) => {
+            const lineY = y + 7.5 + i * lineHeight;
+            if (isHolidayEvent(event)) {
+                doc.setFont('helvetica', 'italic');
+                doc.setTextColor(MUTED);
+                doc.text(truncate(doc, getEventLabel(event, options), colWidth - 3), x + 1.5, lineY);
+                return;
+            }
+            const swatches = drawUserSwatches(doc, event, options, x + 1.5, lineY - 0.2, 1.8);
+            doc.setFont('helvetica', event.isAllDay ? 'bold' : 'normal');
+            doc.setTextColor('#111827');
+            doc.text(truncate(doc, getEventLabel(event, options), colWidth - 3 - swatches), x + 1.7 + swatches, lineY);
+        });
+        if (shown.length < day.events.length) {
+            doc.setFont('helvetica', 'bold');
+            doc.setTextColor(MUTED);
+            doc.text(options.labels.more(day.events.length - shown.length), x + 1.5, y + 7.5 + shown.length * lineHeight);
+        }
+    });
+
+    drawLegend(doc, options, height - PAGE_MARGIN);
+};
+
+const drawWeek = (doc: any, options: PrintOptions) => {
+    const width = doc.internal.pageSize.getWidth();
+    const height = doc.internal.pageSize.getHeight();
+    const contentWidth = width - 2 * PAGE_MARGIN;
+    const bottom = height - PAGE_MARGIN - 8;
+    drawHeader(doc, options, width);
+
+    let y = PAGE_MARGIN + 14;
+    const ensureRoom = (needed: number) => {
+        if (y + needed <= bottom) return;
+        drawLegend(doc, options, height - PAGE_MARGIN);
+        doc.addPage();
+        y = PAGE_MARGIN + 6;
+    };
+
+    options.days.forEach(day => {
+        if (!day.date) return;
+        ensureRoom(14);
+
+        // Day band: date, moon, then holidays/birthdays in italics
+        doc.setFillColor('#f3f4f6');
+        doc.rect(PAGE_MARGIN, y - 4.5, contentWidth, 6.5, 'F');
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(10);
+        doc.setTextColor('#111827');
+        const dayLabel = toPdfText(options.formatDay(day.date));
+        doc.text(dayLabel, PAGE_MARGIN + 2, y);
+        let labelEnd = PAGE_MARGIN + 2 + doc.getTextWidth(dayLabel) + 3;
+        if (day.moon) {
+            drawMoon(doc, day.moon, labelEnd + 1.5, y - 1.2, 1.6, '#f3f4f6');
+            labelEnd += 6;
+        }
+        const holidays = day.events.filter(isHolidayEvent).map(e => toPdfText(e.title)).join(' · ');
+        if (holidays) {
+            doc.setFont('helvetica', 'italic');
+            doc.setFontSize(8);
+            doc.setTextColor(MUTED);
+            doc.text(truncate(doc, holidays, width - PAGE_MARGIN - 2 - labelEnd), labelEnd, y);
+        }
+        y += 7;
+
+        day.events.filter(e => !isHolidayEvent(e)).forEach(event => {
+            const who = getEventUsers(event, options.users).map(u => toPdfText(u.username)).join(', ');
+            const details = [who, toPdfText(event.location || '')].filter(Boolean).join(' · ');
+            doc.setFontSize(9);
+            const titleLines: string[] = doc.splitTextToSize(toPdfText(event.title) || '-', contentWidth - 50);
+            ensureRoom(titleLines.length * 4 + (details ? 4 : 0) + 1);
+
+            const time = event.isAllDay
+                ? options.labels.allDay
+                : `${options.formatTime(event.startTime)} - ${options.formatTime(event.endTime)}`;
+            doc.setFont('helvetica', 'normal');
+            doc.setTextColor(MUTED);
+            doc.text(toPdfText(time), PAGE_MARGIN + 2, y);
+            drawUserSwatches(doc, event, options, PAGE_MARGIN + 37, y - 0.3, 2.4);
+
+            doc.setFont('helvetica', 'bold');
+            doc.setTextColor('#111827');
+            doc.text(titleLines, PAGE_MARGIN + 47, y);
+            y += titleLines.length * 4;
+            if (details) {
+                doc.setFont('helvetica', 'normal');
+                doc.setFontSize(8);
+                doc.setTextColor(MUTED);
+                doc.text(truncate(doc, details, contentWidth - 47), PAGE_MARGIN + 47, y);
+                y += 4;
+            }
+            y += 1;
+        });
+        y += 3;
+    });
+
+    drawLegend(doc, options, height - PAGE_MARGIN);
+};
+
+// Unchecked items in two columns, with a box to tick in the shop
+const drawShopping = (doc: any, options: PrintOptions, items: ShoppingItem[]) => {
+    doc.addPage('a4', 'portrait');
+    const width = doc.internal.pageSize.getWidth();
+    const height = doc.internal.pageSize.getHeight();
+    const colWidth = (width - 2 * PAGE_MARGIN - 8) / 2;
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.setTextColor('#111827');
+    doc.text(toPdfText(options.labels.shopping), PAGE_MARGIN, PAGE_MARGIN + 5);
+
+    let pageTop = PAGE_MARGIN + 14; // Below the title on the first page
+    let col = 0;
+    let y = pageTop;
+    items.forEach(item => {
+        const note = item.note ? toPdfText(item.note) : '';
+        const needed = note ? 10 : 6.5;
+        if (y + needed > height - PAGE_MARGIN) {
+            if (col === 1) {
+                doc.addPage('a4', 'portrait');
+                pageTop = PAGE_MARGIN + 6;
+                col = 0;
+            } else {
+                col = 1;
+            }
+            y = pageTop;
+        }
+        const x = PAGE_MARGIN + col * (colWidth + 8);
+        doc.setDrawColor('#374151');
+        doc.setLineWidth(0.3);
+        doc.rect(x, y - 3.2, 3.6, 3.6, 'S');
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(10);
+        doc.setTextColor('#111827');
+        const quantity = options.formatQuantity?.(item);
+        doc.text(truncate(doc, toPdfText(quantity ? `${item.content} (${quantity})` : item.content), colWidth - 6), x + 5.5, y);
+        if (note) {
+            doc.setFontSize(8);
+            doc.setTextColor(MUTED);
+            doc.text(truncate(doc, note, colWidth - 6), x + 5.5, y + 3.6);
+        }
+        y += needed;
+    });
+};
+
+export const generateCalendarPdf = async (options: PrintOptions): Promise<Blob> => {
+    // Loaded on demand: only needed when someone prints
+    const { jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ orientation: options.layout === 'MONTH' ? 'landscape' : 'portrait', unit: 'mm', format: 'a4' });
+
+    if (options.layout === 'MONTH') drawMonth(doc, options);
+    else drawWeek(doc, options);
+
+    if (options.shopping && options.shopping.length > 0) drawShopping(doc, options, options.shopping);
+    return doc.output('blob');
+};
@@ -0,0 +1,75 @@
+import { pb } from './pb';
+
+// --- Web Push (Event reminders) ---
+// Reminders are computed by the server (pb_hooks/reminders.js). While the app is open they show up as toasts
+// (realtime on `notifications`), otherwise the service worker (public/sw.js) displays them.
+
+export type PushStatus = 'unsupported' | 'denied' | 'off' | 'on';
+
+export const isPushSupported = (): boolean => {
+    return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+};
+
+// The worker fetches pending reminders from PocketBase, which is not the page origin in dev
+const registerWorker = () => navigator.serviceWorker.register(`/sw.js?api=${encodeURIComponent(pb.baseUrl)}`);
+
+// VAPID keys travel as base64url, pushManager wants bytes
+const base64UrlToBytes = (value: string): Uint8Array<ArrayBuffer> => {
+    const base64 = (value + '='.repeat((4 - value.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const getSubscription = async (): Promise<PushSubscription | null> => {
+    const registration = await navigator.serviceWorker.getRegistration();
+    return registration ? registration.pushManager.getSubscription() : null;
+};
+
+export const getPushStatus = async (): Promise<PushStatus> => {
+    if (!isPushSupported()) return 'unsupported';
+    if (Notification.permission === 'denied') return 'denied';
+    return (await getSubscription()) ? 'on' : 'off';
+};
+
+// Asks for permission and registers this device for the logged-in member.
+// Throws when the server can't sign pushes (reminders stay in-app).
+export const enablePush = async (): Promise<PushStatus> => {
+    if (!isPushSupported()) return 'unsupported';
+
+    const permission = await Notification.requestPermission();
+    if (permission === 'denied') return 'denied';
+    if (permission !== 'granted') return 'off';
+
+    const { publicKey } = await pb.send('/api/push/key', { method: 'GET' });
+    if (!publicKey) throw new Error('Web Push is not available on this server');
+
+    const registration = await registerWorker();
+    await navigator.serviceWorker.ready;
+
+    // A subscription made with another server key can't be reused
+    const previous = await registration.pushManager.getSubscription();
+    if (previous) await previous.unsubscribe();
+
+    const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: base64UrlToBytes(publicKey)
+    });
+    await pb.collection('push_subscriptions').create({
+        endpoint: subscription.endpoint,
+        userAgent: navigator.userAgent.slice(0, 200)
+    });
+    return 'on';
+};
+
+export const disablePush = async (): Promise<PushStatus> => {
+    if (!isPushSupported()) return 'unsupported';
+
+    const subscription = await getSubscription();
+    if (subscription) {
+        try {
+            const record = await pb.collection('push_subscriptions').getFirstListItem(pb.filter('endpoint = {:endpoint}', { endpoint: subscription.endpoint }));
+            await pb.collection('push_subscriptions').delete(record.id);
+        } catch (e) { /* Already moved to another member, or offline */ }
+        await subscription.unsubscribe();
+    }
+    return 'off';
+};
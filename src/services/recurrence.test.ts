@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { CalendarEvent } from '../types';
+import { splitRRule, moveOverridesToTail, mergeEventChanges, occursAt } from './recurrence';
+
+// Weekly on Mondays at 09:00 Paris time, from 5 Jan 2026
+const master: CalendarEvent = {
+    id: 'master000000001',
+    title: 'Swimming',
+    startTime: '2026-01-05T08:00:00.000Z',
+    endTime: '2026-01-05T09:00:00.000Z',
+    timeZone: 'Europe/Paris',
+    rrule: 'FREQ=WEEKLY;BYDAY=MO',
+    icalUID: 'series-uid',
+    userIds: ['u1']
+};
+
+const override = (id: string, recurrenceId: string, startTime: string): CalendarEvent => ({
+    ...master,
+    id,
+    rrule: undefined,
+    startTime,
+    endTime: new Date(new Date(startTime).getTime() + 3600000).toISOString(),
+    recurringEventId: master.id,
+    recurrenceId
+});
+
+describe('This and following', () => {
+    // Before the split (12 Jan, moved to Tuesday) and after it (2 Feb, moved to Wednesday)
+    const early = override('override0000001', '2026-01-12T08:00:00.000Z', '2026-01-13T08:00:00.000Z');
+    const late = override('override0000002', '2026-02-02T08:00:00.000Z', '2026-02-04T08:00:00.000Z');
+    const events = [master, early, late];
+
+    // Split on 19 Jan, from there one hour later
+    const splitAt = new Date('2026-01-19T08:00:00.000Z');
+    const shift = 3600000;
+    const tailStart = new Date(splitAt.getTime() + shift);
+    const split = splitRRule(master, splitAt, tailStart)!;
+    const head: CalendarEvent = { ...master, rrule: split.headRRule };
+    const tail: CalendarEvent = {
+        ...master,
+        id: Date.now().toString(),
+        icalUID: 'tail-uid',
+        startTime: tailStart.toISOString(),
+        endTime: new Date(tailStart.getTime() + 3600000).toISOString(),
+        rrule: split.tailRRule
+    };
+
+    const moved = moveOverridesToTail(events, master, splitAt, tail, shift);
+    const saved = mergeEventChanges(events, [head, tail, ...moved]);
+
+    it('moves the overrides after the split to the tail', () => {
+        expect(moved.map(o => o.id)).toEqual([late.id]);
+        const kept = saved.find(ev => ev.id === late.id)!;
+        expect(kept.recurringEventId).toBe(tail.id);
+        expect(kept.icalUID).toBe('tail-uid');
+        expect(kept.recurrenceId).toBe('2026-02-02T09:00:00.000Z');
+        expect(kept.startTime).toBe(late.startTime); // The user's edit is untouched
+        expect(occursAt(tail, new Date(kept.recurrenceId!))).toBe(true);
+    });
+
+    it('keeps the overrides before the split on the head', () => {
+        expect(saved.find(ev => ev.id === early.id)).toEqual(early);
+    });
+
+    it('saves the tail before the overrides pointing to it', () => {
+        const ids = saved.map(ev => ev.id);
+        expect(ids.indexOf(tail.id)).toBeLessThan(ids.indexOf(late.id));
+    });
+
+    it('drops overrides the shortened head no longer produces when they are not moved', () => {
+        expect(mergeEventChanges(events, [head, tail]).some(ev => ev.id === late.id)).toBe(false);
+    });
+});
+
+describe('Series changes (app edit or .ics update)', () => {
+    const moved = override('override0000003', '2026-01-12T08:00:00.000Z', '2026-01-13T08:00:00.000Z');
+
+    it('shifts the overrides when the series start moves', () => {
+        const later: CalendarEvent = { ...master, startTime: '2026-01-05T09:00:00.000Z', endTime: '2026-01-05T10:00:00.000Z' };
+        const saved = mergeEventChanges([master, moved], [later]);
+        expect(saved.find(ev => ev.id === moved.id)?.recurrenceId).toBe('2026-01-12T09:00:00.000Z');
+    });
+
+    it('drops the overrides the new rule no longer produces', () => {
+        const tuesdays: CalendarEvent = { ...master, rrule: 'FREQ=WEEKLY;BYDAY=TU' };
+        expect(mergeEventChanges([master, moved], [tuesdays]).some(ev => ev.id === moved.id)).toBe(false);
+    });
+});
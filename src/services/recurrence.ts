@@ -1,15 +1,159 @@
-import { RRule } from 'rrule';
-import { CalendarEvent, RecurrenceFreq } from '../types';
+import { RRule, Weekday } from 'rrule';
+import { CalendarEvent, RecurrenceFreq, RecurrenceRule, RecurrenceWeekday } from '../types';
+import { getEventTimeZone, getZonedParts, toZonedDateString, zonedTimeToUtc } from './timezone';
+
+// RRule weekday index order (0 = Monday)
+export const WEEKDAY_CODES: RecurrenceWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const toArray = <T,>(val: T | T[] | null | undefined): T[] => {
+    if (val === null || val === undefined) return [];
+    return Array.isArray(val) ? val : [val];
+};
+
+// "1MO" / "-1FR" / "TU" -> { n, day }
+export const splitByDay = (token: string): { n?: number, day: RecurrenceWeekday } | null => {
+    const match = token.trim().toUpperCase().match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+    if (!match) return null;
+    return {
+        n: match[1] ? parseInt(match[1], 10) : undefined,
+        day: match[2] as RecurrenceWeekday
+    };
+};
+
+const toRRuleWeekday = (token: string): Weekday | null => {
+    const parsed = splitByDay(token);
+    if (!parsed) return null;
+    const base: Weekday = (RRule as any)[parsed.day];
+    return parsed.n ? base.nth(parsed.n) : base;
+};
+
+const fromRRuleWeekday = (w: Weekday | number): string => {
+    const weekday = typeof w === 'number' ? w : w.weekday;
+    const n = typeof w === 'number' ? undefined : w.n;
+    const code = WEEKDAY_CODES[weekday];
+    return n ? `${n}${code}` : code;
+};
+
+// Weekday code of a JS Date (JS: 0 = Sunday, RRule: 0 = Monday)
+export const getWeekdayCode = (date: Date): RecurrenceWeekday => {
+    return WEEKDAY_CODES[(date.getDay() + 6) % 7];
+};
+
+// "Nth weekday of month" token for a date, preferring -1 (last) for the final occurrence.
+// e.g. 2025-03-28 (Friday) -> "-1FR", 2025-03-03 (Monday) -> "1MO"
+export const getOrdinalWeekdayToken = (date: Date): string => {
+    const code = getWeekdayCode(date);
+    const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    if (date.getDate() + 7 > daysInMonth) return `-1${code}`;
+    return `${Math.ceil(date.getDate() / 7)}${code}`;
+};
+
+// --- Event Time Span Helpers ---
+
+// Effective (exclusive) end of an event.
+// All-day ends are either equal to the start (single day, our convention) or the exclusive
+// next midnight (iCal DTEND convention). Both resolve correctly here.
+export const getEventEnd = (event: CalendarEvent): Date => {
+    const start = new Date(event.startTime);
+    if (!event.endTime) return start;
+    const end = new Date(event.endTime);
+    return end > start ? end : start;
+};
+
+// Does the event cover any part of [rangeStart, rangeEnd]? (Not just "does it start inside")
+export const eventOverlaps = (event: CalendarEvent, rangeStart: Date, rangeEnd: Date): boolean => {
+    const start = new Date(event.startTime);
+    const end = getEventEnd(event);
+    if (start > rangeEnd) return false;
+    if (end.getTime() === start.getTime()) return start >= rangeStart;
+    return end > rangeStart;
+};
+
+// Local midnight of every day the event covers (at least one)
+export const getEventDays = (event: CalendarEvent): Date[] => {
+    const start = new Date(event.startTime);
+    const end = getEventEnd(event);
+    const first = new Date(start);
+    first.setHours(0, 0, 0, 0);
+    const last = new Date(end > start ? end.getTime() - 1 : start.getTime());
+    last.setHours(0, 0, 0, 0);
+
+    const days: Date[] = [];
+    const cursor = new Date(first);
+    while (cursor <= last && days.length < 366) {
+        days.push(new Date(cursor));
+        cursor.setDate(cursor.getDate() + 1);
+    }
+    return days;
+};
+
+// --- Zoned Expansion ---
+// rrule.js works on UTC fields. To expand "every Monday 9:00 America/Toronto" correctly across DST,
+// we feed it "floating" dates (UTC fields = wall clock in the event zone) and convert results back.
+const toFloating = (date: Date, tz: string): Date => {
+    const p = getZonedParts(date, tz);
+    return new Date(Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, date.getUTCMilliseconds()));
+};
+
+const fromFloating = (date: Date, tz: string): Date => {
+    return zonedTimeToUtc({
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour: date.getUTCHours(),
+        minute: date.getUTCMinutes(),
+        second: date.getUTCSeconds()
+    }, tz, date.getUTCMilliseconds());
+};
+
+// Rule anchored on the event start, in floating time. UNTIL is an absolute instant, so it is floated too.
+const buildFloatingRule = (event: CalendarEvent, tz: string): RRule => {
+    const options = RRule.parseString(event.rrule!);
+    options.dtstart = toFloating(new Date(event.startTime), tz);
+    options.tzid = null; // We do the zone maths ourselves
+    if (options.until) options.until = toFloating(options.until, tz);
+    return new RRule(options);
+};
+
+// EXDATE key (YYYY-MM-DD) of an occurrence, as seen in the series' own zone
+export const getOccurrenceDateKey = (event: CalendarEvent, date: Date): string => {
+    return toZonedDateString(date, getEventTimeZone(event));
+};
 
 // 1. Convert UI State -> RRULE String (For Saving)
-export const createRRule = (freq: RecurrenceFreq, dtstart: Date, until?: Date): string => {
+export const createRRule = (recurrence: RecurrenceRule, dtstart: Date): string => {
     const options: any = {
-        freq: RRule[freq],
+        freq: RRule[recurrence.freq],
         dtstart: dtstart, // Needed for accurate calculation
     };
 
-    if (until) {
-        options.until = until;
+    if (recurrence.interval && recurrence.interval > 1) {
+        options.interval = recurrence.interval;
+    }
+
+    const byweekday = (recurrence.byDay || [])
+        .map(toRRuleWeekday)
+        .filter(w => w !== null);
+    if (byweekday.length > 0) options.byweekday = byweekday;
+
+    if (recurrence.byMonthDay && recurrence.byMonthDay.length > 0) {
+        options.bymonthday = recurrence.byMonthDay;
+    }
+    if (recurrence.byMonth && recurrence.byMonth.length > 0) {
+        options.bymonth = recurrence.byMonth;
+    }
+    if (recurrence.bySetPos && recurrence.bySetPos.length > 0) {
+        options.bysetpos = recurrence.bySetPos;
+    }
+    if (recurrence.weekStart) {
+        options.wkst = (RRule as any)[recurrence.weekStart];
+    }
+
+    // COUNT and UNTIL are mutually exclusive (RFC 5545 3.3.10)
+    if (recurrence.count && recurrence.count > 0) {
+        options.count = recurrence.count;
+    } else if (recurrence.until) {
+        options.until = new Date(recurrence.until);
     }
 
     const rule = new RRule(options);
@@ -17,12 +161,14 @@ export const createRRule = (freq: RecurrenceFreq, dtstart: Date, until?: Date):
 };
 
 // 2. Convert RRULE String -> UI State (For Editing)
-export const parseRRule = (rruleStr: string): { freq: RecurrenceFreq, until?: string } | null => {
+// Returns null only for rules the editor cannot represent (sub-daily frequencies, BYHOUR, BYWEEKNO...)
+export const parseRRule = (rruleStr: string): RecurrenceRule | null => {
     try {
         if (!rruleStr) return null;
         
-        const rule = RRule.fromString(rruleStr);
-        const options = rule.options;
+        // parseString only returns the parts actually present in the rule
+        // (rule.options would back-fill BYDAY/BYMONTHDAY from DTSTART)
+        const options: any = RRule.parseString(rruleStr);
 
         // Map RRule freq number back to our String (0=YEARLY, 1=MONTHLY, 2=WEEKLY, 3=DAILY)
         // RRule constants: YEARLY=0, MONTHLY=1, WEEKLY=2, DAILY=3
@@ -35,10 +181,33 @@ export const parseRRule = (rruleStr: string): { freq: RecurrenceFreq, until?: st
             default: return null; // Complex/Unsupported rule (Hourly, etc)
         }
 
-        return {
-            freq,
-            until: options.until ? options.until.toISOString() : undefined
-        };
+        const unsupported = ['byhour', 'byminute', 'bysecond', 'byyearday', 'byweekno', 'byeaster'];
+        if (unsupported.some(key => toArray(options[key]).length > 0)) return null;
+
+        const result: RecurrenceRule = { freq };
+
+        if (options.interval && options.interval > 1) result.interval = options.interval;
+
+        const byDay = toArray<Weekday | number>(options.byweekday).map(fromRRuleWeekday);
+        if (byDay.length > 0) result.byDay = byDay;
+
+        const byMonthDay = toArray<number>(options.bymonthday);
+        if (byMonthDay.length > 0) result.byMonthDay = byMonthDay;
+
+        const byMonth = toArray<number>(options.bymonth);
+        if (byMonth.length > 0) result.byMonth = byMonth;
+
+        const bySetPos = toArray<number>(options.bysetpos);
+        if (bySetPos.length > 0) result.bySetPos = bySetPos;
+
+        if (options.wkst !== undefined && options.wkst !== null) {
+            result.weekStart = fromRRuleWeekday(options.wkst) as RecurrenceWeekday;
+        }
+
+        if (options.count) result.count = options.count;
+        if (options.until) result.until = options.until.toISOString();
+
+        return result;
     } catch (e) {
         console.error("Failed to parse RRULE", e);
         return null;
@@ -46,52 +215,183 @@ export const parseRRule = (rruleStr: string): { freq: RecurrenceFreq, until?: st
 };
 
 // 3. Expand Occurrences (For Calendar View)
-export const expandRRule = (event: CalendarEvent, rangeStart: Date, rangeEnd: Date): CalendarEvent[] => {
+// `overrides` are the edited single occurrences of this series (recurringEventId === event.id).
+// They replace the occurrence they were split from, and show up wherever they were moved to.
+export const expandRRule = (event: CalendarEvent, rangeStart: Date, rangeEnd: Date, overrides: CalendarEvent[] = []): CalendarEvent[] => {
     if (!event.rrule) return [event];
 
+    const overriddenTimes = new Set(
+        overrides.filter(o => o.recurrenceId).map(o => new Date(o.recurrenceId!).getTime())
+    );
+    const overridesInRange = overrides.filter(o => eventOverlaps(o, rangeStart, rangeEnd));
+
     try {
-        // Parse the rule
-        const options = RRule.parseString(event.rrule);
-        
         // CRITICAL: RRule ignores the time of dtstart if not explicitly set in the rule,
-        // but we need it to respect the event's start time.
-        options.dtstart = new Date(event.startTime);
+        // but we need it to respect the event's start time (as wall clock in the event zone).
+        const tz = getEventTimeZone(event);
+        const rule = buildFloatingRule(event, tz);
 
-        const rule = new RRule(options);
+        // Calculate End Time (Duration)
+        const duration = event.endTime 
+            ? Math.max(0, new Date(event.endTime).getTime() - new Date(event.startTime).getTime()) 
+            : 3600000; // Default 1 hour
         
         // Get all dates in range
-        const dates = rule.between(rangeStart, rangeEnd, true); // true = inclusive
+        // Look back by the duration so multi-day occurrences that started before the range are included.
+        // A day of margin on each side absorbs the zone offset; the overlap filter below trims it.
+        const dates = rule.between(
+            new Date(toFloating(rangeStart, tz).getTime() - duration - 86400000),
+            new Date(toFloating(rangeEnd, tz).getTime() + 86400000),
+            true // true = inclusive
+        );
 
         // Map to Event Instances
-        return dates.map(date => {
-            const dateStr = date.toISOString();
+        const instances = dates.map(floating => {
+            const date = fromFloating(floating, tz);
+
+            if (overriddenTimes.has(date.getTime())) return null;
             
             // Check Exceptions (Exdates)
-            // We compare YYYY-MM-DD local strings
-            const y = date.getFullYear();
-            const m = (date.getMonth() + 1).toString().padStart(2, '0');
-            const d = date.getDate().toString().padStart(2, '0');
-            const localDateStr = `${y}-${m}-${d}`;
-
-            if (event.exdates?.includes(localDateStr)) return null;
-
-            // Calculate End Time (Duration)
-            const duration = event.endTime 
-                ? new Date(event.endTime).getTime() - new Date(event.startTime).getTime() 
-                : 3600000; // Default 1 hour
+            // We compare YYYY-MM-DD strings in the series zone (the UTC fields of the floating date)
+            if (event.exdates?.includes(floating.toISOString().slice(0, 10))) return null;
 
             return {
                 ...event,
                 id: `${event.id}_${date.getTime()}`, // Virtual ID
-                startTime: dateStr,
+                startTime: date.toISOString(),
                 endTime: new Date(date.getTime() + duration).toISOString(),
                 // Strip the rule from instances so they don't re-expand recursively
                 rrule: undefined 
             };
-        }).filter(e => e !== null) as CalendarEvent[];
+        }).filter(e => e !== null && eventOverlaps(e, rangeStart, rangeEnd)) as CalendarEvent[];
+
+        return [...instances, ...overridesInRange];
 
     } catch (e) {
         console.error("RRule Expansion Error", e);
         return [event]; // Fallback to showing just the single event
     }
-};
\ No newline at end of file
+};
+
+// Every occurrence of a list of events (series, overrides, single events) overlapping the range
+export const expandEvents = (startRange: Date, endRange: Date, rawEvents: CalendarEvent[]): CalendarEvent[] => {
+    let expanded: CalendarEvent[] = [];
+
+    // Overrides (edited single occurrences) are expanded through their master series.
+    // If the master is gone (orphan), they fall through and render as normal single events.
+    const masterIds = new Set(rawEvents.filter(e => e.rrule).map(e => e.id));
+    const overridesByMaster: Record<string, CalendarEvent[]> = {};
+    rawEvents.forEach(e => {
+        if (e.recurringEventId && masterIds.has(e.recurringEventId)) {
+            (overridesByMaster[e.recurringEventId] ||= []).push(e);
+        }
+    });
+
+    rawEvents.forEach(e => {
+        if (e.recurringEventId && masterIds.has(e.recurringEventId)) return;
+
+        if (e.rrule) {
+            // Recurring: Use RRule Engine
+            const instances = expandRRule(e, startRange, endRange, overridesByMaster[e.id]);
+            expanded = expanded.concat(instances);
+        } else {
+            // Single Event: Overlap check (multi-day events that started earlier count too)
+            if (eventOverlaps(e, startRange, endRange)) {
+                expanded.push(e);
+            }
+        }
+    });
+    return expanded;
+};
+
+// 4. Does the series produce an occurrence at exactly this time? (Ignores EXDATEs)
+export const occursAt = (event: CalendarEvent, date: Date): boolean => {
+    if (!event.rrule) return new Date(event.startTime).getTime() === date.getTime();
+    try {
+        const tz = getEventTimeZone(event);
+        const rule = buildFloatingRule(event, tz);
+        const t = date.getTime();
+        const floating = toFloating(date, tz).getTime();
+        return rule.between(new Date(floating - 1000), new Date(floating + 1000), true).some(d => fromFloating(d, tz).getTime() === t);
+    } catch (e) {
+        return false;
+    }
+};
+
+// 5. Split a Series ("This and following")
+// Ends the original rule at the last occurrence before `splitAt` and re-anchors the remainder on `tailStart`.
+// COUNT based rules keep their total: occurrences already consumed by the head are subtracted from the tail.
+// Returns null when nothing would remain before the split (i.e. the split is the whole series).
+export const splitRRule = (event: CalendarEvent, splitAt: Date, tailStart: Date): { headRRule: string, tailRRule: string, tailCount?: number } | null => {
+    if (!event.rrule) return null;
+
+    try {
+        const options = RRule.parseString(event.rrule);
+        options.dtstart = new Date(event.startTime);
+
+        const tz = getEventTimeZone(event);
+        const rule = buildFloatingRule(event, tz);
+
+        const lastKeptFloating = rule.before(toFloating(splitAt, tz), false);
+        if (!lastKeptFloating) return null;
+        const lastKept = fromFloating(lastKeptFloating, tz);
+
+        let tailCount: number | undefined = undefined;
+        if (options.count) {
+            const consumed = rule.between(rule.options.dtstart, lastKeptFloating, true).length;
+            tailCount = Math.max(1, options.count - consumed);
+        }
+
+        const head = new RRule({ ...options, count: null, until: lastKept });
+        const tail = new RRule({ ...options, dtstart: tailStart, count: tailCount ?? null });
+
+        return { headRRule: head.toString(), tailRRule: tail.toString(), tailCount };
+    } catch (e) {
+        console.error("RRule Split Error", e);
+        return null;
+    }
+};
+
+// 6. Overrides of a split series ("This and following")
+// Those from the split on belong to the tail: same UID, RECURRENCE-ID shifted like the tail's occurrences.
+export const moveOverridesToTail = (events: CalendarEvent[], master: CalendarEvent, splitAt: Date, tail: CalendarEvent, shiftMs: number): CalendarEvent[] => {
+    return events
+        .filter(ev => ev.recurringEventId === master.id && ev.recurrenceId && new Date(ev.recurrenceId).getTime() >= splitAt.getTime())
+        .map(ev => ({
+            ...ev,
+            recurringEventId: tail.id,
+            icalUID: tail.icalUID,
+            recurrenceId: new Date(new Date(ev.recurrenceId!).getTime() + shiftMs).toISOString()
+        }));
+};
+
+// 7. Upsert a batch of changes (one history step)
+// Overrides follow their master: if the series start moved they shift with it, and if the master no longer
+// produces their original occurrence they are dropped. Overrides in the batch (e.g. moved to a tail) are kept as is.
+// Records pointing to a master created by the batch come last, so the master is saved (and gets its ID) first.
+export const mergeEventChanges = (events: CalendarEvent[], changed: CalendarEvent[]): CalendarEvent[] => {
+    const changedIds = new Set(changed.map(c => c.id));
+    let merged = [...events];
+    changed.forEach(e => {
+        const idx = merged.findIndex(ev => ev.id === e.id);
+        if (idx >= 0) merged[idx] = e;
+        else merged.push(e);
+    });
+
+    changed.filter(master => master.rrule).forEach(master => {
+        const previous = events.find(ev => ev.id === master.id);
+        const shift = previous ? new Date(master.startTime).getTime() - new Date(previous.startTime).getTime() : 0;
+
+        merged = merged.flatMap(ev => {
+            if (ev.recurringEventId !== master.id || !ev.recurrenceId) return [ev];
+            if (changedIds.has(ev.id)) return [ev];
+
+            const recurrenceId = new Date(new Date(ev.recurrenceId).getTime() + shift);
+            return occursAt(master, recurrenceId) ? [{ ...ev, recurrenceId: recurrenceId.toISOString() }] : [];
+        });
+    });
+
+    const createdIds = new Set(changed.filter(c => !events.some(ev => ev.id === c.id)).map(c => c.id));
+    const dependsOnCreated = (ev: CalendarEvent) => !!ev.recurringEventId && createdIds.has(ev.recurringEventId);
+    return [...merged.filter(ev => !dependsOnCreated(ev)), ...merged.filter(dependsOnCreated)];
+};
@@ -0,0 +1,112 @@
+import { CalendarEvent, User } from '../types';
+import { expandEvents, getEventDays, getEventEnd } from './recurrence';
+
+// --- "Find a time" ---
+// Free windows shared by several family members, day by day, within a part of the day (e.g. evenings).
+// Busy = any of their events (all-day ones take the whole day, travel time included) or their quiet hours.
+
+export interface SlotSearch {
+    userIds: string[];
+    durationMinutes: number;
+    from: Date; // First day
+    to: Date; // Last day (inclusive)
+    dayStart: string; // "HH:mm"
+    dayEnd: string; // "HH:mm", before dayStart = past midnight
+}
+
+export interface FreeSlot {
+    start: Date; // Earliest start, on the quarter hour
+    end: Date; // End of the free window: any start up to end - duration fits
+}
+
+const SLOT_STEP = 15 * 60000;
+const MAX_SLOTS = 60;
+
+// "HH:mm" -> minutes after midnight
+export const parseClock = (value?: string): number | null => {
+    const m = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+    return m && Number(m[1]) < 24 && Number(m[2]) < 60 ? Number(m[1]) * 60 + Number(m[2]) : null;
+};
+
+// Local wall time on `day` (setHours keeps it right across DST changes)
+const atMinutes = (day: Date, minutes: number): number => {
+    const d = new Date(day);
+    d.setHours(0, minutes, 0, 0);
+    return d.getTime();
+};
+
+const addDays = (day: Date, count: number): Date => {
+    const d = new Date(day);
+    d.setDate(d.getDate() + count);
+    return d;
+};
+
+// Quiet hours repeat every day; "21:00" -> "07:00" runs over midnight
+const getQuietRanges = (user: User, first: Date, last: Date): [number, number][] => {
+    const start = parseClock(user.preferences?.quietHoursStart);
+    const end = parseClock(user.preferences?.quietHoursEnd);
+    if (start === null || end === null || start === end) return [];
+
+    const ranges: [number, number][] = [];
+    for (let day = addDays(first, -1); day <= last; day = addDays(day, 1)) {
+        ranges.push([atMinutes(day, start), atMinutes(day, end <= start ? end + 1440 : end)]);
+    }
+    return ranges;
+};
+
+const getBusyRange = (event: CalendarEvent): [number, number] => {
+    if (event.isAllDay) {
+        const days = getEventDays(event);
+        return [days[0].getTime(), addDays(days[days.length - 1], 1).getTime()];
+    }
+    const start = new Date(event.startTime).getTime();
+    return [start - (event.travelMinutes || 0) * 60000, Math.max(getEventEnd(event).getTime(), start + 1)];
+};
+
+export const findFreeSlots = (events: CalendarEvent[], users: User[], search: SlotSearch, now: Date = new Date()): FreeSlot[] => {
+    const dayStart = parseClock(search.dayStart) ?? 0;
+    let dayEnd = parseClock(search.dayEnd) ?? 1440;
+    if (dayEnd <= dayStart) dayEnd += 1440;
+    const duration = search.durationMinutes * 60000;
+    if (search.userIds.length === 0 || duration <= 0) return [];
+
+    const first = new Date(search.from); first.setHours(0, 0, 0, 0);
+    const last = new Date(search.to); last.setHours(0, 0, 0, 0);
+    if (last < first) return [];
+
+    // Everything that keeps one of them busy, merged into disjoint ranges
+    const instances = expandEvents(addDays(first, -1), addDays(last, 2), events)
+        .filter(e => !e.subscriptionId && e.userIds.some(id => search.userIds.includes(id)));
+    const busy = [
+        ...instances.map(getBusyRange),
+        ...users.filter(u => search.userIds.includes(u.id)).flatMap(u => getQuietRanges(u, first, last))
+    ].sort((a, b) => a[0] - b[0]);
+
+    const merged: [number, number][] = [];
+    busy.forEach(range => {
+        const prev = merged[merged.length - 1];
+        if (prev && range[0] <= prev[1]) prev[1] = Math.max(prev[1], range[1]);
+        else merged.push([range[0], range[1]]);
+    });
+
+    // Gaps of each day's window long enough for the duration
+    const slots: FreeSlot[] = [];
+    for (let day = first; day <= last && slots.length < MAX_SLOTS; day = addDays(day, 1)) {
+        const windowEnd = atMinutes(day, dayEnd);
+        let cursor = Math.max(atMinutes(day, dayStart), now.getTime());
+
+        const addGap = (gapEnd: number) => {
+            const start = Math.ceil(cursor / SLOT_STEP) * SLOT_STEP;
+            if (start + duration <= gapEnd) slots.push({ start: new Date(start), end: new Date(gapEnd) });
+        };
+
+        for (const [busyStart, busyEnd] of merged) {
+            if (busyEnd <= cursor) continue;
+            if (busyStart >= windowEnd) break;
+            if (busyStart > cursor) addGap(busyStart);
+            cursor = Math.max(cursor, busyEnd);
+        }
+        if (cursor < windowEnd) addGap(windowEnd);
+    }
+    return slots.slice(0, MAX_SLOTS);
+};
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { parseShoppingInput } from './shopping';
+
+describe('parseShoppingInput', () => {
+    it('reads a quantity and a unit before or after the product', () => {
+        expect(parseShoppingInput('2 kg apples')).toEqual({ content: 'apples', quantity: 2, unit: 'kg' });
+        expect(parseShoppingInput('1 kg d\'oranges')).toEqual({ content: 'oranges', quantity: 1, unit: 'kg' });
+        expect(parseShoppingInput('apples 2kg')).toEqual({ content: 'apples', quantity: 2, unit: 'kg' });
+        expect(parseShoppingInput('milk x3')).toEqual({ content: 'milk', quantity: 3, unit: undefined });
+    });
+
+    it('keeps a word of the other language in the product name', () => {
+        expect(parseShoppingInput('10 pot noodles')).toEqual({ content: 'pot noodles', quantity: 10, unit: undefined });
+        expect(parseShoppingInput('2 pots de yaourt')).toEqual({ content: 'yaourt', quantity: 2, unit: 'jar' });
+        expect(parseShoppingInput('yaourt 2 pots')).toEqual({ content: 'yaourt', quantity: 2, unit: 'jar' });
+    });
+
+    it('does not take the start of a word for "de"', () => {
+        expect(parseShoppingInput('2 kg dessert')).toEqual({ content: 'dessert', quantity: 2, unit: 'kg' });
+    });
+});
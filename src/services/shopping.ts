@@ -0,0 +1,164 @@
+import { ShoppingItem, PurchaseRecord } from '../types';
+
+// --- Quantities & Units ---
+// "2 kg apples", "apples 2kg", "milk x3", "3x eggs", "6 eggs" -> { content, quantity, unit }.
+// Adding something already on the list (not in the cart) bumps its quantity instead of a duplicate.
+
+export interface ParsedShoppingInput {
+    content: string;
+    quantity?: number;
+    unit?: string;
+}
+
+// Spellings (EN/FR, singular/plural) -> canonical unit
+const UNIT_ALIASES: Record<string, string> = {
+    g: 'g', gr: 'g', gram: 'g', grams: 'g', gramme: 'g', grammes: 'g',
+    kg: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg',
+    mg: 'mg',
+    l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+    ml: 'ml', cl: 'cl', dl: 'dl',
+    lb: 'lb', lbs: 'lb', oz: 'oz',
+    pack: 'pack', packs: 'pack', pk: 'pack', paquet: 'pack', paquets: 'pack',
+    box: 'box', boxes: 'box', boite: 'box', boites: 'box', 'boîte': 'box', 'boîtes': 'box',
+    bottle: 'bottle', bottles: 'bottle', bouteille: 'bottle', bouteilles: 'bottle',
+    can: 'can', cans: 'can', canette: 'can', canettes: 'can',
+    jar: 'jar', jars: 'jar', pot: 'jar', pots: 'jar',
+    bag: 'bag', bags: 'bag', sachet: 'bag', sachets: 'bag',
+    bunch: 'bunch', bunches: 'bunch', botte: 'bunch', bottes: 'bunch',
+    dozen: 'dozen', douzaine: 'dozen', douzaines: 'dozen'
+};
+
+// Units that add up after conversion: unit -> [dimension, factor to the base unit]
+const UNIT_SCALES: Record<string, [string, number]> = {
+    mg: ['mass', 0.001], g: ['mass', 1], kg: ['mass', 1000], oz: ['mass', 28.3495], lb: ['mass', 453.592],
+    ml: ['volume', 1], cl: ['volume', 10], dl: ['volume', 100], l: ['volume', 1000]
+};
+
+// Aliases that are plain words in the other language ("10 pot noodles"): a unit only before of/de
+// ("2 pots de yaourt") or at the end ("yaourt 2 pots")
+const AMBIGUOUS_UNITS = ['pot', 'pots'];
+
+const unitPattern = (aliases: string[]) => `(${aliases.sort((a, b) => b.length - a.length).join('|')})\\.?`;
+
+const NUMBER = '(\\d+(?:[.,]\\d+)?)';
+const UNIT = unitPattern(Object.keys(UNIT_ALIASES));
+const PLAIN_UNIT = unitPattern(Object.keys(UNIT_ALIASES).filter(alias => !AMBIGUOUS_UNITS.includes(alias)));
+const CONNECTOR = "(?:\\s+(?:of|de)\\s+|\\s+d'\\s*)";
+
+const PATTERNS: { regex: RegExp, parts: ('quantity' | 'unit' | 'content')[] }[] = [
+    { regex: new RegExp(`^${NUMBER}\\s*[x×]\\s+(.+)$`, 'i'), parts: ['quantity', 'content'] }, // 3x eggs
+    { regex: new RegExp(`^(.+?)\\s+[x×]\\s*${NUMBER}$`, 'i'), parts: ['content', 'quantity'] }, // milk x3
+    { regex: new RegExp(`^${NUMBER}\\s*${UNIT}${CONNECTOR}(.+)$`, 'i'), parts: ['quantity', 'unit', 'content'] }, // 2 kg of apples
+    { regex: new RegExp(`^${NUMBER}\\s*${PLAIN_UNIT}\\s+(.+)$`, 'i'), parts: ['quantity', 'unit', 'content'] }, // 2 kg apples
+    { regex: new RegExp(`^(.+?)\\s+${NUMBER}\\s*${UNIT}$`, 'i'), parts: ['content', 'quantity', 'unit'] }, // apples 2kg
+    { regex: /^(\d+)\s+(\p{L}.*)$/u, parts: ['quantity', 'content'] } // 6 eggs (not "2 % milk")
+];
+
+export const normalizeUnit = (unit?: string): string | undefined => {
+    if (!unit) return undefined;
+    const key = unit.trim().toLowerCase().replace(/\.$/, '');
+    return UNIT_ALIASES[key] || key || undefined;
+};
+
+export const parseShoppingInput = (text: string): ParsedShoppingInput => {
+    const raw = text.trim().replace(/\s+/g, ' ');
+    for (const { regex, parts } of PATTERNS) {
+        const match = raw.match(regex);
+        if (!match) continue;
+        const values: Record<string, string> = {};
+        parts.forEach((part, i) => { values[part] = match[i + 1]; });
+
+        const quantity = parseFloat(values.quantity.replace(',', '.'));
+        const content = values.content.trim();
+        // "0 eggs", "2 %": not a quantity
+        if (!(quantity > 0) || !/\p{L}/u.test(content)) continue;
+        return { content, quantity, unit: normalizeUnit(values.unit) };
+    }
+    return { content: raw };
+};
+
+// "2 kg", "×3", "" for a single unit-less item (`unitLabel`: the translated unit)
+export const formatQuantity = (quantity?: number, unitLabel?: string): string => {
+    if (!quantity) return '';
+    const amount = Number.isInteger(quantity) ? quantity.toString() : quantity.toFixed(2).replace(/\.?0+$/, '');
+    if (unitLabel) return `${amount} ${unitLabel}`;
+    return quantity === 1 ? '' : `×${amount}`;
+};
+
+// Product key: case, accents and spacing ignored
+export const normalizeContent = (content: string) =>
+    content.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const sameContent = (a: string, b: string) => normalizeContent(a) === normalizeContent(b);
+
+// Total of `item` plus `added`, in the item's unit; null when the units don't add up (2 packs + 500 g)
+export const addQuantities = (item: ShoppingItem, added: ParsedShoppingInput): { quantity: number, unit?: string } | null => {
+    const current = item.quantity || 1;
+    const extra = added.quantity || 1;
+    if ((item.unit || undefined) === (added.unit || undefined)) return { quantity: current + extra, unit: item.unit };
+
+    const from = added.unit ? UNIT_SCALES[added.unit] : undefined;
+    const to = item.unit ? UNIT_SCALES[item.unit] : undefined;
+    if (!from || !to || from[0] !== to[0]) return null;
+    return { quantity: Math.round((current + extra * from[1] / to[1]) * 1000) / 1000, unit: item.unit };
+};
+
+// Uncompleted item the user can see with the same name (others' private items excluded)
+export const findDuplicateItem = (items: ShoppingItem[], content: string, userId: string): ShoppingItem | undefined =>
+    items.find(i => !i.isInCart && (!i.isPrivate || i.addedByUserId === userId) && sameContent(i.content, content));
+
+// --- Purchase Stats (shopping_history) ---
+
+export interface PurchaseStat {
+    content: string; // As last written
+    count: number; // Days it was bought (twice the same day = once)
+    lastBoughtAt: string; // ISO String
+    intervalDays?: number; // Typical gap between two purchases (median), known from 3 purchase days on
+}
+
+const DAY_MS = 86400000;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Per product, most bought first
+export const getPurchaseStats = (history: PurchaseRecord[]): PurchaseStat[] => {
+    const byProduct = new Map<string, PurchaseRecord[]>();
+    history.forEach(record => {
+        const key = normalizeContent(record.content);
+        byProduct.set(key, [...(byProduct.get(key) || []), record]);
+    });
+
+    return [...byProduct.values()].map(records => {
+        const sorted = [...records].sort((a, b) => a.boughtAt.localeCompare(b.boughtAt));
+        const last = sorted[sorted.length - 1];
+        const days = [...new Set(sorted.map(r => { const d = new Date(r.boughtAt); return Math.round(new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime() / DAY_MS); }))];
+        const gaps = days.slice(1).map((day, i) => day - days[i]);
+        return {
+            content: last.content,
+            count: days.length,
+            lastBoughtAt: last.boughtAt,
+            intervalDays: gaps.length >= 2 ? Math.round(median(gaps)) : undefined
+        };
+    }).sort((a, b) => b.count - a.count || b.lastBoughtAt.localeCompare(a.lastBoughtAt));
+};
+
+export interface RunningLowItem extends PurchaseStat {
+    intervalDays: number;
+    daysSince: number;
+}
+
+// Regular purchases due again (85% of their usual interval), not on the list yet, most overdue first.
+// Way past it (3 intervals) means it isn't bought anymore.
+export const getRunningLowItems = (history: PurchaseRecord[], items: ShoppingItem[], now: Date = new Date()): RunningLowItem[] => {
+    const onList = new Set(items.map(i => normalizeContent(i.content)));
+    return getPurchaseStats(history)
+        .filter((stat): stat is PurchaseStat & { intervalDays: number } => !!stat.intervalDays && !onList.has(normalizeContent(stat.content)))
+        .map(stat => ({ ...stat, daysSince: Math.floor((now.getTime() - new Date(stat.lastBoughtAt).getTime()) / DAY_MS) }))
+        .filter(stat => stat.daysSince >= stat.intervalDays * 0.85 && stat.daysSince <= stat.intervalDays * 3)
+        .sort((a, b) => b.daysSince / b.intervalDays - a.daysSince / a.intervalDays)
+        .slice(0, 8);
+};
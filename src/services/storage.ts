@@ -1,7 +1,8 @@
 import { pb } from './pb';
-import { CalendarEvent, ShoppingItem, TodoItem, User, SystemSettings, ShoppingStore, ShoppingCategory } from '../types';
+import { CalendarEvent, ShoppingItem, ShoppingList, ShoppingTrip, PurchaseRecord, TodoItem, User, SystemSettings, ShoppingStore, ShoppingCategory, EventCategory, Birthday, CalendarSubscription, IcalFeed } from '../types';
 import { DEFAULT_SETTINGS, PaletteKey } from '../constants';
 import { createRRule } from './recurrence';
+import { parseICS, getIcalTimeProps } from './ical';
 
 class StorageService {
   public get pb() { return pb; }
@@ -221,11 +222,7 @@ async updateUserPassword(userId: string, newPass: string, oldPass?: string): Pro
               // MIGRATION ON READ: Convert Legacy JSON to RRULE
               let effectiveRRule = r.rrule;
               if (!effectiveRRule && r.recurrence && r.recurrence.freq) {
-                  effectiveRRule = createRRule(
-                      r.recurrence.freq, 
-                      new Date(r.startTime), 
-                      r.recurrence.until ? new Date(r.recurrence.until) : undefined
-                  );
+                  effectiveRRule = createRRule(r.recurrence, new Date(r.startTime));
               }
 
               return {
@@ -235,10 +232,20 @@ async updateUserPassword(userId: string, newPass: string, oldPass?: string): Pro
                   startTime: r.startTime,
                   endTime: r.endTime,
                   isAllDay: r.isAllDay,
+                  timeZone: r.timeZone || undefined,
                   userIds: r.participants || [], 
                   rrule: effectiveRRule, // Use the new string field
                   icalUID: r.icalUID,
-                  exdates: r.exdates
+                  exdates: r.exdates,
+                  recurringEventId: r.recurringEventId || undefined,
+                  recurrenceId: r.recurrenceId || undefined,
+                  location: r.location || undefined,
+                  // 0/0 = not geocoded
+                  locationLat: r.locationLat || r.locationLon ? r.locationLat : undefined,
+                  locationLon: r.locationLat || r.locationLon ? r.locationLon : undefined,
+                  travelMinutes: r.travelMinutes || undefined,
+                  categories: r.categories || undefined,
+                  reminders: r.reminders?.length ? r.reminders : undefined
               };
           });
       } catch (e) { return []; }
@@ -249,22 +256,57 @@ async updateUserPassword(userId: string, newPass: string, oldPass?: string): Pro
         // Strip legacy recurrence field if present to keep DB clean
         const { recurrence, ...cleanPayload } = payload as any;
 
+        // Override created in the same batch as its master (import): point to the saved master
+        if (cleanPayload.recurringEventId && this.eventIdSwaps[cleanPayload.recurringEventId]) {
+            cleanPayload.recurringEventId = this.eventIdSwaps[cleanPayload.recurringEventId];
+        }
+
 		const record = await pb.collection('events').create({
 			...cleanPayload,
+			...this.mapIcalTimes(event),
+			...this.mapClearableFields(event),
 			participants: event.userIds
 		});
+		this.eventIdSwaps[id] = record.id;
 		
 		return { ...event, id: record.id };
 	}
 
+  // Temp (client) ID -> saved ID of the events created this session
+  private eventIdSwaps: Record<string, string> = {};
+
   updateEvent = async (event: CalendarEvent): Promise<void> => {
       const { recurrence, ...cleanPayload } = event as any;
+      // Override moved to a series created in the same batch ("This and following")
+      if (cleanPayload.recurringEventId && this.eventIdSwaps[cleanPayload.recurringEventId]) {
+          cleanPayload.recurringEventId = this.eventIdSwaps[cleanPayload.recurringEventId];
+      }
       await pb.collection('events').update(event.id, {
           ...cleanPayload,
+          ...this.mapIcalTimes(event),
+          ...this.mapClearableFields(event),
           participants: event.userIds
       });
   }
 
+  // Pre-rendered DTSTART/DTEND for the server-side iCal feed (the PocketBase JS runtime has no Intl)
+  private mapIcalTimes(event: CalendarEvent) {
+      const { dtStart, dtEnd } = getIcalTimeProps(event);
+      return { icalStart: dtStart, icalEnd: dtEnd || '' };
+  }
+
+  // Optional fields are dropped from the JSON when undefined: send them empty so clearing them is saved
+  private mapClearableFields(event: CalendarEvent) {
+      return {
+          location: event.location || '',
+          locationLat: event.locationLat ?? 0,
+          locationLon: event.locationLon ?? 0,
+          travelMinutes: event.travelMinutes || 0,
+          categories: event.categories || [],
+          reminders: event.reminders || []
+      };
+  }
+
   deleteEvent = async (id: string): Promise<void> => {
       await pb.collection('events').delete(id);
   }
@@ -275,8 +317,11 @@ async updateUserPassword(userId: string, newPass: string, oldPass?: string): Pro
         const records = await pb.collection('shopping_items').getFullList({ sort: '-created' });
         return records.map((r: any) => ({
             id: r.id,
+            listId: r.list || undefined,
             content: r.content,
             note: r.note,
+            quantity: r.quantity || undefined,
+            unit: r.unit || undefined,
             isInCart: r.isInCart,
             isPrivate: r.isPrivate,
             addedByUserId: r.addedBy,
@@ -286,15 +331,20 @@ async updateUserPassword(userId: string, newPass: string, oldPass?: string): Pro
             order: r.order,
 			userCategoryIds: r.userCategoryIds || {},
             creatorCategoryId: r.category,
-            logs: [] 
+            completedByUserId: r.completedBy || undefined,
+            completedAt: r.completedAt ? r.completedAt.replace(' ', 'T') : undefined,
+            logs: r.logs || []
         } as ShoppingItem));
       } catch (e) { return []; }
   }
 
 createShoppingItem = async (item: ShoppingItem): Promise<ShoppingItem> => {
       const record = await pb.collection('shopping_items').create({
+          list: item.listId || '',
           content: item.content,
           note: item.note,
+          quantity: item.quantity || 0,
+          unit: item.unit || '',
           isInCart: item.isInCart,
           isPrivate: item.isPrivate,
           addedBy: item.addedByUserId,
@@ -303,6 +353,8 @@ createShoppingItem = async (item: ShoppingItem): Promise<ShoppingItem> => {
           order: item.order,
           category: item.creatorCategoryId,
 		  userCategoryIds: item.userCategoryIds,
+          completedBy: item.completedByUserId || '',
+          completedAt: item.completedAt || '',
           logs: item.logs
       });
       return { ...item, id: record.id };
@@ -310,8 +362,11 @@ createShoppingItem = async (item: ShoppingItem): Promise<ShoppingItem> => {
 
   updateShoppingItem = async (item: ShoppingItem): Promise<void> => {
       await pb.collection('shopping_items').update(item.id, {
+          list: item.listId || '',
           content: item.content,
           note: item.note,
+          quantity: item.quantity || 0,
+          unit: item.unit || '',
           isInCart: item.isInCart,
           isPrivate: item.isPrivate,
           seenBy: item.seenByUserIds,
@@ -319,6 +374,8 @@ createShoppingItem = async (item: ShoppingItem): Promise<ShoppingItem> => {
           order: item.order,
           category: item.creatorCategoryId,
 		  userCategoryIds: item.userCategoryIds,
+          completedBy: item.completedByUserId || '',
+          completedAt: item.completedAt || '',
           logs: item.logs
       });
   }
@@ -326,6 +383,114 @@ createShoppingItem = async (item: ShoppingItem): Promise<ShoppingItem> => {
       await pb.collection('shopping_items').delete(id);
   }
 
+  // --- Purchase History & Trips (bought items are archived when the cart is cleared) ---
+  // One server transaction (pb_hooks/purchases.js), safe to retry: the trip ID comes from here and an item is archived once
+  archivePurchases = async (items: ShoppingItem[], trip?: ShoppingTrip): Promise<void> => {
+      await pb.send('/api/shopping/archive', {
+          method: 'POST',
+          body: {
+              trip: trip && {
+                  id: trip.id,
+                  storeId: trip.storeId,
+                  listId: trip.listId,
+                  startedAt: trip.startedAt,
+                  finishedAt: trip.finishedAt,
+                  itemCount: trip.itemCount
+              },
+              items: items.map(item => ({
+                  id: item.id,
+                  content: item.content,
+                  quantity: item.quantity,
+                  unit: item.unit,
+                  category: item.creatorCategoryId,
+                  listId: item.listId,
+                  isPrivate: !!item.isPrivate,
+                  completedAt: item.completedAt
+              }))
+          }
+      });
+  }
+
+  // Client-side record ID (PocketBase format: 15 chars, a-z0-9)
+  newRecordId(): string {
+      const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+      return Array.from(crypto.getRandomValues(new Uint8Array(15)), b => chars[b % chars.length]).join('');
+  }
+
+  async getShoppingHistory(): Promise<PurchaseRecord[]> {
+      try {
+          const records = await pb.collection('shopping_history').getFullList({ sort: 'boughtAt' });
+          return records.map((r: any) => ({
+              id: r.id,
+              content: r.content,
+              quantity: r.quantity || undefined,
+              unit: r.unit || undefined,
+              listId: r.list || undefined,
+              addedByUserId: r.addedBy || undefined,
+              boughtByUserId: r.boughtBy || undefined,
+              boughtAt: (r.boughtAt || r.created).replace(' ', 'T'),
+              tripId: r.trip || undefined
+          }));
+      } catch { return []; }
+  }
+
+  async getShoppingTrips(): Promise<ShoppingTrip[]> {
+      try {
+          const records = await pb.collection('shopping_trips').getFullList({ sort: '-finishedAt' });
+          return records.map((r: any) => ({
+              id: r.id,
+              storeId: r.store || undefined,
+              listId: r.list || undefined,
+              userId: r.user,
+              startedAt: r.startedAt.replace(' ', 'T'),
+              finishedAt: r.finishedAt.replace(' ', 'T'),
+              itemCount: r.itemCount || 0
+          }));
+      } catch { return []; }
+  }
+
+  // --- Shopping Lists (the main list is the items without one) ---
+  async getShoppingLists(): Promise<ShoppingList[]> {
+      try {
+          const records = await pb.collection('shopping_lists').getFullList({ sort: 'order' });
+          return records.map((r: any) => ({
+              id: r.id,
+              name: r.name,
+              icon: r.icon || undefined,
+              memberIds: r.members || [],
+              isArchived: r.archived || undefined,
+              order: r.order
+          }));
+      } catch { return []; }
+  }
+
+// Creates & updates only: deletions go through deleteShoppingList (a stale device must not delete others' new lists)
+async saveShoppingLists(lists: ShoppingList[]): Promise<Record<string, string>> {
+  const idMap: Record<string, string> = {};
+
+  for (const l of lists) {
+      const payload = {
+          name: l.name,
+          icon: l.icon || '',
+          members: l.memberIds,
+          archived: !!l.isArchived,
+          order: l.order
+      };
+      if (l.id.length < 15) {
+         const record = await pb.collection('shopping_lists').create(payload);
+         idMap[l.id] = record.id;
+      } else {
+         await pb.collection('shopping_lists').update(l.id, payload);
+      }
+  }
+  return idMap;
+}
+
+  async deleteShoppingList(id: string): Promise<void> {
+      // Its items are removed by the cascade on the relation
+      await pb.collection('shopping_lists').delete(id);
+  }
+
   // --- Todos ---
   async getTodos(): Promise<TodoItem[]> {
       try {
@@ -426,6 +591,80 @@ async saveCategories(cats: ShoppingCategory[]): Promise<Record<string, string>>
   return idMap;
 }
 
+  // --- Event Categories (tags with a color) ---
+  async getEventCategories(): Promise<EventCategory[]> {
+      try {
+          const records = await pb.collection('event_categories').getFullList({ sort: 'order' });
+          return records.map((r: any) => ({ id: r.id, name: r.name, color: r.color, order: r.order }));
+      } catch { return []; }
+  }
+
+async saveEventCategories(cats: EventCategory[]): Promise<Record<string, string>> {
+  const existing = await this.getEventCategories();
+  const newIds = new Set(cats.map(c => c.id));
+  const idMap: Record<string, string> = {};
+
+  for (const e of existing) {
+      if (!newIds.has(e.id)) await pb.collection('event_categories').delete(e.id);
+  }
+
+  for (const c of cats) {
+      if (c.id.length < 15) {
+         const { id, ...payload } = c;
+         const record = await pb.collection('event_categories').create(payload);
+         idMap[c.id] = record.id;
+      } else {
+         await pb.collection('event_categories').update(c.id, c);
+      }
+  }
+  return idMap;
+}
+
+  // --- Birthdays & Anniversaries ---
+  async getBirthdays(): Promise<Birthday[]> {
+      try {
+          const records = await pb.collection('birthdays').getFullList({ sort: 'month,day' });
+          return records.map((r: any) => ({
+              id: r.id,
+              name: r.name,
+              kind: r.kind || 'birthday',
+              month: r.month,
+              day: r.day,
+              year: r.year || undefined,
+              reminderDays: r.remind ? r.reminderDays : undefined
+          }));
+      } catch { return []; }
+  }
+
+async saveBirthdays(birthdays: Birthday[]): Promise<Record<string, string>> {
+  const existing = await this.getBirthdays();
+  const newIds = new Set(birthdays.map(b => b.id));
+  const idMap: Record<string, string> = {};
+
+  for (const e of existing) {
+      if (!newIds.has(e.id)) await pb.collection('birthdays').delete(e.id);
+  }
+
+  for (const b of birthdays) {
+      const payload = {
+          name: b.name,
+          kind: b.kind,
+          month: b.month,
+          day: b.day,
+          year: b.year || 0,
+          remind: b.reminderDays !== undefined,
+          reminderDays: b.reminderDays || 0
+      };
+      if (b.id.length < 15) {
+         const record = await pb.collection('birthdays').create(payload);
+         idMap[b.id] = record.id;
+      } else {
+         await pb.collection('birthdays').update(b.id, payload);
+      }
+  }
+  return idMap;
+}
+
   // --- Settings ---
   async getSettings(): Promise<SystemSettings> {
       try {
@@ -438,6 +677,7 @@ async saveCategories(cats: ShoppingCategory[]): Promise<Record<string, string>>
               holidaysEnabled: record.holidaysEnabled,
               holidayCountryCode: record.holidayCountryCode,
               holidaySubdivisionCode: record.holidaySubdivisionCode,
+              timeZone: record.timeZone,
               lastHolidayFetch: record.lastHolidayFetch,
               lastHolidayParams: record.lastHolidayParams
           };
@@ -472,6 +712,135 @@ async saveCategories(cats: ShoppingCategory[]): Promise<Record<string, string>>
   }
   
   // --- Backups & Holidays Helpers ---
+  // --- Calendar Subscriptions (External ICS Feeds) ---
+  private mapSubscription(r: any): CalendarSubscription {
+      return {
+          id: r.id,
+          name: r.name,
+          url: r.url,
+          color: r.color || '#6b7280',
+          enabled: r.enabled,
+          lastSync: r.lastSync || undefined,
+          lastError: r.lastError || undefined
+      };
+  }
+
+  async getSubscriptions(): Promise<CalendarSubscription[]> {
+      try {
+          const records = await pb.collection('calendar_subscriptions').getFullList({ sort: 'created' });
+          return records.map(r => this.mapSubscription(r));
+      } catch (e) { return []; }
+  }
+
+  async createSubscription(sub: Omit<CalendarSubscription, 'id'>): Promise<CalendarSubscription> {
+      const record = await pb.collection('calendar_subscriptions').create(sub);
+      return this.mapSubscription(record);
+  }
+
+  async updateSubscription(sub: CalendarSubscription): Promise<void> {
+      const { id, lastSync, lastError, ...payload } = sub;
+      await pb.collection('calendar_subscriptions').update(id, payload);
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+      // Feed events are removed by the cascade on the relation
+      await pb.collection('calendar_subscriptions').delete(id);
+  }
+
+  async syncSubscription(id: string): Promise<void> {
+      await pb.send(`/api/subscriptions/${id}/sync`, { method: 'POST' });
+  }
+
+  // Server stores raw VEVENT blocks; we parse them with the same parser as a file import.
+  // Events are deduplicated by UID (+ RECURRENCE-ID) across feeds: the first subscription wins.
+  async getSubscriptionEvents(subscriptions: CalendarSubscription[]): Promise<CalendarEvent[]> {
+      try {
+          const [records, zoneRecords] = await Promise.all([
+              pb.collection('subscription_events').getFullList({ sort: 'created' }),
+              pb.collection('calendar_subscriptions').getFullList({ fields: 'id,timezones' })
+          ]);
+          const seen = new Set<string>();
+          const result: CalendarEvent[] = [];
+
+          for (const sub of subscriptions) {
+              const subRecords = records.filter((r: any) => r.subscription === sub.id);
+              if (subRecords.length === 0) continue;
+
+              try {
+                  const calendarText = [
+                      'BEGIN:VCALENDAR',
+                      'VERSION:2.0',
+                      zoneRecords.find((z: any) => z.id === sub.id)?.timezones,
+                      ...subRecords.map((r: any) => r.ics),
+                      'END:VCALENDAR'
+                  ].filter(Boolean).join('\r\n');
+
+                  // parseICS keeps VEVENT order, so index i matches subRecords[i]
+                  const parsed = await parseICS(calendarText);
+                  const masterIds = new Map<string, string>();
+                  subRecords.forEach((r: any) => { if (!r.recurrenceId) masterIds.set(r.icalUID, `sub-${r.id}`); });
+                  parsed.forEach((e, i) => {
+                      const record: any = subRecords[i];
+                      const key = `${record.icalUID}|${record.recurrenceId}`;
+                      if (seen.has(key)) return;
+                      seen.add(key);
+
+                      result.push({
+                          ...e,
+                          id: `sub-${record.id}`,
+                          title: e.title || '',
+                          startTime: e.startTime!,
+                          userIds: [],
+                          subscriptionId: sub.id,
+                          recurringEventId: e.recurrenceId ? masterIds.get(record.icalUID) : undefined
+                      });
+                  });
+              } catch (e) {
+                  console.warn(`Failed to parse subscription ${sub.name}`, e);
+              }
+          }
+          return result;
+      } catch (e) { return []; }
+  }
+
+  // --- Private iCal Feeds (Subscribe from phone calendar apps) ---
+  // Token is generated server-side; list rule only returns the current user's feeds
+  private mapIcalFeed(r: any): IcalFeed {
+      return {
+          id: r.id,
+          token: r.token,
+          participantId: r.participant || undefined,
+          created: r.created || undefined
+      };
+  }
+
+  async getIcalFeeds(): Promise<IcalFeed[]> {
+      try {
+          const records = await pb.collection('ical_feeds').getFullList({ sort: 'created' });
+          return records.map(r => this.mapIcalFeed(r));
+      } catch (e) { return []; }
+  }
+
+  async createIcalFeed(participantId?: string): Promise<IcalFeed> {
+      const record = await pb.collection('ical_feeds').create({ participant: participantId || '' });
+      return this.mapIcalFeed(record);
+  }
+
+  // Revoking = deleting: the old URL stops working immediately
+  async deleteIcalFeed(id: string): Promise<void> {
+      await pb.collection('ical_feeds').delete(id);
+  }
+
+  getIcalFeedUrl(feed: IcalFeed, webcal: boolean = false): string {
+      const url = `${pb.baseUrl.replace(/\/$/, '')}/api/ical/${feed.token}.ics`;
+      return webcal ? url.replace(/^https?:/, 'webcal:') : url;
+  }
+
+  // Two-way sync account URL for calendar apps (login = email + password)
+  getCaldavUrl(): string {
+      return `${pb.baseUrl.replace(/\/$/, '')}/caldav/`;
+  }
+
   async getHolidays(): Promise<CalendarEvent[]> {
       const stored = localStorage.getItem('fs_holidays');
       return stored ? JSON.parse(stored) : [];
@@ -519,16 +888,19 @@ async saveCategories(cats: ShoppingCategory[]): Promise<Record<string, string>>
   }
 
   async createBackup(): Promise<any> {
-      const [users, events, shopping, todos, settings, stores, categories] = await Promise.all([
+      const [users, events, shopping, shoppingLists, todos, settings, stores, categories, eventCategories, birthdays] = await Promise.all([
           this.getUsers(),
           this.getEvents(),
           this.getShopping(),
+          this.getShoppingLists(),
           this.getTodos(),
           this.getSettings(),
           this.getStores(),
-          this.getCategories()
+          this.getCategories(),
+          this.getEventCategories(),
+          this.getBirthdays()
       ]);
-      return { users, events, shopping, todos, settings, stores, categories, date: new Date().toISOString() };
+      return { users, events, shopping, shoppingLists, todos, settings, stores, categories, eventCategories, birthdays, date: new Date().toISOString() };
   } 
 
   async restoreBackup(data: any) {
@@ -537,6 +909,8 @@ async saveCategories(cats: ShoppingCategory[]): Promise<Record<string, string>>
       if (data.settings) await this.saveSettings(data.settings);
       if (data.stores) await this.saveStores(data.stores);
       if (data.categories) await this.saveCategories(data.categories);
+      if (data.eventCategories) await this.saveEventCategories(data.eventCategories);
+      if (data.birthdays) await this.saveBirthdays(data.birthdays);
 
       if (data.events) {
           for (const item of data.events) {
@@ -544,10 +918,18 @@ async saveCategories(cats: ShoppingCategory[]): Promise<Record<string, string>>
               catch { try { await pb.collection('events').create(item); } catch (e) { console.error(e); } }
           }
       }
+      if (data.shoppingLists) {
+          // Same ids, so that the restored items find their list
+          for (const list of data.shoppingLists) {
+              const record = { name: list.name, icon: list.icon || '', members: list.memberIds || [], archived: !!list.isArchived, order: list.order };
+              try { await pb.collection('shopping_lists').update(list.id, record); }
+              catch { try { await pb.collection('shopping_lists').create({ id: list.id, ...record }); } catch (e) { console.error(e); } }
+          }
+      }
       if (data.shopping) {
           for (const item of data.shopping) {
-              try { await pb.collection('shopping_items').update(item.id, { ...item, addedBy: item.addedByUserId }); } 
-              catch { try { await pb.collection('shopping_items').create({ ...item, addedBy: item.addedByUserId }); } catch (e) { console.error(e); } }
+              try { await pb.collection('shopping_items').update(item.id, { ...item, addedBy: item.addedByUserId, list: item.listId || '' }); } 
+              catch { try { await pb.collection('shopping_items').create({ ...item, addedBy: item.addedByUserId, list: item.listId || '' }); } catch (e) { console.error(e); } }
           }
       }
       if (data.todos) {
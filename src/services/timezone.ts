@@ -0,0 +1,125 @@
+import { CalendarEvent } from '../types';
+
+// --- Timezone Helpers (IANA names, e.g. "America/Toronto") ---
+// Event times are stored as absolute UTC instants. The zone only matters for "wall clock" maths:
+// expanding recurrences (9:00 stays 9:00 across DST) and emitting TZID in iCal files.
+
+export interface ZonedParts {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+export const getBrowserTimeZone = (): string => {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+        return 'UTC';
+    }
+};
+
+// Household zone (SystemSettings.timeZone), used for events without their own zone.
+// Set by App whenever settings load/change.
+let defaultTimeZone: string | undefined;
+
+export const setDefaultTimeZone = (tz?: string) => {
+    defaultTimeZone = tz && isValidTimeZone(tz) ? tz : undefined;
+};
+
+export const getDefaultTimeZone = (): string => defaultTimeZone || getBrowserTimeZone();
+
+// All-day events are dates, not instants: stored at midnight in the household zone,
+// so every member (and a travelling one) gets the same days
+export const getEventTimeZone = (event: CalendarEvent): string => {
+    if (event.isAllDay) return getDefaultTimeZone();
+    return event.timeZone && isValidTimeZone(event.timeZone) ? event.timeZone : getDefaultTimeZone();
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (tz: string): Intl.DateTimeFormat => {
+    let fmt = formatters.get(tz);
+    if (!fmt) {
+        fmt = new Intl.DateTimeFormat('en-US', {
+            timeZone: tz,
+            hourCycle: 'h23',
+            year: 'numeric', month: 'numeric', day: 'numeric',
+            hour: 'numeric', minute: 'numeric', second: 'numeric'
+        });
+        formatters.set(tz, fmt);
+    }
+    return fmt;
+};
+
+export const isValidTimeZone = (tz: string): boolean => {
+    if (!tz) return false;
+    try {
+        getFormatter(tz);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const getSupportedTimeZones = (): string[] => {
+    const intl = Intl as any;
+    if (typeof intl.supportedValuesOf === 'function') {
+        try { return intl.supportedValuesOf('timeZone'); } catch { /* fall through */ }
+    }
+    return Array.from(new Set([getBrowserTimeZone(), 'UTC']));
+};
+
+// Wall clock time of an instant in the given zone
+export const getZonedParts = (date: Date, tz: string): ZonedParts => {
+    const parts: Record<string, number> = {};
+    getFormatter(tz).formatToParts(date).forEach(p => {
+        if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+    });
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour === 24 ? 0 : parts.hour,
+        minute: parts.minute,
+        second: parts.second
+    };
+};
+
+// UTC offset of the zone at this instant, in minutes (e.g. -300 for EST)
+export const getTimeZoneOffset = (date: Date, tz: string): number => {
+    const p = getZonedParts(date, tz);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    const instant = Math.floor(date.getTime() / 1000) * 1000;
+    return Math.round((asUtc - instant) / 60000);
+};
+
+// Instant of a wall clock time in the given zone.
+// DST gaps (02:30 on spring-forward day) resolve forward; overlaps resolve to the first occurrence.
+export const zonedTimeToUtc = (parts: ZonedParts, tz: string, ms: number = 0): Date => {
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, ms);
+    const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), tz) * 60000;
+    const secondOffset = getTimeZoneOffset(new Date(firstGuess), tz);
+    const secondGuess = asUtc - secondOffset * 60000;
+    if (secondGuess === firstGuess) return new Date(firstGuess);
+
+    // Offset changed between the guesses: prefer the one that maps back to the requested wall time
+    const check = getZonedParts(new Date(secondGuess), tz);
+    if (check.hour === parts.hour && check.minute === parts.minute) return new Date(secondGuess);
+    return new Date(Math.max(firstGuess, secondGuess));
+};
+
+// "YYYY-MM-DD" of an instant in the given zone
+export const toZonedDateString = (date: Date, tz: string): string => {
+    const p = getZonedParts(date, tz);
+    return `${p.year}-${p.month.toString().padStart(2, '0')}-${p.day.toString().padStart(2, '0')}`;
+};
+
+// -300 -> "-0500" (iCal TZOFFSETFROM/TZOFFSETTO format)
+export const formatUtcOffset = (minutes: number): string => {
+    const sign = minutes < 0 ? '-' : '+';
+    const abs = Math.abs(minutes);
+    return `${sign}${Math.floor(abs / 60).toString().padStart(2, '0')}${(abs % 60).toString().padStart(2, '0')}`;
+};
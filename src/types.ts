@@ -7,6 +7,10 @@ export interface UserPreferences {
   theme: 'LIGHT' | 'DARK';
   timeFormat?: '12h' | '24h';
   language?: string;
+  weekStart?: 0 | 1; // First day of the week: 0 = Sunday, 1 = Monday (default: from the language)
+  showWeekNumbers?: boolean; // ISO 8601 week numbers in the week/month views and date pickers
+  quietHoursStart?: string; // "HH:mm": not available for "Find a time" (e.g. bedtime 20:30)
+  quietHoursEnd?: string; // "HH:mm", may be the next morning
 }
 
 export interface User {
@@ -20,6 +24,23 @@ export interface User {
   preferences?: UserPreferences;
 }
 
+export type RecurrenceFreq = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// UI-side representation of an RRULE (the RFC 5545 parts we can round-trip)
+export interface RecurrenceRule {
+  freq: RecurrenceFreq;
+  interval?: number; // 1 = every period, 2 = every other...
+  byDay?: string[]; // "MO", or with ordinal for MONTHLY/YEARLY: "1MO", "-1FR"
+  byMonthDay?: number[]; // 1..31 or negative from end of month (-1 = last day)
+  byMonth?: number[]; // 1..12 (YEARLY)
+  bySetPos?: number[]; // Preserved from imports, not editable
+  weekStart?: RecurrenceWeekday; // WKST, preserved from imports
+  count?: number; // Ends after N occurrences (mutually exclusive with until)
+  until?: string; // ISO String
+}
+
 export interface CalendarEvent {
   id: string;
   title: string;
@@ -27,10 +48,39 @@ export interface CalendarEvent {
   startTime: string; // ISO String
   endTime?: string; // ISO String
   isAllDay?: boolean;
+  timeZone?: string; // IANA zone the times are meant in (e.g. "America/Toronto"). Falls back to the household zone
   userIds: string[];
   rrule?: string; // Standard iCal Recurrence Rule (e.g. "FREQ=WEEKLY;BYDAY=TU")
   icalUID?: string; // External Unique ID for import/export deduplication
   exdates?: string[]; // Array of ISO Date strings (YYYY-MM-DD) to skip
+  recurringEventId?: string; // Override: ID of the master series this edited occurrence belongs to
+  recurrenceId?: string; // Override: ISO String of the original occurrence start (RFC 5545 RECURRENCE-ID)
+  recurrence?: RecurrenceRule; // Transient editor state (EventModal only), never persisted
+  subscriptionId?: string; // Read-only overlay: ID of the calendar subscription (external ICS feed) it came from
+  location?: string; // Free text (iCal LOCATION)
+  locationLat?: number; // Place picked with geocoding (iCal GEO): map link & local weather
+  locationLon?: number;
+  travelMinutes?: number; // Time to get there, blocked before the start (X-APPLE-TRAVEL-DURATION)
+  categories?: string[]; // iCal CATEGORIES
+  reminders?: number[]; // Minutes before the start (iCal VALARM), e.g. [15, 1440]
+}
+
+// External ICS feed (school, sports league...), fetched periodically by the server
+export interface CalendarSubscription {
+  id: string;
+  name: string;
+  url: string; // https:// or webcal://
+  color: string; // Hex, used for all events of this layer
+  enabled: boolean; // Server-side sync on/off (per-device visibility is a separate toggle)
+  lastSync?: string; // ISO Timestamp of the last sync attempt
+  lastError?: string; // Empty when the last sync succeeded
+}
+
+export interface IcalFeed {
+  id: string;
+  token: string; // Secret part of the feed URL
+  participantId?: string; // Only this member's events (whole family when empty)
+  created?: string;
 }
 
 export type PriorityLevel = 'LOW' | 'NORMAL' | 'URGENT';
@@ -59,6 +109,25 @@ export interface ShoppingCategory {
   order: number;
 }
 
+// Managed event tag: colors the events whose `categories` contain its name (case-insensitive)
+export interface EventCategory {
+  id: string;
+  name: string; // Also the iCal CATEGORIES value
+  color: string; // Hex
+  order: number;
+}
+
+// Birthday or anniversary, repeated every year on the calendar (not stored as an event)
+export interface Birthday {
+  id: string;
+  name: string; // "Grandma", "Mom & Dad"
+  kind: 'birthday' | 'anniversary';
+  month: number; // 1-12
+  day: number;
+  year?: number; // Birth/wedding year, for the age
+  reminderDays?: number; // Reminder N days before (0 = on the day), undefined = none
+}
+
 export type ShoppingLogType = 'CREATE' | 'UPDATE' | 'COMPLETE' | 'RESTORE';
 
 export interface ShoppingLogEntry {
@@ -73,6 +142,9 @@ export interface ShoppingItem {
   id: string;
   content: string;
   note?: string;
+  listId?: string; // ShoppingList, empty = the main list
+  quantity?: number; // Empty = one
+  unit?: string; // Canonical unit ("kg", "l", "pack"...), see services/shopping
   isInCart: boolean;
   addedByUserId: string;
   addedAt: string; // ISO String
@@ -100,6 +172,43 @@ export interface ShoppingItem {
   priority?: PriorityLevel;
 }
 
+// Named shopping list besides the main one ("Costco run", "Party supplies")
+export interface ShoppingList {
+  id: string;
+  name: string;
+  icon?: string; // Emoji
+  memberIds: string[]; // Who can see it and its items; empty = everyone
+  isArchived?: boolean;
+  order: number;
+}
+
+// Finished "shopping mode" run in one store (summary shown when the trip ends)
+export interface ShoppingTrip {
+  id: string;
+  storeId?: string;
+  listId?: string; // Empty = the main list
+  userId: string;
+  startedAt: string; // ISO String
+  finishedAt: string; // ISO String
+  itemCount: number;
+  items?: string[]; // What was bought, e.g. "Milk (×2)" (only on the device that finished the trip)
+}
+
+// Bought item, archived when the cart is cleared (shopping_history)
+export interface PurchaseRecord {
+  id: string;
+  content: string;
+  quantity?: number;
+  unit?: string;
+  listId?: string;
+  addedByUserId?: string;
+  boughtByUserId?: string;
+  boughtAt: string; // ISO String
+  tripId?: string;
+}
+
+export type CalendarViewMode = 'DAY' | 'WEEK' | 'MONTH' | 'YEAR' | 'AGENDA';
+
 export enum AppView {
   CALENDAR = 'CALENDAR',
   LISTS = 'LISTS',
@@ -120,6 +229,8 @@ export interface SystemSettings {
   holidaysEnabled: boolean; // Master toggle for fetching
   holidayCountryCode: string; 
   holidaySubdivisionCode?: string; 
+
+  timeZone?: string; // Household IANA zone, default for events without their own. Empty = browser zone
   
   // Caching mechanism
   lastHolidayFetch?: string; // ISO Timestamp of last successful fetch